@@ -10,12 +10,53 @@
 
     const vscode = acquireVsCodeApi();
 
+    // Badge text for each retrieve outcome reported with a commit result
+    const OUTCOME_LABELS = {
+        retrieved: 'Retrieved',
+        unchanged: 'Unchanged',
+        failed: 'Failed'
+    };
+
+    const REPO_STATUS_LABELS = {
+        notInRepo: 'Not in repo',
+        unchanged: 'Unchanged',
+        modified: 'Locally modified',
+        orgNewer: 'Newer in org'
+    };
+
+    const REPO_STATUS_TITLES = {
+        notInRepo: 'No source file of this component is committed',
+        unchanged: 'Committed, with no local edits and no org changes since',
+        modified: 'A source file has uncommitted local changes',
+        orgNewer: 'Changed in the org after the last commit of its files'
+    };
+
     // --- State ---
     let state = {
         allMetadata: [],
         filteredMetadata: [],
         selectedIds: new Set(),
-        currentTab: 'all', // 'all' | 'selected'
+        currentTab: 'all', // 'all' | 'selected' | 'history'
+        history: [],
+        historyFilter: '',
+        outcomes: {}, // id -> { status, error } from the last commit's retrieve
+        repoStatus: {}, // id -> 'notInRepo' | 'unchanged' | 'modified' | 'orgNewer'
+        loadStatus: null, // { loaded, total, truncated, complete } of the last fetch
+        changedIds: [], // ids updated by the last incremental refresh
+        fetchedAt: null, // when the shown metadata was queried from the org
+        targetOrg: '', // the org picked in the selector
+        projects: [], // Salesforce projects in the workspace: { name, root, packageDirectories, defaultPackageDirectory }
+        projectRoot: '', // root of the picked project ('' for the first one)
+        packageDirectory: '', // package directory for new components ('' for the project default)
+        selectionSets: [], // saved sets of the picked project: { name, location, components, savedAt }
+        config: { // settings pushed by the extension host (see the `config` message)
+            autoFetchOnOpen: true,
+            defaultOrg: '',
+            largeCommitThreshold: 50,
+            pageSize: 25,
+            storyPattern: '',
+            storyRequired: false
+        },
         sort: {
             column: 'date',
             direction: 'desc' // 'asc' | 'desc'
@@ -23,11 +64,20 @@
         filters: {
             name: '',
             type: '',
-            user: ''
+            user: '',
+            createdBy: '',
+            isNew: '',
+            repoStatus: ''
         },
         pagination: {
             currentPage: 1,
             pageSize: 25
+        },
+        options: {
+            useFeatureBranch: false,
+            baseBranch: '',
+            scopePermissions: false,
+            splitBy: ''
         }
     };
 
@@ -40,16 +90,46 @@
     // --- DOM Elements ---
     const dom = {
         orgSelector: requireElement('org-selector'),
+        projectSelector: requireElement('project-selector'),
+        packageDirSelector: requireElement('package-dir-selector'),
         userStoryRef: requireElement('user-story-ref'),
+        storyRefError: requireElement('story-ref-error'),
         commitMessage: requireElement('commit-message'),
+        messagePreview: requireElement('message-preview'),
+        optFeatureBranch: requireElement('opt-feature-branch'),
+        optScopePermissions: requireElement('opt-scope-permissions'),
+        optSplitBy: requireElement('opt-split-by'),
+        baseBranch: requireElement('base-branch'),
+        selectionSetSelector: requireElement('selection-set-selector'),
+        btnLoadSet: requireElement('btn-load-set'),
+        btnDeleteSet: requireElement('btn-delete-set'),
+        btnSaveSet: requireElement('btn-save-set'),
+        btnExportManifest: requireElement('btn-export-manifest'),
+        btnImportManifest: requireElement('btn-import-manifest'),
+        missingBanner: requireElement('missing-banner'),
+        missingMessage: requireElement('missing-message'),
+        missingList: requireElement('missing-list'),
+        btnMissingClose: requireElement('btn-missing-close'),
         btnCommit: requireElement('btn-commit'),
+        btnCommitPush: requireElement('btn-commit-push'),
+        btnPreview: requireElement('btn-preview'),
         btnRefresh: requireElement('btn-refresh'),
         tabAll: requireElement('tab-all'),
         tabSelected: requireElement('tab-selected'),
+        tabHistory: requireElement('tab-history'),
+        historyView: requireElement('history-view'),
+        historyList: requireElement('history-list'),
+        historyFilter: requireElement('history-filter'),
+        btnUndoCommit: requireElement('btn-undo-commit'),
+        grid: document.querySelector('.grid'),
+        statusBar: document.querySelector('.status-bar'),
         gridBody: requireElement('grid-body'),
         itemCount: requireElement('item-count'),
+        lastRefreshed: requireElement('last-refreshed'),
+        loadStatus: requireElement('load-status'),
         selectAll: requireElement('select-all'),
         loadingOverlay: requireElement('loading-overlay'),
+        btnCancel: requireElement('btn-cancel'),
         errorBanner: requireElement('error-banner'),
         errorMessage: requireElement('error-message'),
         successBanner: requireElement('success-banner'),
@@ -60,13 +140,31 @@
         btnNext: requireElement('btn-next'),
         pageNumbers: requireElement('page-numbers'),
 
+        // Commit preview
+        previewPanel: requireElement('preview-panel'),
+        previewSummary: requireElement('preview-summary'),
+        previewFiles: requireElement('preview-files'),
+        btnPreviewCommit: requireElement('btn-preview-commit'),
+        btnPreviewClose: requireElement('btn-preview-close'),
+
+        // Suggested additions
+        suggestionsPanel: requireElement('suggestions-panel'),
+        suggestionsList: requireElement('suggestions-list'),
+        btnAddAllSuggestions: requireElement('btn-add-all-suggestions'),
+        authorsPanel: requireElement('authors-panel'),
+        authorsSummary: requireElement('authors-summary'),
+        unmappedAuthors: requireElement('unmapped-authors'),
+
         // Headers for sorting
         headers: document.querySelectorAll('.grid__header--sortable'),
 
         // Filters
         filterName: requireElement('filter-name'),
         filterType: requireElement('filter-type'),
-        filterUser: requireElement('filter-user')
+        filterUser: requireElement('filter-user'),
+        filterCreatedBy: requireElement('filter-created-by'),
+        filterNew: requireElement('filter-new'),
+        filterRepoStatus: requireElement('filter-repo-status')
     };
 
     // --- State save debounce ---
@@ -74,21 +172,111 @@
     function debouncedSaveState() {
         if (_saveTimeout) clearTimeout(_saveTimeout);
         _saveTimeout = setTimeout(() => {
+            // Rows are cached by the extension host, so they are not kept here
             vscode.setState({
                 ...state,
+                allMetadata: [],
+                filteredMetadata: [],
+                history: [],
                 selectedIds: Array.from(state.selectedIds)
             });
         }, 300);
     }
 
+    // --- Commit message preview ---
+    let _previewTimeout = null;
+    let _lastPreviewKey = '';
+    let _messageError = '';
+
+    /**
+     * Asks the host to render the commit message for the current input,
+     * at most once per 300ms and only when something it depends on changed.
+     */
+    function scheduleMessagePreview() {
+        const payload = {
+            message: dom.commitMessage.value,
+            userStoryRef: dom.userStoryRef.value,
+            targetOrg: dom.orgSelector.value,
+            selectedIds: Array.from(state.selectedIds),
+            projectRoot: state.projectRoot
+        };
+        const key = JSON.stringify(payload);
+        if (key === _lastPreviewKey) return;
+        _lastPreviewKey = key;
+
+        if (_previewTimeout) clearTimeout(_previewTimeout);
+        if (!payload.message.trim()) {
+            handleCommitMessagePreview({ message: '' });
+            return;
+        }
+        _previewTimeout = setTimeout(() => {
+            vscode.postMessage({
+                command: 'previewCommitMessage',
+                payload,
+                requestId: 'message-' + Date.now()
+            });
+        }, 300);
+    }
+
+    // --- Dependency suggestions debounce ---
+    let _suggestionsTimeout = null;
+    let _lastSuggestionsKey = null;
+    let _suggestions = [];
+
+    /**
+     * Asks the host which fetched components the selection likely needs and
+     * who a commit of it would credit, at most once per 300ms and only when
+     * the selection or the rows changed.
+     */
+    function scheduleSuggestions() {
+        const payload = {
+            selectedIds: Array.from(state.selectedIds),
+            projectRoot: state.projectRoot
+        };
+        const key = JSON.stringify([payload, state.allMetadata.length, state.fetchedAt]);
+        if (key === _lastSuggestionsKey) return;
+        _lastSuggestionsKey = key;
+
+        if (_suggestionsTimeout) clearTimeout(_suggestionsTimeout);
+        if (payload.selectedIds.length === 0) {
+            handleSuggestions({ items: [] });
+            handleAuthors({ mode: 'committer', coAuthors: [], unmapped: [] });
+            return;
+        }
+        _suggestionsTimeout = setTimeout(() => {
+            vscode.postMessage({
+                command: 'getSuggestions',
+                payload,
+                requestId: 'suggestions-' + Date.now()
+            });
+            vscode.postMessage({
+                command: 'getAuthors',
+                payload,
+                requestId: 'authors-' + Date.now()
+            });
+        }, 300);
+    }
+
     // --- Initialization ---
+    // The host answers in order, so the settings are known before the org list arrives
+    vscode.postMessage({ command: 'getConfig', requestId: 'init-config' });
     vscode.postMessage({ command: 'getOrgList', requestId: 'init-orgs' });
+    vscode.postMessage({ command: 'getProjectList', requestId: 'init-projects' });
+    applyOptions();
+    dom.pageSize.value = String(state.pagination.pageSize);
 
     if (state.allMetadata.length > 0) {
         updateFilteredData();
         renderGrid();
         updateUI();
     }
+    renderLoadStatus();
+    renderLastRefreshed();
+    setInterval(renderLastRefreshed, 60000);
+
+    if (state.currentTab === 'history') {
+        switchTab('history');
+    }
 
     // --- Event Listeners ---
 
@@ -96,12 +284,54 @@
     window.addEventListener('message', event => {
         const message = event.data;
         switch (message.command) {
-            case 'metadataLoaded':
-                handleMetadataLoaded(message.payload);
+            case 'metadataChunk':
+                handleMetadataChunk(message.payload);
+                break;
+            case 'metadataComplete':
+                handleMetadataComplete(message.payload);
+                break;
+            case 'metadataMerged':
+                handleMetadataMerged(message.payload);
                 break;
             case 'orgList':
                 handleOrgList(message.payload);
                 break;
+            case 'config':
+                handleConfig(message.payload);
+                break;
+            case 'commitMessagePreview':
+                handleCommitMessagePreview(message.payload);
+                break;
+            case 'branchStory':
+                handleBranchStory(message.payload);
+                break;
+            case 'selectionSets':
+                handleSelectionSets(message.payload);
+                break;
+            case 'selectionSetLoaded':
+                handleSelectionSetLoaded(message.payload);
+                break;
+            case 'suggestions':
+                handleSuggestions(message.payload);
+                break;
+            case 'authors':
+                handleAuthors(message.payload);
+                break;
+            case 'repoStatus':
+                handleRepoStatus(message.payload);
+                break;
+            case 'manifestExported':
+                handleManifestExported(message.payload);
+                break;
+            case 'manifestImported':
+                handleManifestImported(message.payload);
+                break;
+            case 'localChanges':
+                handleLocalChanges(message.payload);
+                break;
+            case 'projectList':
+                handleProjectList(message.payload);
+                break;
             case 'error':
                 handleError(message.payload);
                 break;
@@ -111,12 +341,30 @@
             case 'commitResult':
                 handleCommitResult(message.payload);
                 break;
+            case 'previewResult':
+                handlePreviewResult(message.payload);
+                break;
+            case 'commitHistory':
+                handleCommitHistory(message.payload);
+                break;
+            case 'undoResult':
+                handleUndoResult(message.payload);
+                break;
         }
     });
 
     // Tab Switching
     dom.tabAll.addEventListener('click', () => switchTab('all'));
     dom.tabSelected.addEventListener('click', () => switchTab('selected'));
+    dom.tabHistory.addEventListener('click', () => switchTab('history'));
+
+    // History Filter
+    dom.historyFilter.addEventListener('input', (e) => {
+        state.historyFilter = e.target.value.toLowerCase();
+        renderHistory();
+    });
+
+    dom.btnUndoCommit.addEventListener('click', undoLastCommit);
 
     // Sorting
     dom.headers.forEach(header => {
@@ -155,11 +403,33 @@
         renderGrid();
     });
 
+    dom.filterCreatedBy.addEventListener('input', (e) => {
+        state.filters.createdBy = e.target.value.toLowerCase();
+        state.pagination.currentPage = 1;
+        updateFilteredData();
+        renderGrid();
+    });
+
+    dom.filterNew.addEventListener('change', (e) => {
+        state.filters.isNew = e.target.value;
+        state.pagination.currentPage = 1;
+        updateFilteredData();
+        renderGrid();
+    });
+
+    dom.filterRepoStatus.addEventListener('change', (e) => {
+        state.filters.repoStatus = e.target.value;
+        state.pagination.currentPage = 1;
+        updateFilteredData();
+        renderGrid();
+    });
+
     // Pagination
     dom.pageSize.addEventListener('change', (e) => {
         state.pagination.pageSize = parseInt(e.target.value);
         state.pagination.currentPage = 1;
         renderGrid();
+        debouncedSaveState();
     });
 
     dom.btnPrev.addEventListener('click', () => {
@@ -190,19 +460,86 @@
     });
 
     // Org Selector
-    dom.orgSelector.addEventListener('change', () => fetchMetadata());
+    dom.orgSelector.addEventListener('change', () => {
+        state.targetOrg = dom.orgSelector.value;
+        debouncedSaveState();
+        scheduleMessagePreview();
+        fetchMetadata({ onlyIfStale: true });
+    });
+
+    // Project and package directory
+    dom.projectSelector.addEventListener('change', () => {
+        state.projectRoot = dom.projectSelector.value;
+        state.packageDirectory = '';
+        renderPackageDirectories();
+        debouncedSaveState();
+        requestBranchStory();
+        requestSelectionSets();
+        requestRepoStatus();
+        if (state.currentTab === 'history') requestHistory();
+    });
+
+    dom.packageDirSelector.addEventListener('change', () => {
+        state.packageDirectory = dom.packageDirSelector.value;
+        debouncedSaveState();
+    });
 
     // Retry Button
     dom.btnRetry.addEventListener('click', () => fetchMetadata());
+    dom.btnCancel.addEventListener('click', cancelOperation);
 
     // Refresh Button
-    dom.btnRefresh.addEventListener('click', () => fetchMetadata());
+    // Refresh only asks for newer changes; Shift+click reloads everything
+    dom.btnRefresh.addEventListener('click', (e) => fetchMetadata({ incremental: !e.shiftKey }));
 
-    // Commit Button
+    // Commit Buttons
     dom.btnCommit.addEventListener('click', () => commitChanges());
+    dom.btnCommitPush.addEventListener('click', () => commitChanges({ push: true }));
+
+    // Preview Buttons
+    dom.btnPreview.addEventListener('click', () => previewChanges());
+    dom.btnPreviewCommit.addEventListener('click', () => commitChanges());
+    dom.btnPreviewClose.addEventListener('click', () => hidePreview());
 
-    // Commit Message Input (to enable button)
+    // Commit Options
+    dom.optFeatureBranch.addEventListener('change', (e) => {
+        state.options.useFeatureBranch = e.target.checked;
+        applyOptions();
+        debouncedSaveState();
+    });
+
+    dom.baseBranch.addEventListener('input', (e) => {
+        state.options.baseBranch = e.target.value.trim();
+        debouncedSaveState();
+    });
+
+    dom.optScopePermissions.addEventListener('change', (e) => {
+        state.options.scopePermissions = e.target.checked;
+        debouncedSaveState();
+    });
+
+    dom.optSplitBy.addEventListener('change', (e) => {
+        state.options.splitBy = e.target.value;
+        debouncedSaveState();
+    });
+
+    // Selection Sets
+    dom.selectionSetSelector.addEventListener('change', () => updateUI());
+    dom.btnSaveSet.addEventListener('click', () => saveSelectionSet());
+    dom.btnLoadSet.addEventListener('click', () => loadSelectionSet());
+    dom.btnDeleteSet.addEventListener('click', () => deleteSelectionSet());
+    dom.btnMissingClose.addEventListener('click', () => dom.missingBanner.classList.add('hidden'));
+
+    // Manifests
+    dom.btnExportManifest.addEventListener('click', () => exportManifest());
+
+    // Suggested additions
+    dom.btnAddAllSuggestions.addEventListener('click', () => addSuggestions(_suggestions.map(s => s.id)));
+    dom.btnImportManifest.addEventListener('click', () => importManifest());
+
+    // Commit Message Input (to enable button and refresh the preview)
     dom.commitMessage.addEventListener('input', () => updateUI());
+    dom.userStoryRef.addEventListener('input', () => updateUI());
 
     // Keyboard Shortcut: Ctrl+Enter to commit
     dom.commitMessage.addEventListener('keydown', (e) => {
@@ -230,7 +567,14 @@
 
     // --- Core Logic ---
 
-    function fetchMetadata() {
+    /**
+     * Requests metadata for the selected org. With `incremental`, the host
+     * sends only changes since its last full fetch of the same org (and falls
+     * back to a full fetch when it has none). `onlyIfStale` additionally skips
+     * the query when the host's saved fetch is recent enough, and `cachedOnly`
+     * never queries the org.
+     */
+    function fetchMetadata(options = {}) {
         const targetOrg = dom.orgSelector.value;
         if (!targetOrg) return;
 
@@ -240,7 +584,12 @@
 
         vscode.postMessage({
             command: 'fetchMetadata',
-            payload: { targetOrg },
+            payload: {
+                targetOrg,
+                incremental: Boolean(options.incremental),
+                onlyIfStale: Boolean(options.onlyIfStale),
+                cachedOnly: Boolean(options.cachedOnly)
+            },
             requestId: 'fetch-' + Date.now()
         });
     }
@@ -248,26 +597,35 @@
     /**
      * Commits the selected metadata changes to the repository.
      * 
-     * If more than 50 items are selected, it delegates to 'confirmLargeCommit'
+     * If more items are selected than the `commit.largeCommitThreshold`
+     * setting allows, it delegates to 'confirmLargeCommit'
      * to show a native VS Code confirmation dialog. Otherwise, it sends
      * the 'commitChanges' command directly.
+     *
+     * @param {{ push?: boolean }} [options] - Set `push` to push the branch after committing.
      */
-    function commitChanges() {
+    function commitChanges(options = {}) {
         const targetOrg = dom.orgSelector.value;
         const message = dom.commitMessage.value;
         const userStoryRef = dom.userStoryRef.value;
         const selectedIds = Array.from(state.selectedIds);
+        const { useFeatureBranch, baseBranch } = state.options;
+        const scopePermissions = Boolean(state.options.scopePermissions);
+        const splitBy = state.options.splitBy || undefined;
+        const push = Boolean(options.push);
 
         if (!message || selectedIds.length === 0) return;
 
-        showLoading(true, 'Starting commit...');
+        showLoading(true, 'Starting commit...', true);
         hideError();
         hideSuccess();
+        hidePreview();
         dom.btnCommit.disabled = true;
+        dom.btnCommitPush.disabled = true;
 
         // For large commits, delegate confirmation to the Extension Host
         // which can use native VS Code dialogs (confirm() doesn't work in webviews)
-        if (selectedIds.length > 50) {
+        if (selectedIds.length > state.config.largeCommitThreshold) {
             vscode.postMessage({
                 command: 'confirmLargeCommit',
                 payload: {
@@ -275,7 +633,14 @@
                     selectedIds,
                     message,
                     userStoryRef,
-                    targetOrg
+                    targetOrg,
+                    projectRoot: state.projectRoot,
+                    packageDirectory: state.packageDirectory,
+                    useFeatureBranch,
+                    baseBranch,
+                    push,
+                    scopePermissions,
+                    splitBy
                 },
                 requestId: 'commit-' + Date.now()
             });
@@ -286,13 +651,236 @@
                     selectedIds,
                     message,
                     userStoryRef,
-                    targetOrg
+                    targetOrg,
+                    projectRoot: state.projectRoot,
+                    packageDirectory: state.packageDirectory,
+                    useFeatureBranch,
+                    baseBranch,
+                    push,
+                    scopePermissions,
+                    splitBy
                 },
                 requestId: 'commit-' + Date.now()
             });
         }
     }
 
+    /**
+     * Asks the Extension Host to retrieve the selection into a scratch
+     * directory and report what the commit would change in the workspace.
+     */
+    function previewChanges() {
+        const targetOrg = dom.orgSelector.value;
+        const selectedIds = Array.from(state.selectedIds);
+        if (selectedIds.length === 0) return;
+
+        showLoading(true, 'Preparing preview...', true);
+        hideError();
+        hideSuccess();
+        hidePreview();
+
+        vscode.postMessage({
+            command: 'previewChanges',
+            payload: {
+                selectedIds,
+                targetOrg,
+                projectRoot: state.projectRoot,
+                packageDirectory: state.packageDirectory,
+                scopePermissions: Boolean(state.options.scopePermissions)
+            },
+            requestId: 'preview-' + Date.now()
+        });
+    }
+
+    /**
+     * Renders the preview summary. Added, modified and removed files are
+     * listed and open a diff editor when clicked; unchanged files are only counted.
+     */
+    function handlePreviewResult(payload) {
+        showLoading(false);
+        if (payload.cancelled) {
+            updateUI();
+            return;
+        }
+        const { added, modified, unchanged, removed, errors } = payload;
+
+        const parts = [
+            `${added.length} added`,
+            `${modified.length} modified`,
+            `${unchanged.length} unchanged`
+        ];
+        if (removed.length > 0) parts.push(`${removed.length} removed`);
+        if (errors.length > 0) parts.push(`${errors.length} failed`);
+
+        const nothingChanges = added.length + modified.length + removed.length === 0;
+        dom.previewSummary.textContent = nothingChanges
+            ? `Nothing would change in the workspace (${parts.join(', ')}).`
+            : `Preview: ${parts.join(', ')}.`;
+
+        dom.previewFiles.innerHTML = '';
+        const entries = [
+            ...modified.map(path => ({ path, status: 'Modified' })),
+            ...added.map(path => ({ path, status: 'Added' })),
+            ...removed.map(path => ({ path, status: 'Removed' }))
+        ];
+        entries.forEach(entry => dom.previewFiles.appendChild(createPreviewItem(entry)));
+        errors.forEach(error => {
+            const li = document.createElement('li');
+            li.className = 'preview-error';
+            li.textContent = error;
+            dom.previewFiles.appendChild(li);
+        });
+
+        dom.previewPanel.classList.remove('hidden');
+        updateUI();
+    }
+
+    function createPreviewItem(entry) {
+        const li = document.createElement('li');
+
+        const status = document.createElement('span');
+        status.className = 'preview-status';
+        status.textContent = entry.status;
+        li.appendChild(status);
+
+        const link = document.createElement('button');
+        link.className = 'preview-file';
+        link.textContent = entry.path;
+        link.title = entry.status === 'Modified' ? 'Open diff' : 'Open file';
+        link.addEventListener('click', () => {
+            vscode.postMessage({
+                command: 'openPreviewDiff',
+                payload: { path: entry.path },
+                requestId: 'diff-' + Date.now()
+            });
+        });
+        li.appendChild(link);
+
+        return li;
+    }
+
+    /**
+     * Syncs the commit option controls with `state.options`.
+     * The base branch only matters when committing to a feature branch.
+     */
+    function applyOptions() {
+        dom.optFeatureBranch.checked = state.options.useFeatureBranch;
+        dom.baseBranch.value = state.options.baseBranch;
+        dom.baseBranch.disabled = !state.options.useFeatureBranch;
+        dom.optScopePermissions.checked = Boolean(state.options.scopePermissions);
+        dom.optSplitBy.value = state.options.splitBy || '';
+    }
+
+    function hidePreview() {
+        dom.previewPanel.classList.add('hidden');
+    }
+
+    /**
+     * Fills the project selector with the Salesforce projects in the workspace.
+     * The picker is only enabled when there is more than one to choose from.
+     *
+     * @param {{ projects: Array<{ name: string, root: string, packageDirectories: string[], defaultPackageDirectory?: string }> }} payload
+     */
+    function handleProjectList(payload) {
+        state.projects = payload.projects;
+        dom.projectSelector.innerHTML = '';
+
+        if (state.projects.length === 0) {
+            const option = document.createElement('option');
+            option.text = 'No Salesforce project';
+            dom.projectSelector.add(option);
+        }
+
+        state.projects.forEach(project => {
+            const option = document.createElement('option');
+            option.value = project.root;
+            option.text = project.name;
+            option.title = project.root;
+            dom.projectSelector.add(option);
+        });
+
+        if (!state.projects.some(project => project.root === state.projectRoot)) {
+            state.projectRoot = state.projects.length > 0 ? state.projects[0].root : '';
+            state.packageDirectory = '';
+        }
+        dom.projectSelector.value = state.projectRoot;
+        dom.projectSelector.disabled = state.projects.length <= 1;
+
+        renderPackageDirectories();
+        debouncedSaveState();
+        requestBranchStory();
+        if (state.projects.length > 0) requestSelectionSets();
+    }
+
+    /**
+     * Asks the host for the User Story Ref in the current branch name.
+     */
+    function requestBranchStory() {
+        vscode.postMessage({
+            command: 'getBranchStory',
+            payload: { projectRoot: state.projectRoot },
+            requestId: 'branch-story-' + Date.now()
+        });
+    }
+
+    /**
+     * Fills in the User Story Ref from the branch name, unless one was typed.
+     *
+     * @param {{ branch: string, userStoryRef?: string }} payload
+     */
+    function handleBranchStory(payload) {
+        if (payload.userStoryRef && !dom.userStoryRef.value.trim()) {
+            dom.userStoryRef.value = payload.userStoryRef;
+            updateUI();
+        }
+    }
+
+    /**
+     * Checks the User Story Ref against the `story.*` settings, as the host
+     * does before committing.
+     *
+     * @returns {string} Why the reference is invalid, or '' if it is fine
+     */
+    function getStoryRefError() {
+        const ref = dom.userStoryRef.value.trim();
+        if (!ref) {
+            return state.config.storyRequired ? 'A User Story Ref is required.' : '';
+        }
+        if (!state.config.storyPattern) return '';
+
+        let pattern;
+        try {
+            pattern = new RegExp(`^(?:${state.config.storyPattern})$`);
+        } catch {
+            // The host reports an invalid pattern when committing
+            return '';
+        }
+        return pattern.test(ref) ? '' : `"${ref}" is not a valid User Story Ref. It must match ${state.config.storyPattern}.`;
+    }
+
+    /**
+     * Fills the package directory selector for the picked project and
+     * preselects its default directory unless another one was picked.
+     */
+    function renderPackageDirectories() {
+        const project = state.projects.find(p => p.root === state.projectRoot);
+        const directories = project ? project.packageDirectories : [];
+        dom.packageDirSelector.innerHTML = '';
+
+        directories.forEach(directory => {
+            const option = document.createElement('option');
+            option.value = directory;
+            option.text = directory === project.defaultPackageDirectory ? `${directory} (default)` : directory;
+            dom.packageDirSelector.add(option);
+        });
+
+        if (!directories.includes(state.packageDirectory)) {
+            state.packageDirectory = (project && project.defaultPackageDirectory) || '';
+        }
+        dom.packageDirSelector.value = state.packageDirectory;
+        dom.packageDirSelector.disabled = directories.length <= 1;
+    }
+
     function handleOrgList(payload) {
         const { orgs } = payload;
         dom.orgSelector.innerHTML = '';
@@ -311,19 +899,179 @@
             dom.orgSelector.add(option);
         });
 
-        // Trigger first fetch if no data loaded yet
-        if (state.allMetadata.length === 0) {
-            fetchMetadata();
+        // Keep the org picked earlier in this session, else the configured default
+        const defaultOrg = orgs.find(org => org.alias === state.config.defaultOrg || org.username === state.config.defaultOrg);
+        if (state.targetOrg && orgs.some(org => (org.alias || org.username) === state.targetOrg)) {
+            dom.orgSelector.value = state.targetOrg;
+        } else if (defaultOrg) {
+            dom.orgSelector.value = defaultOrg.alias || defaultOrg.username;
         }
+
+        // Show the host's cached rows at once; it only queries the org when they are stale
+        fetchMetadata(state.config.autoFetchOnOpen ? { onlyIfStale: true } : { cachedOnly: true });
     }
 
-    function handleMetadataLoaded(items) {
+    /**
+     * Applies the settings sent by the extension host. The page size only
+     * changes when the setting itself changed, so a size picked in the grid
+     * survives until then.
+     *
+     * @param {{ autoFetchOnOpen: boolean, defaultOrg: string, largeCommitThreshold: number, pageSize: number }} config
+     */
+    function handleConfig(config) {
+        const previous = state.config;
+        state.config = config;
+
+        if (config.pageSize !== previous.pageSize) {
+            state.pagination.pageSize = config.pageSize;
+            state.pagination.currentPage = 1;
+            dom.pageSize.value = String(config.pageSize);
+            renderGrid();
+        }
+        updateUI();
+        debouncedSaveState();
+    }
+
+    /**
+     * Adds one streamed batch of metadata. The first batch of a fetch replaces
+     * the previous results and hides the overlay, so the grid is usable while
+     * the remaining batches arrive.
+     */
+    function handleMetadataChunk(payload) {
+        const isFirstChunk = payload.loaded === payload.items.length;
+        if (isFirstChunk) {
+            showLoading(false);
+            state.allMetadata = payload.items;
+            state.changedIds = [];
+            state.pagination.currentPage = 1; // Fix: reset page on reload
+        } else {
+            state.allMetadata = state.allMetadata.concat(payload.items);
+        }
+
+        state.loadStatus = { loaded: payload.loaded, total: payload.total, truncated: false, complete: false };
+        populateTypeFilter();
+        updateFilteredData();
+        renderGrid();
+        renderLoadStatus();
+    }
+
+    function handleMetadataComplete(payload) {
+        if (payload.loaded === 0) {
+            // No chunk was sent, so the previous results are still showing
+            showLoading(false);
+            state.allMetadata = [];
+            state.pagination.currentPage = 1;
+            populateTypeFilter();
+            updateFilteredData();
+            renderGrid();
+        }
+
+        state.loadStatus = { ...payload, complete: true };
+        if (payload.fetchedAt) state.fetchedAt = payload.fetchedAt;
+        renderLoadStatus();
+        renderLastRefreshed();
+        requestRepoStatus();
+    }
+
+    /**
+     * Merges the result of an incremental refresh into the rows by id.
+     * Selections are kept; the merged rows are marked as changed until the next refresh.
+     */
+    function handleMetadataMerged(payload) {
         showLoading(false);
-        state.allMetadata = items;
-        state.pagination.currentPage = 1; // Fix: reset page on reload
+        const byId = new Map(state.allMetadata.map(item => [item.id, item]));
+        payload.items.forEach(item => {
+            const existing = byId.get(item.id);
+            if (existing) {
+                Object.assign(existing, item);
+            } else {
+                state.allMetadata.push(item);
+            }
+        });
+
+        state.changedIds = payload.items.map(item => item.id);
+        if (payload.fetchedAt) state.fetchedAt = payload.fetchedAt;
+        renderLastRefreshed();
+        if (payload.items.length > 0) {
+            showSuccess(`${payload.items.length} components changed since the last refresh`);
+        }
+
         populateTypeFilter();
         updateFilteredData();
         renderGrid();
+        requestRepoStatus();
+    }
+
+    /**
+     * Whether a component is new since the last commit, i.e. none of its
+     * source files is in the repository. Deleted components are never new.
+     *
+     * @param {Object} item - A metadata change
+     * @returns {boolean}
+     */
+    function isNewComponent(item) {
+        return item.changeKind !== 'Deleted' && state.repoStatus[item.id] === 'notInRepo';
+    }
+
+    /**
+     * Asks the host how each row relates to the project's git repository.
+     */
+    function requestRepoStatus() {
+        if (state.allMetadata.length === 0) return;
+        vscode.postMessage({
+            command: 'getRepoStatus',
+            payload: { projectRoot: state.projectRoot },
+            requestId: 'repo-status-' + Date.now()
+        });
+    }
+
+    /**
+     * Shows the repository status of each row.
+     *
+     * @param {{ statuses: Record<string, 'notInRepo' | 'unchanged' | 'modified' | 'orgNewer'> }} payload
+     */
+    function handleRepoStatus(payload) {
+        state.repoStatus = payload.statuses;
+        updateFilteredData();
+        renderGrid();
+    }
+
+    /**
+     * Shows how long ago the org was queried, e.g. "Last refreshed 5 minutes ago".
+     */
+    function renderLastRefreshed() {
+        if (!state.fetchedAt) {
+            dom.lastRefreshed.textContent = '';
+            return;
+        }
+
+        const minutes = Math.max(0, Math.floor((Date.now() - Date.parse(state.fetchedAt)) / 60000));
+        let age;
+        if (minutes < 1) age = 'just now';
+        else if (minutes < 60) age = `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+        else if (minutes < 60 * 24) age = `${Math.floor(minutes / 60)} hour${minutes < 120 ? '' : 's'} ago`;
+        else age = `${Math.floor(minutes / (60 * 24))} day${minutes < 60 * 48 ? '' : 's'} ago`;
+
+        dom.lastRefreshed.textContent = `Last refreshed ${age}`;
+        dom.lastRefreshed.title = new Date(state.fetchedAt).toLocaleString();
+    }
+
+    /**
+     * Shows streaming progress, or a warning when the fetch limit cut the results short.
+     */
+    function renderLoadStatus() {
+        const status = state.loadStatus;
+        const visible = Boolean(status) && (!status.complete || status.truncated);
+        dom.loadStatus.classList.toggle('hidden', !visible);
+        dom.loadStatus.classList.toggle('load-status--truncated', visible && status.truncated);
+        if (!visible) {
+            dom.loadStatus.textContent = '';
+            return;
+        }
+
+        dom.loadStatus.textContent = status.complete
+            ? `Results truncated: showing the newest ${status.loaded} of ${status.total} changes (see the sfCommitStudio.fetch.limit setting).`
+            : `Loading ${status.loaded} of ${status.total} changes...`;
     }
 
     function handleError(payload) {
@@ -341,21 +1089,90 @@
 
     function handleCommitResult(payload) {
         showLoading(false);
+        if (payload.cancelled) {
+            showSuccess('Commit cancelled. Nothing was staged or committed.');
+            showListNotice('The commit was cancelled after changing your working copy:', formatLeftBehind(payload));
+            updateUI();
+            return;
+        }
+        if (payload.components) {
+            state.outcomes = {};
+            payload.components.forEach(outcome => { state.outcomes[outcome.id] = outcome; });
+        }
+
         if (payload.success) {
             dom.commitMessage.value = '';
-            state.selectedIds.clear();
+            // Keep failed components selected so they can be retried
+            const failedIds = (payload.components || []).filter(c => c.status === 'failed').map(c => c.id);
+            state.selectedIds = new Set(failedIds);
 
             // Show success banner
-            showSuccess(`✓ Committed ${payload.filesCommitted || 0} files to ${payload.branch || 'branch'} (${payload.commit || ''})`);
+            const deletedNote = payload.filesDeleted ? `, removed ${payload.filesDeleted}` : '';
+            const pushNote = payload.pushed ? ` and pushed to ${payload.remote}` : '';
+            const failedNote = failedIds.length ? ` — ${failedIds.length} components failed to retrieve` : '';
+            const commitsNote = payload.commits ? ` in ${payload.commits.length} commits` : '';
+            showSuccess(`✓ Committed ${payload.filesCommitted || 0} files${deletedNote}${commitsNote} to ${payload.branch || 'branch'} (${payload.commit || ''})${pushNote}${failedNote}`);
+            if (payload.commits) {
+                showListNotice(`Created ${payload.commits.length} commits:`, [
+                    ...payload.commits.map(formatSplitCommit),
+                    ...(payload.leftStaged || []).map(file => `Left staged: ${file}`)
+                ]);
+            } else if (payload.leftStaged) {
+                showListNotice(
+                    `${payload.leftStaged.length} files that were already staged were left out of the commit and are still staged:`,
+                    payload.leftStaged
+                );
+            }
 
-            // Refresh metadata after successful commit
-            fetchMetadata();
+            // Refresh metadata (and history, if visible) after successful commit
+            fetchMetadata({ incremental: true });
+            if (state.currentTab === 'history') requestHistory();
         } else {
-            // Cancelled or failed without a separate error
+            if (payload.error) {
+                dom.errorBanner.classList.remove('hidden');
+                dom.errorMessage.textContent = payload.error;
+            }
+            const leftBehind = formatLeftBehind(payload);
+            if (payload.commits && payload.commits.length > 0) {
+                showListNotice(
+                    `${payload.commits.length} commits were created before the failure and were kept:`,
+                    [...payload.commits.map(formatSplitCommit), ...leftBehind]
+                );
+            } else if (leftBehind.length > 0) {
+                showListNotice('The commit failed after changing your working copy:', leftBehind);
+            }
+            if (payload.components) renderGrid();
             updateUI();
         }
     }
 
+    /**
+     * Describes what a cancelled or failed commit left in the working copy.
+     *
+     * @param {{ branch?: string, previousBranch?: string, stashMessage?: string }} payload
+     * @returns {string[]} One line per thing left behind
+     */
+    function formatLeftBehind(payload) {
+        const lines = [];
+        if (payload.previousBranch) {
+            lines.push(`Branch ${payload.branch} is checked out (you were on ${payload.previousBranch}).`);
+        }
+        if (payload.stashMessage) {
+            lines.push(`Your local edits are stashed as "${payload.stashMessage}". Run "git stash pop" to bring them back.`);
+        }
+        return lines;
+    }
+
+    /**
+     * Formats one commit of a split commit for the notice banner.
+     *
+     * @param {{ commit: string, label: string, filesCommitted: number }} commit
+     * @returns {string}
+     */
+    function formatSplitCommit(commit) {
+        return `${commit.commit.slice(0, 7)} ${commit.label} (${commit.filesCommitted} files)`;
+    }
+
     function populateTypeFilter() {
         const types = new Set(state.allMetadata.map(m => m.type));
         dom.filterType.innerHTML = '<option value="">All Types</option>';
@@ -365,6 +1182,8 @@
             option.textContent = type;
             dom.filterType.appendChild(option);
         });
+        // Rebuilt for every streamed chunk, so keep the user's choice
+        if (types.has(state.filters.type)) dom.filterType.value = state.filters.type;
     }
 
     function switchTab(tab) {
@@ -375,9 +1194,448 @@
         dom.tabAll.setAttribute('aria-selected', String(tab === 'all'));
         dom.tabSelected.classList.toggle('active', tab === 'selected');
         dom.tabSelected.setAttribute('aria-selected', String(tab === 'selected'));
+        dom.tabHistory.classList.toggle('active', tab === 'history');
+        dom.tabHistory.setAttribute('aria-selected', String(tab === 'history'));
+
+        // The History tab replaces the grid and its pagination
+        const isHistory = tab === 'history';
+        dom.historyView.classList.toggle('hidden', !isHistory);
+        if (dom.grid) dom.grid.classList.toggle('hidden', isHistory);
+        if (dom.statusBar) dom.statusBar.classList.toggle('hidden', isHistory);
+
+        if (isHistory) {
+            requestHistory();
+            return;
+        }
+
+        updateFilteredData();
+        renderGrid();
+    }
+
+    // --- Selection Sets ---
+
+    function requestSelectionSets() {
+        vscode.postMessage({
+            command: 'getSelectionSets',
+            payload: { projectRoot: state.projectRoot },
+            requestId: 'sets-' + Date.now()
+        });
+    }
+
+    /**
+     * Returns the set picked in the selector, if any.
+     */
+    function getChosenSet() {
+        const value = dom.selectionSetSelector.value;
+        return value === '' ? undefined : state.selectionSets[Number(value)];
+    }
+
+    /**
+     * Asks the host to save the selection; it prompts for the name (the
+     * User Story Ref is offered) and for where the set is stored.
+     */
+    function saveSelectionSet() {
+        hideError();
+        vscode.postMessage({
+            command: 'saveSelectionSet',
+            payload: {
+                selectedIds: Array.from(state.selectedIds),
+                suggestedName: dom.userStoryRef.value.trim(),
+                projectRoot: state.projectRoot
+            },
+            requestId: 'save-set-' + Date.now()
+        });
+    }
+
+    function loadSelectionSet() {
+        const set = getChosenSet();
+        if (!set) return;
+
+        hideError();
+        vscode.postMessage({
+            command: 'loadSelectionSet',
+            payload: { name: set.name, location: set.location, projectRoot: state.projectRoot },
+            requestId: 'load-set-' + Date.now()
+        });
+    }
+
+    function deleteSelectionSet() {
+        const set = getChosenSet();
+        if (!set) return;
+
+        hideError();
+        vscode.postMessage({
+            command: 'deleteSelectionSet',
+            payload: { name: set.name, location: set.location, projectRoot: state.projectRoot },
+            requestId: 'delete-set-' + Date.now()
+        });
+    }
+
+    /**
+     * Lists the saved sets, keeping the chosen set picked (or picking the
+     * set that was just saved).
+     *
+     * @param {{ sets: object[], saved?: object }} payload
+     */
+    function handleSelectionSets(payload) {
+        const chosen = payload.saved || getChosenSet();
+        state.selectionSets = payload.sets;
+
+        dom.selectionSetSelector.innerHTML = '';
+        if (state.selectionSets.length === 0) {
+            const option = document.createElement('option');
+            option.value = '';
+            option.textContent = 'No saved selection sets';
+            dom.selectionSetSelector.appendChild(option);
+        }
+        state.selectionSets.forEach((set, index) => {
+            const option = document.createElement('option');
+            option.value = String(index);
+            option.textContent = `${set.name} (${set.components.length}, ${set.location})`;
+            option.selected = Boolean(chosen) && set.name === chosen.name && set.location === chosen.location;
+            dom.selectionSetSelector.appendChild(option);
+        });
+        dom.selectionSetSelector.disabled = state.selectionSets.length === 0;
+
+        if (payload.saved) {
+            showSuccess(`✓ Saved selection set "${payload.saved.name}" (${payload.saved.components.length} components)`);
+        }
+        updateUI();
+    }
+
+    /**
+     * Replaces the selection with the rows of a loaded set and lists the
+     * components of the set that the current fetch does not contain.
+     *
+     * @param {{ name: string, selectedIds: string[], missing: { type: string, componentName: string }[] }} payload
+     */
+    function handleSelectionSetLoaded(payload) {
+        replaceSelection(payload.selectedIds);
+        showSuccess(`✓ Loaded "${payload.name}": ${payload.selectedIds.length} components selected`);
+        showMissingComponents(`"${payload.name}"`, payload.missing);
+    }
 
+    // --- Suggested Additions ---
+
+    /**
+     * Lists the components the selection likely needs, each with an Add button.
+     *
+     * @param {{ items: { id: string, type: string, componentName: string, reason: string }[] }} payload
+     */
+    function handleSuggestions(payload) {
+        _suggestions = payload.items.filter(item => !state.selectedIds.has(item.id));
+        dom.suggestionsList.innerHTML = '';
+        dom.suggestionsPanel.classList.toggle('hidden', _suggestions.length === 0);
+
+        _suggestions.forEach(suggestion => {
+            const item = document.createElement('li');
+            item.className = 'suggestions-panel__item';
+
+            const add = document.createElement('button');
+            add.className = 'suggestion-add';
+            add.textContent = 'Add';
+            add.setAttribute('aria-label', `Add ${suggestion.type} ${suggestion.componentName}`);
+            add.addEventListener('click', () => addSuggestions([suggestion.id]));
+
+            const name = document.createElement('span');
+            name.textContent = `${suggestion.type}: ${suggestion.componentName}`;
+
+            const reason = document.createElement('span');
+            reason.className = 'suggestions-panel__reason';
+            reason.textContent = suggestion.reason;
+
+            item.append(add, name, reason);
+            dom.suggestionsList.appendChild(item);
+        });
+    }
+
+    /**
+     * Adds suggested components to the selection.
+     *
+     * @param {string[]} ids
+     */
+    function addSuggestions(ids) {
+        ids.forEach(id => state.selectedIds.add(id));
         updateFilteredData();
         renderGrid();
+        updateUI();
+        debouncedSaveState();
+    }
+
+    // --- Commit Authors ---
+
+    /**
+     * Shows who a commit of the selection would credit and lists the
+     * Salesforce users with no git author yet, each with a button to map them.
+     * Hidden when commits are attributed to the git user.
+     *
+     * @param {{ mode: string, author?: { name: string, email: string }, coAuthors: { name: string, email: string }[], unmapped: string[] }} payload
+     */
+    function handleAuthors(payload) {
+        dom.authorsPanel.classList.toggle('hidden', payload.mode === 'committer');
+        dom.unmappedAuthors.innerHTML = '';
+        if (payload.mode === 'committer') return;
+
+        const format = author => `${author.name} <${author.email}>`;
+        const parts = [];
+        if (payload.author) parts.push(`Author: ${format(payload.author)}`);
+        if (payload.coAuthors.length) parts.push(`Co-authored by: ${payload.coAuthors.map(format).join(', ')}`);
+        if (payload.unmapped.length) parts.push(`${payload.unmapped.length} users have no git author and will not be credited:`);
+        dom.authorsSummary.textContent = parts.join(' · ') || 'No Salesforce users to credit.';
+
+        payload.unmapped.forEach(username => {
+            const item = document.createElement('li');
+            item.className = 'suggestions-panel__item';
+
+            const map = document.createElement('button');
+            map.className = 'suggestion-add';
+            map.textContent = 'Map…';
+            map.setAttribute('aria-label', `Map ${username} to a git author`);
+            map.addEventListener('click', () => {
+                vscode.postMessage({
+                    command: 'mapAuthor',
+                    payload: { username, selectedIds: Array.from(state.selectedIds), projectRoot: state.projectRoot },
+                    requestId: 'map-author-' + Date.now()
+                });
+            });
+
+            const name = document.createElement('span');
+            name.textContent = username;
+
+            item.append(map, name);
+            dom.unmappedAuthors.appendChild(item);
+        });
+    }
+
+    // --- Manifests ---
+
+    function exportManifest() {
+        hideError();
+        vscode.postMessage({
+            command: 'exportManifest',
+            payload: { selectedIds: Array.from(state.selectedIds), projectRoot: state.projectRoot },
+            requestId: 'export-manifest-' + Date.now()
+        });
+    }
+
+    function importManifest() {
+        hideError();
+        vscode.postMessage({
+            command: 'importManifest',
+            payload: { projectRoot: state.projectRoot },
+            requestId: 'import-manifest-' + Date.now()
+        });
+    }
+
+    function handleManifestExported(payload) {
+        const deletedNote = payload.skippedDeleted ? ` (${payload.skippedDeleted} deleted components left out)` : '';
+        showSuccess(`✓ Exported ${payload.componentCount} components to ${payload.file}${deletedNote}`);
+    }
+
+    /**
+     * Replaces the selection with the rows an imported manifest lists and
+     * reports the members no row matched.
+     *
+     * @param {{ file: string, selectedIds: string[], missing: { type: string, componentName: string }[] }} payload
+     */
+    function handleManifestImported(payload) {
+        replaceSelection(payload.selectedIds);
+        showSuccess(`✓ Selected ${payload.selectedIds.length} components from ${payload.file}`);
+        showMissingComponents(payload.file, payload.missing);
+    }
+
+    /**
+     * Replaces the selection with the given rows.
+     *
+     * @param {string[]} selectedIds
+     */
+    function replaceSelection(selectedIds) {
+        state.selectedIds = new Set(selectedIds);
+        updateFilteredData();
+        renderGrid();
+        updateUI();
+        debouncedSaveState();
+    }
+
+    /**
+     * Lists the components of a set or manifest that the current fetch
+     * does not contain, or hides the list when there are none.
+     *
+     * @param {string} source - What the components came from, e.g. the manifest file name
+     * @param {{ type: string, componentName: string }[]} missing
+     */
+    function showMissingComponents(source, missing) {
+        showListNotice(
+            `${missing.length} components of ${source} are not in the current fetch:`,
+            missing.map(component => `${component.type}: ${component.componentName}`)
+        );
+    }
+
+    /**
+     * Reports what was done about uncommitted local changes to the files
+     * a commit retrieves into, listing the files.
+     *
+     * @param {{ decision: 'abort' | 'stash' | 'overwrite', paths: string[], stashMessage?: string }} payload
+     */
+    function handleLocalChanges(payload) {
+        const count = payload.paths.length;
+        const messages = {
+            abort: `Commit cancelled: ${count} files have uncommitted local changes:`,
+            stash: `Stashed local changes to ${count} files before retrieving. Run "git stash pop" to restore them:`,
+            overwrite: `Overwrote uncommitted local changes to ${count} files:`,
+        };
+        showListNotice(messages[payload.decision], payload.paths);
+    }
+
+    /**
+     * Shows a message with a list below it in the notice banner, or hides
+     * the banner when the list is empty.
+     *
+     * @param {string} message
+     * @param {string[]} lines
+     */
+    function showListNotice(message, lines) {
+        dom.missingList.innerHTML = '';
+        dom.missingBanner.classList.toggle('hidden', lines.length === 0);
+        if (lines.length === 0) return;
+
+        dom.missingMessage.textContent = message;
+        lines.forEach(line => {
+            const item = document.createElement('li');
+            item.textContent = line;
+            dom.missingList.appendChild(item);
+        });
+    }
+
+    // --- Commit History ---
+
+    function requestHistory() {
+        showLoading(true, 'Loading history...');
+        vscode.postMessage({
+            command: 'getCommitHistory',
+            payload: { projectRoot: state.projectRoot },
+            requestId: 'history-' + Date.now()
+        });
+    }
+
+    function handleCommitHistory(payload) {
+        showLoading(false);
+        state.history = payload.entries;
+        renderHistory();
+    }
+
+    function undoLastCommit() {
+        hideError();
+        showLoading(true, 'Undoing last commit...');
+        vscode.postMessage({
+            command: 'undoLastCommit',
+            payload: { projectRoot: state.projectRoot },
+            requestId: 'undo-' + Date.now()
+        });
+    }
+
+    function handleUndoResult(payload) {
+        showLoading(false);
+        if (!payload.success) {
+            return;
+        }
+
+        const removedNote = payload.filesRemoved ? `, removed ${payload.filesRemoved} added files` : '';
+        showSuccess(`✓ Undid commit ${payload.commit}: restored ${payload.filesRestored || 0} files${removedNote}`);
+        showListNotice(
+            'Local edits stashed before a retrieve are still in the stash. Run "git stash pop" to bring them back:',
+            payload.stashes || []
+        );
+        requestHistory();
+        requestRepoStatus();
+    }
+
+    /**
+     * Renders the Studio commits, filtered by component, story ref or message.
+     * Each component is a link that opens its file as of that commit.
+     */
+    function renderHistory() {
+        dom.historyList.innerHTML = '';
+        const filter = state.historyFilter;
+
+        const entries = state.history.filter(entry => !filter ||
+            entry.message.toLowerCase().includes(filter) ||
+            (entry.userStoryRef || '').toLowerCase().includes(filter) ||
+            entry.components.some(c => `${c.type}:${c.componentName}`.toLowerCase().includes(filter)));
+
+        if (entries.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'history-empty';
+            empty.textContent = state.history.length === 0
+                ? 'No commits made through SF Commit Studio were found on this branch.'
+                : 'No commits match the filter.';
+            dom.historyList.appendChild(empty);
+            return;
+        }
+
+        entries.forEach(entry => dom.historyList.appendChild(createHistoryEntry(entry)));
+    }
+
+    function createHistoryEntry(entry) {
+        const li = document.createElement('li');
+        li.className = 'history-entry';
+
+        const header = document.createElement('div');
+        header.className = 'history-entry__header';
+
+        const hash = document.createElement('code');
+        hash.className = 'history-entry__hash';
+        hash.textContent = entry.hash.slice(0, 7);
+        hash.title = entry.hash;
+        header.appendChild(hash);
+
+        if (entry.userStoryRef) {
+            const story = document.createElement('span');
+            story.className = 'history-entry__story';
+            story.textContent = entry.userStoryRef;
+            header.appendChild(story);
+        }
+
+        const message = document.createElement('span');
+        message.textContent = entry.message;
+        header.appendChild(message);
+        li.appendChild(header);
+
+        const meta = document.createElement('div');
+        meta.className = 'history-entry__meta';
+        meta.textContent = `${entry.author} · ${formatDate(entry.date)} · ${entry.branch || 'unknown branch'}`;
+        li.appendChild(meta);
+
+        const components = document.createElement('ul');
+        components.className = 'history-entry__components';
+        entry.components.forEach(component => {
+            const item = document.createElement('li');
+            const link = document.createElement('button');
+            link.className = 'history-component';
+            link.textContent = `${component.type}: ${component.componentName}`;
+
+            // Prefer the source file over its -meta.xml companion
+            const filePath = component.paths.find(p => !p.endsWith('-meta.xml')) || component.paths[0];
+            if (filePath) {
+                link.title = `Open ${filePath} at ${entry.hash.slice(0, 7)}`;
+                link.addEventListener('click', () => {
+                    vscode.postMessage({
+                        command: 'openFileAtRevision',
+                        payload: { hash: entry.hash, path: filePath, projectRoot: state.projectRoot },
+                        requestId: 'revision-' + Date.now()
+                    });
+                });
+            } else {
+                link.disabled = true;
+                link.title = 'No files were recorded for this component';
+            }
+
+            item.appendChild(link);
+            components.appendChild(item);
+        });
+        li.appendChild(components);
+
+        return li;
     }
 
     function updateFilteredData() {
@@ -398,12 +1656,24 @@
         if (state.filters.user) {
             data = data.filter(item => item.modifiedBy.toLowerCase().includes(state.filters.user));
         }
+        if (state.filters.createdBy) {
+            data = data.filter(item => (item.createdBy || '').toLowerCase().includes(state.filters.createdBy));
+        }
+        if (state.filters.isNew) {
+            data = data.filter(item => isNewComponent(item) === (state.filters.isNew === 'new'));
+        }
+        if (state.filters.repoStatus) {
+            data = data.filter(item => state.repoStatus[item.id] === state.filters.repoStatus);
+        }
 
         // 3. Sort
         const { column, direction } = state.sort;
+        const sortValue = item => column === 'repoStatus'
+            ? REPO_STATUS_LABELS[state.repoStatus[item.id]]
+            : item[column];
         data.sort((a, b) => {
-            let valA = a[column] || '';
-            let valB = b[column] || '';
+            let valA = sortValue(a) || '';
+            let valB = sortValue(b) || '';
 
             if (valA < valB) return direction === 'asc' ? -1 : 1;
             if (valA > valB) return direction === 'asc' ? 1 : -1;
@@ -432,6 +1702,7 @@
         tr.role = 'row';
         tr.dataset.id = item.id;
         if (isSelected) tr.classList.add('selected');
+        if (item.changeKind === 'Deleted') tr.classList.add('deleted');
 
         // Checkbox cell
         const tdCheckbox = document.createElement('td');
@@ -447,6 +1718,37 @@
         const tdName = document.createElement('td');
         tdName.textContent = item.componentName;
         tdName.title = item.componentName;
+        if (item.changeKind === 'Deleted') {
+            const badge = document.createElement('span');
+            badge.className = 'badge badge--deleted';
+            badge.textContent = 'Deleted';
+            tdName.appendChild(badge);
+            tdName.title = `${item.componentName} (deleted in org)`;
+        }
+        if (isNewComponent(item)) {
+            const badge = document.createElement('span');
+            badge.className = 'badge badge--new';
+            badge.textContent = 'New';
+            badge.title = 'Not committed yet: no source file of this component is in the repository';
+            tdName.appendChild(badge);
+        }
+        if (state.changedIds.includes(item.id)) {
+            tr.classList.add('changed');
+            const badge = document.createElement('span');
+            badge.className = 'badge badge--changed';
+            badge.textContent = 'Changed';
+            badge.title = 'Changed in the org since the previous refresh';
+            tdName.appendChild(badge);
+        }
+        const outcome = state.outcomes[item.id];
+        if (outcome) {
+            tr.classList.add(`outcome-${outcome.status}`);
+            const badge = document.createElement('span');
+            badge.className = `badge badge--${outcome.status}`;
+            badge.textContent = OUTCOME_LABELS[outcome.status] || outcome.status;
+            badge.title = outcome.error || '';
+            tdName.appendChild(badge);
+        }
         tr.appendChild(tdName);
 
         // Type cell
@@ -465,10 +1767,26 @@
         tdDate.title = item.date || '';
         tr.appendChild(tdDate);
 
-        // Modified By cell (Last column)
-        const tdLast = document.createElement('td');
-        tdLast.textContent = item.modifiedBy;
-        tr.appendChild(tdLast);
+        // Created By cell
+        const tdCreatedBy = document.createElement('td');
+        tdCreatedBy.textContent = item.createdBy || '';
+        tr.appendChild(tdCreatedBy);
+
+        // Created Date cell
+        const tdCreatedDate = document.createElement('td');
+        tdCreatedDate.textContent = formatDate(item.createdDate);
+        tdCreatedDate.title = item.createdDate || '';
+        tr.appendChild(tdCreatedDate);
+
+        // Repository status cell
+        const tdRepoStatus = document.createElement('td');
+        const repoStatus = state.repoStatus[item.id];
+        if (repoStatus) {
+            tdRepoStatus.className = `repo-status repo-status--${repoStatus}`;
+            tdRepoStatus.textContent = REPO_STATUS_LABELS[repoStatus];
+            tdRepoStatus.title = REPO_STATUS_TITLES[repoStatus];
+        }
+        tr.appendChild(tdRepoStatus);
 
         // Row click handler (toggle on click, but not on checkbox)
         tr.addEventListener('click', (e) => {
@@ -587,10 +1905,56 @@
         // Tab Counts
         dom.tabSelected.textContent = `Selected Metadata (${state.selectedIds.size})`;
 
-        // Commit Button
-        const hasMessage = dom.commitMessage.value.trim().length > 0;
+        // Story ref validation
+        const storyError = getStoryRefError();
+        dom.storyRefError.textContent = storyError;
+        dom.storyRefError.classList.toggle('hidden', !storyError);
+        dom.userStoryRef.classList.toggle('input--invalid', Boolean(storyError));
+
+        // Commit Button (an invalid story ref or rejected message cannot be committed)
+        const hasMessage = dom.commitMessage.value.trim().length > 0 && !_messageError && !storyError;
         const hasSelection = state.selectedIds.size > 0;
         dom.btnCommit.disabled = !(hasMessage && hasSelection);
+        dom.btnCommitPush.disabled = !(hasMessage && hasSelection);
+        dom.btnPreview.disabled = !hasSelection;
+        dom.btnPreviewCommit.disabled = !(hasMessage && hasSelection);
+
+        // Selection Sets
+        const hasChosenSet = Boolean(getChosenSet());
+        dom.btnSaveSet.disabled = !hasSelection;
+        dom.btnExportManifest.disabled = !hasSelection;
+        dom.btnLoadSet.disabled = !hasChosenSet;
+        dom.btnDeleteSet.disabled = !hasChosenSet;
+
+        scheduleMessagePreview();
+        scheduleSuggestions();
+    }
+
+    /**
+     * Shows the commit message the host rendered from the template, or why
+     * it would be rejected. A rejected message disables the commit buttons.
+     *
+     * @param {{ message: string, error?: string }} payload
+     */
+    function handleCommitMessagePreview(payload) {
+        _messageError = payload.error || '';
+        dom.messagePreview.innerHTML = '';
+        dom.messagePreview.classList.toggle('hidden', !payload.message && !_messageError);
+
+        if (payload.message) {
+            const text = document.createElement('pre');
+            text.className = 'message-preview__text';
+            text.textContent = payload.message;
+            dom.messagePreview.appendChild(text);
+        }
+        if (_messageError) {
+            const error = document.createElement('div');
+            error.className = 'message-preview__error';
+            error.textContent = _messageError;
+            dom.messagePreview.appendChild(error);
+        }
+
+        updateUI();
     }
 
     // --- Helpers ---
@@ -606,18 +1970,36 @@
         return el;
     }
 
-    function showLoading(isLoading, message) {
+    /**
+     * Shows or hides the loading overlay. Pass `cancellable` when starting an
+     * operation the host can cancel; progress updates leave the Cancel button as is.
+     */
+    function showLoading(isLoading, message, cancellable) {
         if (isLoading) {
             dom.loadingOverlay.classList.remove('hidden');
             if (message) {
                 const span = dom.loadingOverlay.querySelector('span');
                 if (span) span.textContent = message;
             }
+            if (cancellable !== undefined) {
+                dom.btnCancel.classList.toggle('hidden', !cancellable);
+                dom.btnCancel.disabled = false;
+            }
         } else {
             dom.loadingOverlay.classList.add('hidden');
+            dom.btnCancel.classList.add('hidden');
         }
     }
 
+    function cancelOperation() {
+        dom.btnCancel.disabled = true;
+        showLoading(true, 'Cancelling...');
+        vscode.postMessage({
+            command: 'cancelOperation',
+            requestId: 'cancel-' + Date.now()
+        });
+    }
+
     function hideError() {
         dom.errorBanner.classList.add('hidden');
     }
@@ -665,5 +2047,26 @@
         window._testHooks.renderGrid = renderGrid;
         window._testHooks.updateFilteredData = updateFilteredData;
         window._testHooks.updatePaginationUI = updatePaginationUI;
+        window._testHooks.handlePreviewResult = handlePreviewResult;
+        window._testHooks.handleCommitHistory = handleCommitHistory;
+        window._testHooks.handleUndoResult = handleUndoResult;
+        window._testHooks.switchTab = switchTab;
+        window._testHooks.handleMetadataChunk = handleMetadataChunk;
+        window._testHooks.handleMetadataComplete = handleMetadataComplete;
+        window._testHooks.handleMetadataMerged = handleMetadataMerged;
+        window._testHooks.handleOrgList = handleOrgList;
+        window._testHooks.handleProjectList = handleProjectList;
+        window._testHooks.handleConfig = handleConfig;
+        window._testHooks.handleCommitMessagePreview = handleCommitMessagePreview;
+        window._testHooks.handleBranchStory = handleBranchStory;
+        window._testHooks.handleSelectionSets = handleSelectionSets;
+        window._testHooks.handleSelectionSetLoaded = handleSelectionSetLoaded;
+        window._testHooks.handleManifestImported = handleManifestImported;
+        window._testHooks.handleLocalChanges = handleLocalChanges;
+        window._testHooks.handleAuthors = handleAuthors;
+        window._testHooks.handleRepoStatus = handleRepoStatus;
+        window._testHooks.handleSuggestions = handleSuggestions;
+        window._testHooks.handleCommitResult = handleCommitResult;
+        window._testHooks.showLoading = showLoading;
     }
 })();
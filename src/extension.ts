@@ -14,7 +14,7 @@ export function activate(context: vscode.ExtensionContext) {
 	 * Registers the primary command to open the SF Commit Studio webview.
 	 */
 	const disposable = vscode.commands.registerCommand('sfCommitStudio.open', () => {
-		CommitStudioPanel.createOrShow(context.extensionUri);
+		CommitStudioPanel.createOrShow(context.extensionUri, context);
 	});
 
 	context.subscriptions.push(disposable);
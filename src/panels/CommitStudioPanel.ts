@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
 import { ExtensionHostService } from '../services/ExtensionHostService.js';
+import { SettingsService } from '../services/SettingsService.js';
 import type { WebviewMessage } from '../types.js';
 
 /**
@@ -30,11 +31,12 @@ export class CommitStudioPanel {
      * 
      * @param panel - The underlying WebviewPanel
      * @param extensionUri - The URI of the extension directory
+     * @param context - The extension context, used for persistent storage
      */
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, context?: vscode.ExtensionContext) {
         this._panel = panel;
         this._extensionUri = extensionUri;
-        this._service = new ExtensionHostService();
+        this._service = new ExtensionHostService(context);
 
         // Set the webview's initial HTML content
         this._update();
@@ -42,6 +44,17 @@ export class CommitStudioPanel {
         // Listen for when the panel is disposed
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
+        // Push setting changes to the webview without reopening the panel
+        vscode.workspace.onDidChangeConfiguration(
+            (event) => {
+                if (event.affectsConfiguration(SettingsService.section)) {
+                    this._service.sendConfig(this._panel.webview);
+                }
+            },
+            null,
+            this._disposables
+        );
+
         // Handle messages from the webview — cast to typed message
         this._panel.webview.onDidReceiveMessage(
             (message: WebviewMessage) => {
@@ -57,8 +70,9 @@ export class CommitStudioPanel {
      * Singleton pattern ensures only one instance at a time.
      * 
      * @param extensionUri - The base URI for the extension
+     * @param context - The extension context; without it nothing is persisted
      */
-    public static createOrShow(extensionUri: vscode.Uri): void {
+    public static createOrShow(extensionUri: vscode.Uri, context?: vscode.ExtensionContext): void {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
@@ -77,7 +91,7 @@ export class CommitStudioPanel {
             CommitStudioPanel._getWebviewOptions(extensionUri),
         );
 
-        CommitStudioPanel.currentPanel = new CommitStudioPanel(panel, extensionUri);
+        CommitStudioPanel.currentPanel = new CommitStudioPanel(panel, extensionUri, context);
     }
 
     /**
@@ -86,6 +100,9 @@ export class CommitStudioPanel {
     public dispose(): void {
         CommitStudioPanel.currentPanel = undefined;
 
+        // Kill any running retrieve so no `sf` process outlives the panel
+        this._service.dispose();
+
         this._panel.dispose();
 
         while (this._disposables.length) {
@@ -162,23 +179,68 @@ export class CommitStudioPanel {
                                     <select id="org-selector" aria-label="Select Salesforce Org">
                                         <option value="" disabled selected>Loading orgs...</option>
                                     </select>
-                                    <button id="btn-refresh" class="btn-icon" title="Refresh Metadata" aria-label="Refresh">↻</button>
+                                    <button id="btn-refresh" class="btn-icon" title="Fetch changes since the last refresh (Shift+click to reload everything)" aria-label="Refresh">↻</button>
+                                </div>
+                            </div>
+                            <div class="header__field">
+                                <label for="project-selector">Project</label>
+                                <div class="header__org-controls">
+                                    <select id="project-selector" aria-label="Select Salesforce Project">
+                                        <option value="" disabled selected>Loading projects...</option>
+                                    </select>
+                                    <select id="package-dir-selector" title="Package directory new components are retrieved into" aria-label="Package Directory"></select>
                                 </div>
                             </div>
                             <div class="header__field header__field--grow">
                                 <label for="user-story-ref">User Story Ref</label>
-                                <input id="user-story-ref" type="text" placeholder="US-0000000" aria-label="User Story Reference">
+                                <input id="user-story-ref" type="text" placeholder="US-0000000" aria-label="User Story Reference" aria-describedby="story-ref-error">
+                                <div id="story-ref-error" class="field-error hidden" role="alert"></div>
                             </div>
                         </div>
                         <div class="header__row">
                             <div class="header__field header__field--grow">
                                 <label for="commit-message">Commit Message</label>
                                 <textarea id="commit-message" placeholder="Enter your commit message..." rows="3" aria-label="Commit Message"></textarea>
+                                <div id="message-preview" class="message-preview hidden" aria-live="polite" aria-label="Commit Message Preview"></div>
                             </div>
                             <div class="header__actions">
+                                <button id="btn-preview" class="secondary" disabled aria-label="Preview and Commit Changes">
+                                    Preview &amp; Commit
+                                </button>
                                 <button id="btn-commit" class="primary" disabled aria-label="Commit Changes">
                                     Commit Changes
                                 </button>
+                                <button id="btn-commit-push" class="secondary" disabled aria-label="Commit and Push Changes">
+                                    Commit &amp; Push
+                                </button>
+                            </div>
+                        </div>
+                        <div class="header__row header__options">
+                            <label class="header__option">
+                                <input type="checkbox" id="opt-feature-branch" aria-label="Commit to feature branch">
+                                Commit to feature branch
+                            </label>
+                            <input id="base-branch" type="text" placeholder="Base branch (default: current)" aria-label="Base Branch" disabled>
+                            <label class="header__option" title="Retrieve selected Profiles and Permission Sets with only the permissions of the other selected components">
+                                <input type="checkbox" id="opt-scope-permissions" aria-label="Scope Profiles and Permission Sets to the selection">
+                                Scope Profiles &amp; Permission Sets to selection
+                            </label>
+                            <select id="opt-split-by" aria-label="Split Commit" title="Make one commit per user or per metadata type">
+                                <option value="">Single commit</option>
+                                <option value="author">Split commit by user</option>
+                                <option value="type">Split commit by type</option>
+                            </select>
+                            <div class="selection-sets">
+                                <select id="selection-set-selector" aria-label="Selection Set">
+                                    <option value="">No saved selection sets</option>
+                                </select>
+                                <button id="btn-load-set" class="secondary" disabled title="Select the components of the chosen set">Load</button>
+                                <button id="btn-delete-set" class="secondary" disabled title="Delete the chosen set">Delete</button>
+                                <button id="btn-save-set" class="secondary" disabled title="Save the selected components as a named set">Save Selection…</button>
+                            </div>
+                            <div class="manifest-actions">
+                                <button id="btn-export-manifest" class="secondary" disabled title="Write a package.xml for the selected components">Export package.xml</button>
+                                <button id="btn-import-manifest" class="secondary" title="Select the components listed in a package.xml">Import Manifest…</button>
                             </div>
                         </div>
                     </header>
@@ -187,13 +249,42 @@ export class CommitStudioPanel {
                     <nav class="tab-bar" aria-label="View Tabs">
                         <button id="tab-all" class="tab active" aria-selected="true">All Metadata</button>
                         <button id="tab-selected" class="tab" aria-selected="false">Selected Metadata</button>
+                        <button id="tab-history" class="tab" aria-selected="false">History</button>
                     </nav>
 
+                    <!-- [B1] SUGGESTED ADDITIONS -->
+                    <section id="suggestions-panel" class="suggestions-panel hidden" aria-label="Suggested Additions">
+                        <div class="suggestions-panel__header">
+                            <span>Suggested additions</span>
+                            <button id="btn-add-all-suggestions" class="secondary">Add All</button>
+                        </div>
+                        <ul id="suggestions-list" class="suggestions-panel__list"></ul>
+                    </section>
+
+                    <!-- [B1b] COMMIT AUTHORS -->
+                    <section id="authors-panel" class="authors-panel hidden" aria-label="Commit Authors">
+                        <div id="authors-summary"></div>
+                        <ul id="unmapped-authors" class="suggestions-panel__list"></ul>
+                    </section>
+
+                    <!-- [B2] COMMIT PREVIEW -->
+                    <section id="preview-panel" class="preview-panel hidden" aria-label="Commit Preview">
+                        <div class="preview-panel__header">
+                            <span id="preview-summary"></span>
+                            <div class="preview-panel__actions">
+                                <button id="btn-preview-commit" class="primary">Commit</button>
+                                <button id="btn-preview-close" class="secondary">Close</button>
+                            </div>
+                        </div>
+                        <ul id="preview-files" class="preview-panel__files" aria-label="Previewed Files"></ul>
+                    </section>
+
                     <!-- [C] DATA GRID -->
                     <main class="grid-container">
                         <div id="loading-overlay" class="loading-overlay hidden">
                             <div class="spinner"></div>
                             <span>Loading metadata...</span>
+                            <button id="btn-cancel" class="secondary hidden">Cancel</button>
                         </div>
                         <div id="error-banner" class="error-banner hidden">
                             <span id="error-message">Error message</span>
@@ -202,6 +293,13 @@ export class CommitStudioPanel {
                         <div id="success-banner" class="success-banner hidden">
                             <span id="success-message"></span>
                         </div>
+                        <div id="missing-banner" class="missing-banner hidden" role="status">
+                            <div class="missing-banner__header">
+                                <span id="missing-message"></span>
+                                <button id="btn-missing-close" class="btn-icon" aria-label="Dismiss">✕</button>
+                            </div>
+                            <ul id="missing-list" class="missing-banner__list"></ul>
+                        </div>
                         <table class="grid" role="grid" aria-label="Metadata Changes">
                             <thead>
                                 <tr role="row">
@@ -225,8 +323,27 @@ export class CommitStudioPanel {
                                     <th class="grid__header grid__header--sortable" data-sort="date" tabindex="0">
                                         Last Modified Date <span class="sort-icon"></span>
                                     </th>
-                                    <th class="grid__header">
-                                        Created By
+                                    <th class="grid__header grid__header--sortable" data-sort="createdBy" tabindex="0" title="Who made the first change source tracking recorded">
+                                        Created By <span class="sort-icon"></span>
+                                        <input type="text" id="filter-created-by" class="grid__filter" placeholder="Filter..." onclick="event.stopPropagation()">
+                                    </th>
+                                    <th class="grid__header grid__header--sortable" data-sort="createdDate" tabindex="0" title="When source tracking first recorded the component">
+                                        Created Date <span class="sort-icon"></span>
+                                        <select id="filter-new" class="grid__filter" aria-label="New or edited" onclick="event.stopPropagation()">
+                                            <option value="">New &amp; Edited</option>
+                                            <option value="new">New</option>
+                                            <option value="edited">Edited</option>
+                                        </select>
+                                    </th>
+                                    <th class="grid__header grid__header--sortable" data-sort="repoStatus" tabindex="0">
+                                        Repo Status <span class="sort-icon"></span>
+                                        <select id="filter-repo-status" class="grid__filter" aria-label="Repository status" onclick="event.stopPropagation()">
+                                            <option value="">All</option>
+                                            <option value="notInRepo">Not in repo</option>
+                                            <option value="unchanged">Unchanged</option>
+                                            <option value="modified">Locally modified</option>
+                                            <option value="orgNewer">Newer in org</option>
+                                        </select>
                                     </th>
                                 </tr>
                             </thead>
@@ -234,11 +351,20 @@ export class CommitStudioPanel {
                                 <!-- Rows will be populated by JS -->
                             </tbody>
                         </table>
+                        <section id="history-view" class="history-view hidden" aria-label="Commit History">
+                            <div class="history-view__toolbar">
+                                <input type="text" id="history-filter" class="history-view__filter" placeholder="Filter by component, story or message..." aria-label="Filter History">
+                                <button id="btn-undo-commit" class="secondary" title="Undo the last commit if it was made here and has not been pushed">Undo Last Commit</button>
+                            </div>
+                            <ul id="history-list" class="history-view__list"></ul>
+                        </section>
                     </main>
 
                     <!-- [D] STATUS BAR -->
                     <footer class="status-bar">
                         <div id="item-count">Showing 0-0 of 0 items</div>
+                        <div id="load-status" class="load-status hidden" role="status"></div>
+                        <div id="last-refreshed" class="last-refreshed"></div>
                         <div class="pagination">
                             <select id="page-size" aria-label="Items per page">
                                 <option value="25">25</option>
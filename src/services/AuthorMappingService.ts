@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AuthorMode, CommitAttribution, GitAuthor, MetadataChange } from '../types.js';
+
+/**
+ * File mapping Salesforce users to git authors, relative to the project root.
+ */
+export const AUTHOR_MAPPING_PATH = path.join('.sfcommitstudio', 'authors.json');
+
+/**
+ * Trailer crediting an additional author, as recognised by GitHub and GitLab.
+ */
+const CO_AUTHOR_TRAILER = 'Co-authored-by';
+
+/**
+ * Maps the Salesforce users in `MetadataChange.modifiedBy` to git authors,
+ * so a commit can credit the admins who built the changes.
+ *
+ * The mapping lives in `.sfcommitstudio/authors.json`, keyed by the
+ * `modifiedBy` value, and can be committed with the project:
+ *
+ * ```json
+ * { "authors": { "jane@acme.com": { "name": "Jane Doe", "email": "jane@acme.dev" } } }
+ * ```
+ */
+export class AuthorMappingService {
+    private readonly _projectRoot: string;
+
+    /**
+     * Creates a new AuthorMappingService.
+     *
+     * @param projectRoot - Root of the Salesforce project the mapping belongs to
+     */
+    constructor(projectRoot: string) {
+        this._projectRoot = projectRoot;
+    }
+
+    /**
+     * Reads the mapping.
+     *
+     * @returns Authors keyed by Salesforce user; empty if the file does not exist
+     * @throws Error if the file is not valid JSON
+     */
+    public read(): Record<string, GitAuthor> {
+        const file = path.join(this._projectRoot, AUTHOR_MAPPING_PATH);
+        if (!fs.existsSync(file)) {
+            return {};
+        }
+
+        try {
+            const parsed = JSON.parse(fs.readFileSync(file, 'utf8')) as { authors?: Record<string, GitAuthor> };
+            return parsed.authors ?? {};
+        } catch (error: unknown) {
+            throw new Error(
+                `${AUTHOR_MAPPING_PATH} could not be read: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Maps a Salesforce user to a git author, replacing any existing entry.
+     *
+     * @param username - The `modifiedBy` value
+     * @param author - The git author to credit
+     * @returns The saved author
+     * @throws Error if the name or email is empty, or the file cannot be read
+     */
+    public set(username: string, author: GitAuthor): GitAuthor {
+        const saved = { name: author.name.trim(), email: author.email.trim() };
+        if (!username.trim() || !saved.name || !saved.email) {
+            throw new Error('An author mapping needs a Salesforce user, a name and an email.');
+        }
+
+        const authors = { ...this.read(), [username.trim()]: saved };
+        const sorted = Object.fromEntries(Object.entries(authors).sort(([a], [b]) => a.localeCompare(b)));
+        const file = path.join(this._projectRoot, AUTHOR_MAPPING_PATH);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify({ authors: sorted }, null, 2) + '\n');
+        return saved;
+    }
+
+    /**
+     * Works out who to credit for a selection.
+     *
+     * Users are ranked by the number of selected components they modified,
+     * so in `author` mode the main contributor becomes the commit author.
+     *
+     * @param items - The selected components
+     * @param mode - The `sfCommitStudio.commit.authorMode` setting
+     * @returns The author, co-authors and the users with no mapping
+     * @throws Error if the mapping file cannot be read
+     */
+    public attribute(items: MetadataChange[], mode: AuthorMode): CommitAttribution {
+        if (mode === 'committer') {
+            return { coAuthors: [], unmapped: [] };
+        }
+
+        const counts = new Map<string, number>();
+        for (const item of items) {
+            const user = item.modifiedBy?.trim();
+            if (user) {
+                counts.set(user, (counts.get(user) ?? 0) + 1);
+            }
+        }
+        const users = [...counts.entries()]
+            .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+            .map(([user]) => user);
+
+        const mapping = this.read();
+        const authors = new Map<string, GitAuthor>();
+        const unmapped: string[] = [];
+        for (const user of users) {
+            const author = mapping[user];
+            if (!author) {
+                unmapped.push(user);
+            } else if (!authors.has(author.email.toLowerCase())) {
+                // Several Org users (e.g. sandbox usernames) can map to the same person
+                authors.set(author.email.toLowerCase(), author);
+            }
+        }
+
+        const credited = [...authors.values()];
+        return mode === 'author'
+            ? { author: credited[0], coAuthors: credited.slice(1), unmapped }
+            : { coAuthors: credited, unmapped };
+    }
+
+    /**
+     * Formats co-authors as commit message trailers.
+     *
+     * @param coAuthors - The authors to credit
+     * @returns One `Co-authored-by: Name <email>` line per author, joined with newlines
+     */
+    public buildTrailers(coAuthors: GitAuthor[]): string {
+        return coAuthors.map(author => `${CO_AUTHOR_TRAILER}: ${this.format(author)}`).join('\n');
+    }
+
+    /**
+     * Formats an author the way git expects it in `--author` and trailers.
+     *
+     * @param author - The author
+     * @returns `Name <email>`
+     */
+    public format(author: GitAuthor): string {
+        return `${author.name} <${author.email}>`;
+    }
+}
@@ -0,0 +1,215 @@
+import type { GitCliService } from './GitCliService.js';
+import type { SourcePathService } from './SourcePathService.js';
+import type { CommitHistoryEntry, MetadataChange } from '../types.js';
+
+/**
+ * The outcome of `CommitHistoryService.undoLastCommit`.
+ */
+export interface UndoResult {
+    /** Hash of the commit that was undone. */
+    hash: string;
+    /** Files put back to their contents before the commit. */
+    restoredFiles: string[];
+    /** Files the commit had added, now removed from the working tree. */
+    removedFiles: string[];
+    /** Stash entries holding local edits the Studio stashed before a retrieve. */
+    stashes: string[];
+}
+
+/**
+ * A commit that `CommitHistoryService.undoLastCommit` can undo.
+ */
+export interface UndoableCommit {
+    /** Full commit hash. */
+    hash: string;
+    /** First line of the commit message. */
+    subject: string;
+    /** Files the commit changed that have been edited since; undoing discards those edits. */
+    modifiedFiles: string[];
+    /** Stash entries holding local edits the Studio stashed before a retrieve; undoing leaves them stashed. */
+    stashes: string[];
+}
+
+/**
+ * Git trailer keys written into every Studio commit message.
+ * `Studio-Component` is repeated once per committed component and marks
+ * a commit as made through the Studio.
+ */
+export const STUDIO_TRAILERS = {
+    branch: 'Studio-Branch',
+    component: 'Studio-Component',
+    story: 'Studio-Story',
+} as const;
+
+/**
+ * Start of the message of every stash made to keep local edits from
+ * being overwritten by a retrieve.
+ */
+export const STUDIO_STASH_MESSAGE = 'SF Commit Studio: local changes before retrieving';
+
+/**
+ * Writes and reads the commit trailers that record which metadata
+ * components went into each Studio commit, so the history can be
+ * rebuilt from `git log` alone.
+ */
+export class CommitHistoryService {
+    private readonly _gitCli: GitCliService;
+    private readonly _sourcePathService: SourcePathService;
+
+    /**
+     * Creates a new CommitHistoryService.
+     *
+     * @param gitCli - Git access for the project repository
+     * @param sourcePathService - Maps committed files back to their components
+     */
+    constructor(gitCli: GitCliService, sourcePathService: SourcePathService) {
+        this._gitCli = gitCli;
+        this._sourcePathService = sourcePathService;
+    }
+
+    /**
+     * Builds the trailer block appended to a Studio commit message.
+     *
+     * @param details - The branch, optional story ref and committed components
+     * @returns Trailer lines separated by newlines
+     */
+    public buildTrailers(details: {
+        branch: string;
+        userStoryRef?: string;
+        items: MetadataChange[];
+    }): string {
+        const lines: string[] = [];
+        if (details.userStoryRef?.trim()) {
+            lines.push(`${STUDIO_TRAILERS.story}: ${details.userStoryRef.trim()}`);
+        }
+        lines.push(`${STUDIO_TRAILERS.branch}: ${details.branch}`);
+
+        const components = new Set(details.items.map(item => `${item.type}:${item.componentName}`));
+        for (const component of components) {
+            lines.push(`${STUDIO_TRAILERS.component}: ${component}`);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Appends the Studio trailers to a commit message, separated by a blank line.
+     *
+     * @param message - The commit message
+     * @param trailers - Output of `buildTrailers`
+     * @returns The full commit message
+     */
+    public appendTrailers(message: string, trailers: string): string {
+        return `${message.trimEnd()}\n\n${trailers}`;
+    }
+
+    /**
+     * Returns HEAD if it can be undone safely: it must be a Studio commit,
+     * have a parent, and not be pushed to any remote-tracking branch or to
+     * the branch's upstream.
+     *
+     * @returns HEAD, with the local edits an undo would discard or leave stashed
+     * @throws Error explaining why HEAD cannot be undone, including when
+     *   the upstream cannot be checked
+     */
+    public async getUndoableCommit(): Promise<UndoableCommit> {
+        const [head, parent] = await this._gitCli.log({ maxCount: 2 });
+        if (!head) {
+            throw new Error('The repository has no commits to undo.');
+        }
+        if (!head.trailers[STUDIO_TRAILERS.component]) {
+            throw new Error(
+                `The last commit (${head.hash.slice(0, 7)} "${head.subject}") was not made with SF Commit Studio, so it cannot be undone here.`
+            );
+        }
+        if (!parent) {
+            throw new Error('The last commit is the first commit in the repository and cannot be undone.');
+        }
+        if (await this._gitCli.isPushed(head.hash)) {
+            throw new Error(
+                `The last commit (${head.hash.slice(0, 7)}) has already been pushed. Undoing it would rewrite shared history; revert it instead.`
+            );
+        }
+
+        const changes = await this._gitCli.getCommitChanges(head.hash);
+        return {
+            hash: head.hash,
+            subject: head.subject,
+            modifiedFiles: await this._gitCli.getModifiedFiles(changes.map(c => c.path)),
+            stashes: (await this._gitCli.listStashes()).filter(entry => entry.includes(STUDIO_STASH_MESSAGE)),
+        };
+    }
+
+    /**
+     * Undoes the last Studio commit: moves the branch back to its parent and
+     * puts every file the commit touched back to its previous contents.
+     * Files the commit added are deleted; other local changes are left alone.
+     * Edits made to the commit's files after the commit would be lost, so
+     * they block the undo unless `discardLocalChanges` is set.
+     * Edits the Studio stashed before the retrieve stay stashed.
+     *
+     * @param options - Set `discardLocalChanges` to undo even if the commit's files were edited since
+     * @returns The undone commit, the files that were restored or removed, and the Studio stashes
+     * @throws Error if HEAD cannot be undone (see `getUndoableCommit`) or its files were edited
+     */
+    public async undoLastCommit(options: { discardLocalChanges?: boolean } = {}): Promise<UndoResult> {
+        const { hash, modifiedFiles, stashes } = await this.getUndoableCommit();
+        if (modifiedFiles.length > 0 && !options.discardLocalChanges) {
+            throw new Error(
+                `${modifiedFiles.length} files changed by the last commit have been edited since: ${modifiedFiles.join(', ')}. ` +
+                'Commit or stash those edits before undoing.'
+            );
+        }
+        const changes = await this._gitCli.getCommitChanges(hash);
+
+        const removedFiles = changes.filter(c => c.status === 'A').map(c => c.path);
+        const restoredFiles = changes.filter(c => c.status !== 'A').map(c => c.path);
+
+        await this._gitCli.resetSoft(`${hash}^`);
+        await this._gitCli.restore(restoredFiles, 'HEAD');
+        await this._gitCli.remove(removedFiles, { force: true });
+
+        return { hash, restoredFiles, removedFiles, stashes };
+    }
+
+    /**
+     * Lists the most recent Studio commits reachable from HEAD, newest first.
+     *
+     * @param maxCount - Maximum number of commits to return
+     * @returns History entries with the components (and their files) of each commit
+     */
+    public async getHistory(maxCount: number): Promise<CommitHistoryEntry[]> {
+        const commits = await this._gitCli.log({
+            maxCount,
+            grep: `^${STUDIO_TRAILERS.component}: `,
+        });
+
+        return commits.map(commit => {
+            const filesByKey = new Map<string, string[]>();
+            for (const file of commit.files) {
+                const key = this._sourcePathService.keyForPath(file);
+                if (key) {
+                    filesByKey.set(key, [...(filesByKey.get(key) ?? []), file]);
+                }
+            }
+
+            const components = (commit.trailers[STUDIO_TRAILERS.component] ?? []).map(key => {
+                const separator = key.indexOf(':');
+                return {
+                    type: key.slice(0, separator),
+                    componentName: key.slice(separator + 1),
+                    paths: filesByKey.get(key) ?? [],
+                };
+            });
+
+            return {
+                hash: commit.hash,
+                branch: commit.trailers[STUDIO_TRAILERS.branch]?.[0] ?? '',
+                userStoryRef: commit.trailers[STUDIO_TRAILERS.story]?.[0],
+                message: commit.subject,
+                author: commit.author,
+                date: commit.date,
+                components,
+            };
+        });
+    }
+}
@@ -0,0 +1,155 @@
+import type { MetadataChange } from '../types.js';
+
+/**
+ * Commit types accepted by the Conventional Commits check.
+ */
+export const CONVENTIONAL_TYPES = [
+    'build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test',
+] as const;
+
+/**
+ * `type(scope)!: description` — the scope and `!` are optional.
+ */
+const CONVENTIONAL_SUBJECT = new RegExp(`^(${CONVENTIONAL_TYPES.join('|')})(\\([^()\\s][^()]*\\))?!?: \\S`);
+
+/**
+ * How commit messages are built, from the `commit.*` settings.
+ */
+export interface CommitMessageOptions {
+    /** The `commit.messageTemplate` setting; empty keeps the story prefix format. */
+    template: string;
+    /** The `commit.storyPrefixFormat` setting, used when `template` is empty. */
+    storyPrefixFormat: string;
+    /** Append a list of the committed components to the message body. */
+    listComponents: boolean;
+    /** Reject messages whose first line does not follow Conventional Commits. */
+    conventionalCommits: boolean;
+}
+
+/**
+ * The values a template's tokens are replaced with.
+ */
+export interface CommitMessageContext {
+    /** The message typed by the user. */
+    message: string;
+    /** The User Story Ref, if any. */
+    userStoryRef?: string;
+    /** Alias or username of the source Org. */
+    org?: string;
+    /** Name of the committing Git user. */
+    user?: string;
+    /** The committed components. */
+    items: MetadataChange[];
+}
+
+/**
+ * Builds commit messages from a template with `{story}`, `{message}`,
+ * `{types}`, `{count}`, `{org}`, `{user}` and `{components}` tokens,
+ * e.g. `feat({story}): {message}`.
+ *
+ * Tokens without a value are dropped together with the `()` or `[]` around
+ * them, so `feat({story}): {message}` without a story becomes `feat: message`.
+ */
+export class CommitMessageTemplate {
+    private readonly _options: CommitMessageOptions;
+
+    /**
+     * Creates a new CommitMessageTemplate.
+     *
+     * @param options - The template and formatting options
+     */
+    constructor(options: CommitMessageOptions) {
+        this._options = options;
+    }
+
+    /**
+     * Renders the commit message, without the Studio trailers.
+     *
+     * @param context - The values for the template tokens
+     * @returns The message: subject line, then the user's extra lines and the component list, if any
+     */
+    public render(context: CommitMessageContext): string {
+        const [firstLine, ...extraLines] = context.message.trim().split('\n');
+        const story = context.userStoryRef?.trim() ?? '';
+
+        let subject: string;
+        if (this._options.template.trim()) {
+            const components = this._componentKeys(context.items);
+            const tokens: Record<string, string> = {
+                components: components.join(', '),
+                count: String(components.length),
+                message: firstLine.trim(),
+                org: context.org ?? '',
+                story,
+                types: [...new Set(context.items.map(item => item.type))].sort().join(', '),
+                user: context.user ?? '',
+            };
+            subject = this._dropEmptyTokens(this._options.template, tokens)
+                .replace(/\{(\w+)\}/g, (token, name: string) => tokens[name] ?? token);
+        } else if (story) {
+            subject = `${this._options.storyPrefixFormat.split('{story}').join(story)} ${firstLine.trim()}`;
+        } else {
+            subject = firstLine.trim();
+        }
+
+        const body = extraLines.join('\n').trim();
+        const sections = [subject, body];
+        if (this._options.listComponents && context.items.length > 0) {
+            sections.push(['Components:', ...this._componentKeys(context.items).map(key => `- ${key}`)].join('\n'));
+        }
+        return sections.filter(section => section.length > 0).join('\n\n');
+    }
+
+    /**
+     * Checks a rendered message against the Conventional Commits preset.
+     *
+     * @param message - Output of `render`
+     * @returns A description of the problem, or `undefined` if the message is acceptable
+     */
+    public validate(message: string): string | undefined {
+        const subject = message.split('\n')[0];
+        if (!subject.trim()) {
+            return 'The commit message is empty.';
+        }
+        if (this._options.conventionalCommits && !CONVENTIONAL_SUBJECT.test(subject)) {
+            return (
+                `"${subject}" does not follow Conventional Commits. Start the message with a type ` +
+                `(${CONVENTIONAL_TYPES.join(', ')}), an optional scope and a colon, e.g. "feat(US-123): add validation".`
+            );
+        }
+        return undefined;
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Returns the distinct `Type:Name` keys of the components, sorted.
+     *
+     * @param items - The committed components
+     * @returns The component keys
+     * @private
+     */
+    private _componentKeys(items: MetadataChange[]): string[] {
+        return [...new Set(items.map(item => `${item.type}:${item.componentName}`))].sort();
+    }
+
+    /**
+     * Removes tokens without a value from the template, together with the
+     * `()` or `[]` around them, and collapses the spaces left behind. Only
+     * the template is touched, never the values inserted afterwards.
+     *
+     * @param template - The message template
+     * @param tokens - Token values by name
+     * @returns The template without empty tokens
+     * @private
+     */
+    private _dropEmptyTokens(template: string, tokens: Record<string, string>): string {
+        let result = template;
+        for (const [name, value] of Object.entries(tokens)) {
+            if (!value) {
+                result = result.split(`({${name}})`).join('').split(`[{${name}}]`).join('').split(`{${name}}`).join('');
+            }
+        }
+        return result.replace(/[ \t]{2,}/g, ' ').trim();
+    }
+}
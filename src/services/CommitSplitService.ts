@@ -0,0 +1,90 @@
+import type { SourcePathService } from './SourcePathService.js';
+import type { CommitSplit, MetadataChange } from '../types.js';
+
+/**
+ * The components and files of one commit in a split commit.
+ */
+export interface CommitGroup {
+    /** What the group has in common, e.g. `jane@acme.com` or `ApexClass`; empty when not splitting. */
+    label: string;
+    /** The components in the group. */
+    items: MetadataChange[];
+    /** Staged paths to commit, relative to the project root. */
+    paths: string[];
+}
+
+/**
+ * Divides a selection into several commits, one per Salesforce user who
+ * modified the components (`author`) or one per metadata type (`type`),
+ * so a sandbox sweep shows who changed what.
+ *
+ * Staged files are assigned to the group of the component they belong to.
+ * Files that belong to no selected component, such as
+ * `manifest/destructiveChanges.xml`, go to the last group so that nothing
+ * the Studio staged is left behind.
+ */
+export class CommitSplitService {
+    private readonly _sourcePathService: SourcePathService;
+
+    /**
+     * Creates a new CommitSplitService.
+     *
+     * @param sourcePathService - Identifies the component each file belongs to
+     */
+    constructor(sourcePathService: SourcePathService) {
+        this._sourcePathService = sourcePathService;
+    }
+
+    /**
+     * Groups the components to commit and the files to commit with them.
+     *
+     * @param items - The components to commit
+     * @param splitBy - How to split; `undefined` makes a single group
+     * @param paths - Staged paths relative to the project root
+     * @returns Groups sorted by label; groups with no files to commit are left out
+     */
+    public split(items: MetadataChange[], splitBy: CommitSplit | undefined, paths: string[]): CommitGroup[] {
+        const groups = this.group(items, splitBy);
+        if (groups.length === 0) {
+            return [];
+        }
+
+        const groupByKey = new Map<string, CommitGroup>();
+        for (const group of groups) {
+            for (const item of group.items) {
+                groupByKey.set(`${item.type}:${item.componentName}`, group);
+            }
+        }
+
+        const last = groups[groups.length - 1];
+        for (const file of paths) {
+            const key = this._sourcePathService.keyForPath(file);
+            const group = (key ? groupByKey.get(key) : undefined) ?? last;
+            group.paths.push(file);
+        }
+        return groups.filter(group => group.paths.length > 0);
+    }
+
+    /**
+     * Groups components without assigning files, e.g. to validate each
+     * group's commit message before anything is retrieved.
+     *
+     * @param items - The components to commit
+     * @param splitBy - How to split; `undefined` makes a single group
+     * @returns Groups sorted by label, each with no paths yet
+     */
+    public group(items: MetadataChange[], splitBy: CommitSplit | undefined): CommitGroup[] {
+        if (!splitBy) {
+            return items.length > 0 ? [{ label: '', items, paths: [] }] : [];
+        }
+
+        const groups = new Map<string, CommitGroup>();
+        for (const item of items) {
+            const label = splitBy === 'author' ? item.modifiedBy?.trim() || 'Unknown user' : item.type;
+            const group = groups.get(label) ?? { label, items: [], paths: [] };
+            group.items.push(item);
+            groups.set(label, group);
+        }
+        return [...groups.values()].sort((a, b) => a.label.localeCompare(b.label));
+    }
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PreviewFile } from './PreviewService.js';
+
+/**
+ * File suffixes of non-decomposed container types: one file holds many
+ * components (e.g. every CustomLabel in `CustomLabels.labels-meta.xml`),
+ * but a retrieve only returns the components that were asked for.
+ */
+const CONTAINER_SUFFIXES = [
+    '.assignmentRules-meta.xml',
+    '.autoResponseRules-meta.xml',
+    '.escalationRules-meta.xml',
+    '.labels-meta.xml',
+    '.matchingRule-meta.xml',
+    '.sharingRules-meta.xml',
+    '.workflow-meta.xml',
+];
+
+/**
+ * A top-level child element of a container file.
+ */
+interface ContainerElement {
+    /** The element name, e.g. `labels`. */
+    tag: string;
+    /** The element's `fullName`; empty for elements that are not components. */
+    key: string;
+    /** The element exactly as written in the file. */
+    xml: string;
+}
+
+/**
+ * Merges retrieved container files into the project's copies, so that
+ * retrieving one CustomLabel (or WorkflowRule, SharingRule, ...) into a
+ * scratch folder updates that component instead of replacing the file
+ * and deleting all the others.
+ *
+ * Retrieved components replace the project's component with the same
+ * element name and `fullName`; new ones are inserted in sorted order.
+ * `sf` merges these files itself when it retrieves into the project, so
+ * this is only needed for files copied from a scratch folder.
+ */
+export class ContainerMergeService {
+    private readonly _projectRoot: string;
+
+    /**
+     * Creates a new ContainerMergeService.
+     *
+     * @param projectRoot - Absolute path to the folder containing `sfdx-project.json`
+     */
+    constructor(projectRoot: string) {
+        this._projectRoot = projectRoot;
+    }
+
+    /**
+     * Rewrites the retrieved container files in a scratch directory to the
+     * project's copy plus the retrieved components, so that applying them
+     * keeps every other component. Files with no project copy are kept as
+     * retrieved.
+     *
+     * @param files - Compared files
+     * @returns The files, with the status of rewritten files recomputed
+     */
+    public mergeFiles(files: PreviewFile[]): PreviewFile[] {
+        return files.map(file => {
+            const workspacePath = path.join(this._projectRoot, file.path);
+            if (!CONTAINER_SUFFIXES.some(suffix => file.path.endsWith(suffix)) || !fs.existsSync(workspacePath)) {
+                return file;
+            }
+
+            const local = fs.readFileSync(workspacePath, 'utf8');
+            const merged = this.merge(local, fs.readFileSync(file.scratchPath, 'utf8'));
+            fs.writeFileSync(file.scratchPath, merged);
+            return { ...file, status: merged === local ? 'unchanged' : 'modified' };
+        });
+    }
+
+    /**
+     * Merges the components of a retrieved container file into the
+     * project's copy.
+     *
+     * @param localXml - The project's copy
+     * @param retrievedXml - The copy retrieved from the Org
+     * @returns The project's copy with the retrieved components merged in
+     */
+    public merge(localXml: string, retrievedXml: string): string {
+        const local = this._parse(localXml);
+        if (!local) {
+            return retrievedXml;
+        }
+
+        for (const element of this._parse(retrievedXml)?.elements ?? []) {
+            if (!element.key) {
+                continue;
+            }
+
+            const existing = local.elements.findIndex(e => e.tag === element.tag && e.key === element.key);
+            if (existing >= 0) {
+                local.elements[existing] = element;
+                continue;
+            }
+
+            const next = local.elements.findIndex(e =>
+                e.tag > element.tag || (e.tag === element.tag && e.key.localeCompare(element.key) > 0)
+            );
+            local.elements.splice(next >= 0 ? next : local.elements.length, 0, element);
+        }
+
+        return [local.head, ...local.elements.map(e => `    ${e.xml}`), local.tail].join('\n');
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Splits a container file into its top-level elements.
+     *
+     * @param xml - The file contents
+     * @returns The text before and after the elements, and the elements;
+     *   `undefined` if the root element cannot be found
+     * @private
+     */
+    private _parse(xml: string): { head: string; elements: ContainerElement[]; tail: string } | undefined {
+        const root = /<(\w+)\b[^>]*>/.exec(xml);
+        const close = root ? xml.lastIndexOf(`</${root[1]}>`) : -1;
+        if (!root || close < 0) {
+            return undefined;
+        }
+
+        const bodyStart = root.index + root[0].length;
+        const body = xml.slice(bodyStart, close);
+        const elements: ContainerElement[] = [];
+        for (const match of body.matchAll(/<(\w+)>[\s\S]*?<\/\1>/g)) {
+            const key = /<fullName>([\s\S]*?)<\/fullName>/.exec(match[0])?.[1].trim() ?? '';
+            elements.push({ tag: match[1], key, xml: match[0] });
+        }
+
+        return { head: xml.slice(0, bodyStart), elements, tail: xml.slice(close) };
+    }
+}
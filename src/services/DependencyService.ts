@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourcePathService } from './SourcePathService.js';
+import type { DependencySuggestion, MetadataChange } from '../types.js';
+
+/**
+ * Metadata types named `<Object>.<Child>` that cannot be deployed without their object.
+ */
+const OBJECT_CHILD_TYPES = new Set([
+    'BusinessProcess',
+    'CompactLayout',
+    'CustomField',
+    'FieldSet',
+    'ListView',
+    'RecordType',
+    'ValidationRule',
+    'WebLink',
+]);
+
+/**
+ * Component bundle types a FlexiPage can place on the page.
+ */
+const BUNDLE_TYPES = ['LightningComponentBundle', 'AuraDefinitionBundle'];
+
+/**
+ * A custom (`c` namespace) component placed on a FlexiPage.
+ */
+const FLEXIPAGE_COMPONENT = /<componentName>\s*c(?::|__)(\w+)\s*<\/componentName>/g;
+
+/**
+ * Finds components that a selection most likely needs to deploy, among
+ * the changes fetched from the Org:
+ * - the parent `CustomObject` of fields, record types, validation rules
+ *   and other object children
+ * - Apex test classes named after selected classes (`FooTest`, `Foo_Test`, `TestFoo`, ...)
+ * - Lightning component bundles placed on selected FlexiPages, read from
+ *   the project's copy of the page
+ */
+export class DependencyService {
+    private readonly _sourcePathService: SourcePathService;
+    private readonly _projectRoot: string;
+
+    /**
+     * Creates a new DependencyService.
+     *
+     * @param projectRoot - Root of the Salesforce project FlexiPages are read from
+     */
+    constructor(projectRoot: string) {
+        this._projectRoot = projectRoot;
+        this._sourcePathService = new SourcePathService(projectRoot);
+    }
+
+    /**
+     * Suggests fetched components to add to a selection.
+     *
+     * @param selected - The selected components
+     * @param items - Every change currently fetched from the Org
+     * @returns One suggestion per unselected component, in the order the selection needs them
+     */
+    public suggest(selected: MetadataChange[], items: MetadataChange[]): DependencySuggestion[] {
+        const selectedIds = new Set(selected.map(item => item.id));
+        const byKey = new Map<string, MetadataChange>();
+        for (const item of items) {
+            if (item.changeKind !== 'Deleted') {
+                byKey.set(`${item.type}:${item.componentName.toLowerCase()}`, item);
+            }
+        }
+
+        const suggestions = new Map<string, DependencySuggestion>();
+        const add = (type: string, componentName: string, reason: string): void => {
+            const item = byKey.get(`${type}:${componentName.toLowerCase()}`);
+            if (item && !selectedIds.has(item.id) && !suggestions.has(item.id)) {
+                suggestions.set(item.id, { id: item.id, type: item.type, componentName: item.componentName, reason });
+            }
+        };
+
+        for (const item of selected) {
+            if (item.changeKind === 'Deleted') {
+                continue;
+            }
+
+            if (OBJECT_CHILD_TYPES.has(item.type) && item.componentName.includes('.')) {
+                const objectName = item.componentName.split('.')[0];
+                add('CustomObject', objectName, `Parent object of ${item.type} ${item.componentName}`);
+            } else if (item.type === 'ApexClass') {
+                for (const testName of this._testClassNames(item.componentName)) {
+                    add('ApexClass', testName, `Test class for ${item.componentName}`);
+                }
+            } else if (item.type === 'FlexiPage') {
+                for (const bundle of this._flexiPageComponents(item.componentName)) {
+                    for (const type of BUNDLE_TYPES) {
+                        add(type, bundle, `Used by FlexiPage ${item.componentName}`);
+                    }
+                }
+            }
+        }
+
+        return [...suggestions.values()];
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Returns the usual names of the test class of an Apex class.
+     *
+     * @param className - The Apex class name
+     * @returns Candidate test class names
+     * @private
+     */
+    private _testClassNames(className: string): string[] {
+        return [
+            `${className}Test`,
+            `${className}_Test`,
+            `${className}Tests`,
+            `${className}_Tests`,
+            `Test${className}`,
+            `Test_${className}`,
+        ];
+    }
+
+    /**
+     * Lists the custom components placed on a FlexiPage, as saved in the project.
+     *
+     * @param pageName - The FlexiPage name
+     * @returns Bundle names; empty if the page is not in the project or cannot be read
+     * @private
+     */
+    private _flexiPageComponents(pageName: string): string[] {
+        const names = new Set<string>();
+        for (const file of this._sourcePathService.findSourceFiles('FlexiPage', pageName)) {
+            try {
+                const xml = fs.readFileSync(path.join(this._projectRoot, file), 'utf8');
+                for (const match of xml.matchAll(FLEXIPAGE_COMPONENT)) {
+                    names.add(match[1]);
+                }
+            } catch {
+                // A page that cannot be read has no suggestions
+            }
+        }
+        return [...names];
+    }
+}
@@ -1,23 +1,74 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 // Deep imports for registry package
 import { OrgService } from '@evan-hyer/track-changes/dist/services/org-service.js';
-import { QueryService } from '@evan-hyer/track-changes/dist/services/query-service.js';
 import { RetrieveService } from '@evan-hyer/track-changes/dist/services/retrieve-service.js';
 import { GitService } from '@evan-hyer/track-changes/dist/services/git-service.js';
+import { AuthorMappingService } from './AuthorMappingService.js';
+import { CommitHistoryService, STUDIO_STASH_MESSAGE } from './CommitHistoryService.js';
+import { CommitMessageTemplate } from './CommitMessageTemplate.js';
+import { CommitSplitService } from './CommitSplitService.js';
+import { DependencyService } from './DependencyService.js';
+import { GitCliService } from './GitCliService.js';
+import { ManifestService } from './ManifestService.js';
+import { PermissionMergeService, PERMISSION_CONTAINER_TYPES } from './PermissionMergeService.js';
+import { MetadataCache } from './MetadataCache.js';
+import { MetadataCacheStore } from './MetadataCacheStore.js';
+import { PreviewService } from './PreviewService.js';
+import { ProjectService } from './ProjectService.js';
+import { RepoStatusService } from './RepoStatusService.js';
+import { RetrieveOutcomeService } from './RetrieveOutcomeService.js';
+import { SelectionSetService, SHARED_SELECTION_SETS_PATH } from './SelectionSetService.js';
+import { SettingsService } from './SettingsService.js';
+import { SfCliService } from './SfCliService.js';
+import { SourceMemberService } from './SourceMemberService.js';
+import { SourcePathService } from './SourcePathService.js';
+import { UserStoryService } from './UserStoryService.js';
 
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 
+import type { CommitGroup } from './CommitSplitService.js';
 import type {
     WebviewMessage,
     MetadataChange,
     OrgInfo,
+    ProjectInfo,
+    CommitRequest,
+    ComponentRef,
+    LocalChangesDecision,
+    SelectionSetLocation,
+    SplitCommit,
+    ComponentOutcome,
+    RetrieveResult,
+    StudioSettings,
 } from '../types.js';
 
 const execFileAsync = promisify(execFile);
 
+/**
+ * Location of the destructive changes manifest, relative to the project root.
+ */
+const DESTRUCTIVE_CHANGES_PATH = path.join('manifest', 'destructiveChanges.xml');
+
+/**
+ * Folder for generated pull request descriptions, relative to the project root.
+ */
+const PULL_REQUEST_DIR = path.join('.sfcommitstudio', 'pull-requests');
+
+/**
+ * Number of Studio commits listed in the History tab when no limit is given.
+ */
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Number of files listed in a confirmation dialog before the rest are counted.
+ */
+const MAX_LISTED_FILES = 20;
+
+
 /**
  * Orchestrates communication between the Webview panel and the
  * `@evan-hyer/track-changes` backend services.
@@ -27,13 +78,35 @@ const execFileAsync = promisify(execFile);
  */
 export class ExtensionHostService {
     private _orgService: OrgService;
-    private _cachedMetadata: MetadataChange[] = [];
+    private _settingsService: SettingsService;
+    private _cache = new MetadataCache();
+    private _cacheStore: MetadataCacheStore | undefined;
+    private _workspaceState: vscode.Memento | undefined;
+    private _preview: { projectRoot: string; scratchDir: string; files: Map<string, string> } | undefined;
+    private _operation: AbortController | undefined;
 
     /**
      * Creates a new instance of the ExtensionHostService.
+     *
+     * @param context - The extension context; fetched metadata is saved to its
+     *   global storage so it survives closing the panel and restarting VS Code,
+     *   and selection sets to its workspace state
      */
-    constructor() {
+    constructor(context?: vscode.ExtensionContext) {
         this._orgService = new OrgService();
+        this._settingsService = new SettingsService();
+        this._cacheStore = context ? new MetadataCacheStore(context.globalStorageUri.fsPath) : undefined;
+        this._workspaceState = context?.workspaceState;
+    }
+
+    /**
+     * Cancels any running retrieve or commit and removes preview scratch files.
+     * Called when the panel is closed.
+     */
+    public dispose(): void {
+        this._operation?.abort();
+        this._operation = undefined;
+        this._disposePreview();
     }
 
     // ─── Message Router ────────────────────────────────────────────
@@ -54,45 +127,198 @@ export class ExtensionHostService {
             case 'getOrgList':
                 await this._handleGetOrgList(message.requestId, webview);
                 break;
+            case 'getConfig':
+                this.sendConfig(webview, message.requestId);
+                break;
+            case 'previewCommitMessage':
+                await this._handlePreviewCommitMessage(message.payload, message.requestId, webview);
+                break;
+            case 'getBranchStory':
+                await this._handleGetBranchStory(message.payload ?? {}, message.requestId, webview);
+                break;
+            case 'getProjectList':
+                this._handleGetProjectList(message.requestId, webview);
+                break;
+            case 'getSelectionSets':
+                this._handleGetSelectionSets(message.payload ?? {}, message.requestId, webview);
+                break;
+            case 'saveSelectionSet':
+                await this._handleSaveSelectionSet(message.payload, message.requestId, webview);
+                break;
+            case 'loadSelectionSet':
+                this._handleLoadSelectionSet(message.payload, message.requestId, webview);
+                break;
+            case 'deleteSelectionSet':
+                await this._handleDeleteSelectionSet(message.payload, message.requestId, webview);
+                break;
+            case 'getSuggestions':
+                this._handleGetSuggestions(message.payload, message.requestId, webview);
+                break;
+            case 'getAuthors':
+                this._handleGetAuthors(message.payload, message.requestId, webview);
+                break;
+            case 'mapAuthor':
+                await this._handleMapAuthor(message.payload, message.requestId, webview);
+                break;
+            case 'getRepoStatus':
+                await this._handleGetRepoStatus(message.payload, message.requestId, webview);
+                break;
+            case 'exportManifest':
+                await this._handleExportManifest(message.payload, message.requestId, webview);
+                break;
+            case 'importManifest':
+                await this._handleImportManifest(message.payload ?? {}, message.requestId, webview);
+                break;
             case 'commitChanges':
                 await this._handleCommitChanges(message.payload, message.requestId, webview);
                 break;
             case 'confirmLargeCommit':
                 await this._handleConfirmLargeCommit(message.payload, message.requestId, webview);
                 break;
+            case 'previewChanges':
+                await this._handlePreviewChanges(message.payload, message.requestId, webview);
+                break;
+            case 'openPreviewDiff':
+                await this._handleOpenPreviewDiff(message.payload, message.requestId, webview);
+                break;
+            case 'getCommitHistory':
+                await this._handleGetCommitHistory(message.payload, message.requestId, webview);
+                break;
+            case 'openFileAtRevision':
+                await this._handleOpenFileAtRevision(message.payload, message.requestId, webview);
+                break;
+            case 'undoLastCommit':
+                await this._handleUndoLastCommit(message.payload ?? {}, message.requestId, webview);
+                break;
+            case 'cancelOperation':
+                this._handleCancelOperation();
+                break;
         }
     }
 
+    // ─── Configuration ─────────────────────────────────────────────
+
+    /**
+     * Sends the settings that drive the Webview. Called when the Webview asks
+     * for them and again by the panel whenever the configuration changes.
+     *
+     * @param webview - The Webview instance
+     * @param requestId - The unique ID for the request, if the Webview asked
+     */
+    public sendConfig(webview: vscode.Webview, requestId?: string): void {
+        const settings = this._settingsService.read();
+        webview.postMessage({
+            command: 'config',
+            payload: {
+                autoFetchOnOpen: settings.autoFetchOnOpen,
+                defaultOrg: settings.defaultOrg,
+                largeCommitThreshold: settings.largeCommitThreshold,
+                pageSize: settings.pageSize,
+                storyPattern: settings.storyPattern,
+                storyRequired: settings.storyRequired,
+            },
+            requestId,
+        });
+    }
+
     // ─── Fetch Metadata ────────────────────────────────────────────
 
     /**
-     * Fetches metadata changes from a Salesforce Org and sends them to the Webview.
+     * Fetches metadata changes from a Salesforce Org and streams them to the
+     * Webview as `metadataChunk` messages, one per query page, followed by a
+     * `metadataComplete` that reports whether the `fetch.limit` setting was hit.
+     * Components deleted in the Org have `changeKind: 'Deleted'`.
+     *
+     * With `incremental` set and a completed fetch of the same Org cached, only
+     * changes since the newest cached date are queried; they are merged into the
+     * cache by id and the ones that differ are sent as a single `metadataMerged`.
+     *
+     * A fetch saved in global storage is sent first when the Org is not cached
+     * in memory yet. With `onlyIfStale`, the Org is then only queried if that
+     * fetch is older than the `cache.staleAfterMinutes` setting; with
+     * `cachedOnly` it is never queried.
      *
-     * @param payload - The fetch parameters (targetOrg, types)
+     * @param payload - The fetch parameters (targetOrg, types, incremental, onlyIfStale, cachedOnly)
      * @param requestId - The unique ID for the request
      * @param webview - The Webview instance
      * @private
      */
     private async _handleFetchMetadata(
-        payload: { targetOrg?: string; types?: string[] },
+        payload: {
+            targetOrg?: string;
+            types?: string[];
+            incremental?: boolean;
+            onlyIfStale?: boolean;
+            cachedOnly?: boolean;
+        },
         requestId: string,
         webview: vscode.Webview
     ): Promise<void> {
         try {
             const org = await this._orgService.getOrg(payload.targetOrg);
-            const connection = org.getConnection();
+            const username: string = org.getUsername() ?? payload.targetOrg ?? '';
+            const settings = this._settingsService.read();
+            const sourceMemberService = new SourceMemberService(org.getConnection());
+            const incremental = payload.incremental || payload.onlyIfStale || payload.cachedOnly;
 
-            const queryService = new QueryService(connection);
-            const changes: MetadataChange[] = await queryService.queryChanges({
-                limit: 2000,
-                types: payload.types,
-            });
+            if (incremental) {
+                const restored = this._restoreCache(username);
+                const snapshot = this._cache.getOrg() === username ? this._cache.toSnapshot() : undefined;
+                const fresh = snapshot && !this._isStale(snapshot.fetchedAt, settings.cacheStaleAfterMinutes);
 
-            this._cachedMetadata = changes;
+                // Show saved rows right away; the query below refreshes them in the background
+                if (restored || (payload.onlyIfStale && fresh) || (payload.cachedOnly && snapshot)) {
+                    this._postCachedMetadata(webview, requestId);
+                }
+                if (payload.cachedOnly && !snapshot) {
+                    webview.postMessage({
+                        command: 'metadataComplete',
+                        payload: { loaded: 0, total: 0, truncated: false },
+                        requestId,
+                    });
+                }
+                if ((payload.onlyIfStale && fresh) || payload.cachedOnly) {
+                    return;
+                }
+            }
 
+            const since = incremental ? this._cache.getWatermark(username) : undefined;
+            if (since) {
+                const updates: MetadataChange[] = [];
+                for await (const page of sourceMemberService.queryChanges({ limit: settings.fetchLimit, types: payload.types, since })) {
+                    updates.push(...page.items);
+                }
+
+                const changed = this._cache.merge(updates);
+                this._saveCache();
+                webview.postMessage({
+                    command: 'metadataMerged',
+                    payload: { items: changed, since, fetchedAt: this._cache.toSnapshot()?.fetchedAt },
+                    requestId,
+                });
+                return;
+            }
+
+            this._cache.reset(username);
+            let total = 0;
+
+            // Post every page as it arrives so the grid is usable before the last one
+            for await (const page of sourceMemberService.queryChanges({ limit: settings.fetchLimit, types: payload.types })) {
+                this._cache.append(page.items);
+                total = page.total;
+                webview.postMessage({
+                    command: 'metadataChunk',
+                    payload: { items: page.items, loaded: this._cache.getItems().length, total },
+                    requestId,
+                });
+            }
+
+            const loaded = this._cache.getItems().length;
+            this._cache.complete(total);
+            this._saveCache();
             webview.postMessage({
-                command: 'metadataLoaded',
-                payload: changes,
+                command: 'metadataComplete',
+                payload: { loaded, total, truncated: loaded < total, fetchedAt: this._cache.toSnapshot()?.fetchedAt },
                 requestId,
             });
         } catch (error: unknown) {
@@ -100,6 +326,101 @@ export class ExtensionHostService {
         }
     }
 
+    /**
+     * Loads the saved fetch of an Org into the memory cache, unless the
+     * memory cache already holds a completed fetch of that Org.
+     *
+     * @param username - The Org's username
+     * @returns True if a saved fetch was loaded
+     * @private
+     */
+    private _restoreCache(username: string): boolean {
+        if (this._cache.getOrg() === username && this._cache.toSnapshot()) {
+            return false;
+        }
+        const snapshot = this._cacheStore?.read(username);
+        if (!snapshot) {
+            return false;
+        }
+        this._cache.restore(username, snapshot);
+        return true;
+    }
+
+    /**
+     * Makes sure selections can be resolved after the panel was reopened:
+     * when nothing is cached in memory, the saved fetch of the Org is loaded.
+     *
+     * @param targetOrg - The alias or username of the Org
+     * @returns A promise that resolves once the cache is loaded (or nothing is saved)
+     * @private
+     */
+    private async _ensureCache(targetOrg: string | undefined): Promise<void> {
+        if (this._cache.getItems().length > 0 || !this._cacheStore) {
+            return;
+        }
+        const org = await this._orgService.getOrg(targetOrg);
+        this._restoreCache(org.getUsername() ?? targetOrg ?? '');
+    }
+
+    /**
+     * Saves the memory cache to global storage. Failures are only logged,
+     * because the cache is an optimisation and must never fail a fetch.
+     *
+     * @private
+     */
+    private _saveCache(): void {
+        const org = this._cache.getOrg();
+        const snapshot = this._cache.toSnapshot();
+        if (!this._cacheStore || org === undefined || !snapshot) {
+            return;
+        }
+        try {
+            this._cacheStore.write(org, snapshot);
+        } catch (error: unknown) {
+            console.warn('[SF Commit Studio] Failed to save the metadata cache:', error);
+        }
+    }
+
+    /**
+     * Sends the memory cache to the Webview as one chunk plus completion.
+     *
+     * @param webview - The Webview instance
+     * @param requestId - The unique ID for the request
+     * @private
+     */
+    private _postCachedMetadata(webview: vscode.Webview, requestId: string): void {
+        const snapshot = this._cache.toSnapshot();
+        if (!snapshot) {
+            return;
+        }
+        const loaded = snapshot.items.length;
+        if (loaded > 0) {
+            webview.postMessage({
+                command: 'metadataChunk',
+                payload: { items: snapshot.items, loaded, total: snapshot.total },
+                requestId,
+            });
+        }
+        webview.postMessage({
+            command: 'metadataComplete',
+            payload: { loaded, total: snapshot.total, truncated: loaded < snapshot.total, fetchedAt: snapshot.fetchedAt },
+            requestId,
+        });
+    }
+
+    /**
+     * Checks whether a fetch is older than the staleness threshold.
+     *
+     * @param fetchedAt - When the Org was queried (ISO 8601)
+     * @param staleAfterMinutes - The threshold; 0 treats every fetch as stale
+     * @returns True if the Org should be queried again
+     * @private
+     */
+    private _isStale(fetchedAt: string, staleAfterMinutes: number): boolean {
+        const age = Date.now() - Date.parse(fetchedAt);
+        return !(age >= 0 && age < staleAfterMinutes * 60 * 1000);
+    }
+
     // ─── Org List ──────────────────────────────────────────────────
 
     /**
@@ -141,219 +462,1667 @@ export class ExtensionHostService {
         }
     }
 
-    // ─── Commit Flow ───────────────────────────────────────────────
+    // ─── Commit Message Preview ────────────────────────────────────
 
     /**
-     * Performs the full commit flow: Retrieve -> Git Add -> Git Commit.
+     * Renders the commit message the current input would produce, so the
+     * Webview can show it under the message box and block invalid ones.
      *
-     * @param payload - The commit parameters (ids, message, story ref, org)
+     * @param payload - The message, story ref, Org, selection and project
      * @param requestId - The unique ID for the request
      * @param webview - The Webview instance
      * @private
      */
-    private async _handleCommitChanges(
+    private async _handlePreviewCommitMessage(
         payload: {
-            selectedIds: string[];
             message: string;
             userStoryRef?: string;
             targetOrg?: string;
+            selectedIds: string[];
+            projectRoot?: string;
         },
         requestId: string,
         webview: vscode.Webview
     ): Promise<void> {
         try {
-            const workspaceRoot = this._getWorkspaceRoot();
-            this._requireSfdxProject(workspaceRoot);
+            let user = '';
+            const projectService = this._createProjectService();
+            if (projectService.findProjects().length > 0) {
+                user = await new GitCliService(projectService.resolveProject(payload.projectRoot).root).getConfig('user.name');
+            }
 
-            const selectedItems = this._resolveSelectedItems(payload.selectedIds);
-            const retrieveService = new RetrieveService();
-            const gitService = new GitService(workspaceRoot);
-
-            // Step 1 — Retrieve
-            this._sendProgress(webview, 'Retrieving metadata...', `${selectedItems.length} items`);
-            const retrieveResult = await this._retrieveMetadata(
-                retrieveService,
-                selectedItems,
-                payload.targetOrg
-            );
-
-            // Step 2 — Stage only the retrieved files (not the whole working tree)
-            this._sendProgress(webview, 'Staging files...', `${retrieveResult.retrievedItems.length} files`);
-            await gitService.add(retrieveResult.retrievedItems);
-
-            // Step 3 — Commit
-            this._sendProgress(webview, 'Committing...');
-            const commitMessage = this._buildCommitMessage(payload.message, payload.userStoryRef);
-            const commitResult = await gitService.commit(commitMessage);
+            const selectedIds = new Set(payload.selectedIds);
+            const messageTemplate = this._createMessageTemplate(this._settingsService.read());
+            const message = messageTemplate.render({
+                message: payload.message,
+                userStoryRef: payload.userStoryRef,
+                org: payload.targetOrg,
+                user,
+                items: this._cache.getItems().filter(item => selectedIds.has(item.id)),
+            });
 
             webview.postMessage({
-                command: 'commitResult',
-                payload: {
-                    success: commitResult.success,
-                    commit: commitResult.commit,
-                    filesCommitted: commitResult.filesCommitted,
-                    branch: commitResult.branch,
-                },
+                command: 'commitMessagePreview',
+                payload: { message, error: messageTemplate.validate(message) },
                 requestId,
             });
         } catch (error: unknown) {
-            this._sendError(webview, requestId, error, 'Commit failed');
+            this._sendError(webview, requestId, error, 'Failed to preview the commit message');
         }
     }
 
+    // ─── Branch Story ──────────────────────────────────────────────
+
     /**
-     * Handles the confirmation-then-commit flow for large selections.
-     * The Webview sends this instead of `commitChanges` when itemCount > 50.
-     * The Extension Host shows a native VS Code confirmation dialog.
+     * Sends the current branch and the User Story Ref found in its name, so
+     * the Webview can fill in an empty reference field. Failures are only
+     * logged: the reference can always be typed in.
      *
-     * @param payload - The commit parameters plus item count
+     * @param payload - The project whose branch is read
      * @param requestId - The unique ID for the request
      * @param webview - The Webview instance
      * @private
      */
-    private async _handleConfirmLargeCommit(
-        payload: {
-            itemCount: number;
-            selectedIds: string[];
-            message: string;
-            userStoryRef?: string;
-            targetOrg?: string;
-        },
+    private async _handleGetBranchStory(
+        payload: { projectRoot?: string },
         requestId: string,
         webview: vscode.Webview
     ): Promise<void> {
-        const answer = await vscode.window.showWarningMessage(
-            `You are about to retrieve and commit ${payload.itemCount} items. Continue?`,
-            { modal: true },
-            'Yes'
-        );
+        try {
+            const settings = this._settingsService.read();
+            const workspaceRoot = this._createProjectService().resolveProject(payload.projectRoot).root;
+            const branch = await new GitCliService(workspaceRoot).getCurrentBranch();
+            const userStoryRef = settings.inferStoryFromBranch
+                ? this._createUserStoryService(settings).inferFromBranch(branch)
+                : undefined;
 
-        if (answer === 'Yes') {
-            await this._handleCommitChanges(
-                {
-                    selectedIds: payload.selectedIds,
-                    message: payload.message,
-                    userStoryRef: payload.userStoryRef,
-                    targetOrg: payload.targetOrg,
-                },
+            webview.postMessage({
+                command: 'branchStory',
+                payload: { branch, userStoryRef },
                 requestId,
-                webview
-            );
+            });
+        } catch (error: unknown) {
+            console.warn('[SF Commit Studio] Could not read the User Story Ref from the branch:', error);
         }
-        // If the user cancelled, do nothing — the Webview re-enables everything
-        // because it listens for a commitResult or error.
-        // We should notify the Webview so it can re-enable the button.
-        else {
+    }
+
+    // ─── Project List ──────────────────────────────────────────────
+
+    /**
+     * Lists the workspace folders that contain a Salesforce project, with
+     * their package directories.
+     *
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private _handleGetProjectList(requestId: string, webview: vscode.Webview): void {
+        try {
             webview.postMessage({
-                command: 'commitResult',
-                payload: { success: false },
+                command: 'projectList',
+                payload: { projects: this._createProjectService().findProjects() },
                 requestId,
             });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to list Salesforce projects');
         }
     }
 
-    // ─── Private Helpers ───────────────────────────────────────────
+    // ─── Selection Sets ────────────────────────────────────────────
 
     /**
-     * Returns the workspace root path, or throws if none is open.
+     * Lists the saved selection sets of a project.
      *
-     * @returns The absolute path to the first workspace folder
-     * @throws Error if no workspace folder is open
+     * @param payload - The project the sets belong to
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
      * @private
      */
-    private _getWorkspaceRoot(): string {
-        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!root) {
-            throw new Error('No workspace folder is open. Please open a Salesforce project.');
+    private _handleGetSelectionSets(
+        payload: { projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): void {
+        try {
+            webview.postMessage({
+                command: 'selectionSets',
+                payload: { sets: this._createSelectionSetService(payload.projectRoot).list() },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to list selection sets');
         }
-        return root;
     }
 
     /**
-     * Validates that the workspace contains a `sfdx-project.json`.
-     * The `sf project retrieve start` command requires this file.
+     * Saves the selection as a named set. The user picks the name and whether
+     * the set is kept in workspace state or in the shared file; replacing an
+     * existing set asks for confirmation. Nothing is sent if the user cancels.
      *
-     * @param workspaceRoot - The path to the workspace root
-     * @throws Error if sfdx-project.json is missing
+     * @param payload - The selection, a suggested name and the project
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
      * @private
      */
-    private _requireSfdxProject(workspaceRoot: string): void {
-        const projectFile = path.join(workspaceRoot, 'sfdx-project.json');
-        if (!fs.existsSync(projectFile)) {
-            throw new Error(
-                'This workspace is not a Salesforce project. ' +
-                'Open a folder containing an sfdx-project.json file.'
+    private async _handleSaveSelectionSet(
+        payload: { selectedIds: string[]; suggestedName?: string; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const selectionSets = this._createSelectionSetService(payload.projectRoot);
+            const selectedIds = new Set(payload.selectedIds);
+            const components: ComponentRef[] = this._cache.getItems()
+                .filter(item => selectedIds.has(item.id))
+                .map(item => ({ type: item.type, componentName: item.componentName }));
+            if (components.length === 0) {
+                throw new Error('Select the components to save first.');
+            }
+
+            const name = await vscode.window.showInputBox({
+                title: 'Save Selection Set',
+                prompt: `Name for the ${components.length} selected components`,
+                value: payload.suggestedName?.trim(),
+                validateInput: value => (value.trim() ? undefined : 'Enter a name.'),
+            });
+            if (!name) {
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                [
+                    { label: 'Workspace', description: 'Only on this machine', location: 'workspace' as const },
+                    {
+                        label: 'Shared file',
+                        description: `${SHARED_SELECTION_SETS_PATH}, can be committed`,
+                        location: 'shared' as const,
+                    },
+                ],
+                { title: 'Save Selection Set', placeHolder: 'Where should the set be saved?' }
             );
+            if (!picked) {
+                return;
+            }
+
+            if (selectionSets.find(name, picked.location)) {
+                const answer = await vscode.window.showWarningMessage(
+                    `A selection set named "${name.trim()}" already exists. Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (answer !== 'Replace') {
+                    return;
+                }
+            }
+
+            const saved = await selectionSets.save(name, picked.location, components);
+            webview.postMessage({
+                command: 'selectionSets',
+                payload: { sets: selectionSets.list(), saved },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to save the selection set');
         }
     }
 
     /**
-     * Maps selected IDs back to MetadataChange objects from the cache.
-     * Uses a Set for O(1) lookups instead of Array.includes O(n).
+     * Matches a saved set against the fetched metadata by type and name, and
+     * reports the components the current fetch no longer contains.
      *
-     * @param selectedIds - List of IDs to resolve
-     * @returns List of resolved MetadataChange objects
-     * @throws Error if no items match the IDs
+     * @param payload - The set and the project it belongs to
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
      * @private
      */
-    private _resolveSelectedItems(selectedIds: string[]): MetadataChange[] {
-        const idSet = new Set(selectedIds);
-        const items = this._cachedMetadata.filter(item => idSet.has(item.id));
+    private _handleLoadSelectionSet(
+        payload: { name: string; location: SelectionSetLocation; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): void {
+        try {
+            const selectionSets = this._createSelectionSetService(payload.projectRoot);
+            const set = selectionSets.find(payload.name, payload.location);
+            if (!set) {
+                throw new Error(`Selection set "${payload.name}" no longer exists.`);
+            }
 
-        if (items.length === 0) {
-            throw new Error(
-                'No items found matching your selection. ' +
-                'The metadata may have been refreshed — please re-select and try again.'
-            );
+            webview.postMessage({
+                command: 'selectionSetLoaded',
+                payload: { name: set.name, ...selectionSets.match(set, this._cache.getItems()) },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to load the selection set');
         }
-
-        return items;
     }
 
     /**
-     * Retrieves metadata from Salesforce using the RetrieveService.
-     * Throws if no items were successfully retrieved.
+     * Deletes a saved set after confirmation. Nothing is sent if the user declines.
      *
-     * @param retrieveService - Instance of RetrieveService
-     * @param items - Items to retrieve
-     * @param targetOrg - Optional alias/username for the target Org
-     * @returns The retrieval result
-     * @throws Error if retrieval fails or returns no items
+     * @param payload - The set and the project it belongs to
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
      * @private
      */
-    private async _retrieveMetadata(
-        retrieveService: RetrieveService,
-        items: MetadataChange[],
-        targetOrg?: string
-    ) {
-        const metadataArgs = items.map(item =>
-            retrieveService.formatMetadata(item.type, item.componentName)
-        );
-        const uniqueMetadata = [...new Set(metadataArgs)];
-
-        const result = await retrieveService.retrieve(uniqueMetadata, targetOrg);
+    private async _handleDeleteSelectionSet(
+        payload: { name: string; location: SelectionSetLocation; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const answer = await vscode.window.showWarningMessage(
+                `Delete the selection set "${payload.name}"?`,
+                { modal: true },
+                'Delete'
+            );
+            if (answer !== 'Delete') {
+                return;
+            }
 
-        if (!result.success && result.retrievedItems.length === 0) {
-            throw new Error(`Retrieve failed: ${result.errors.join(', ')}`);
+            const selectionSets = this._createSelectionSetService(payload.projectRoot);
+            await selectionSets.delete(payload.name, payload.location);
+            webview.postMessage({
+                command: 'selectionSets',
+                payload: { sets: selectionSets.list() },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to delete the selection set');
         }
-
-        return result;
     }
 
+    // ─── Dependency Suggestions ────────────────────────────────────
+
     /**
-     * Constructs the final Git commit message, optionally prepending
-     * a User Story reference: `[US-0000275] message`.
+     * Sends the fetched components the selection likely needs to deploy:
+     * parent objects, Apex test classes and bundles used by FlexiPages.
+     * Failures are only logged: suggestions never block a commit.
      *
-     * @param commitMsg - The base commit message
-     * @param userStoryRef - Optional user story reference
-     * @returns The formatted commit message
+     * @param payload - The selection and the project
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
      * @private
      */
-    private _buildCommitMessage(commitMsg: string, userStoryRef?: string): string {
-        if (userStoryRef?.trim()) {
-            return `[${userStoryRef.trim()}] ${commitMsg}`;
+    private _handleGetSuggestions(
+        payload: { selectedIds: string[]; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): void {
+        try {
+            const project = this._createProjectService().resolveProject(payload.projectRoot);
+            const items = this._cache.getItems();
+            const selectedIds = new Set(payload.selectedIds);
+
+            webview.postMessage({
+                command: 'suggestions',
+                payload: {
+                    items: new DependencyService(project.root).suggest(
+                        items.filter(item => selectedIds.has(item.id)),
+                        items
+                    ),
+                },
+                requestId,
+            });
+        } catch (error: unknown) {
+            console.warn('[SF Commit Studio] Could not compute dependency suggestions:', error);
         }
-        return commitMsg;
+    }
+
+    // ─── Repository Status ─────────────────────────────────────────
+
+    /**
+     * Sends the repository status of every fetched component: not in the
+     * repository, unchanged, locally modified, or newer in the Org than the
+     * last commit. Failures are only logged: the status column is informational.
+     *
+     * @param payload - The project to compare with
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleGetRepoStatus(
+        payload: { projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const project = this._createProjectService().resolveProject(payload.projectRoot);
+            webview.postMessage({
+                command: 'repoStatus',
+                payload: { statuses: await new RepoStatusService(project.root).compute(this._cache.getItems()) },
+                requestId,
+            });
+        } catch (error: unknown) {
+            console.warn('[SF Commit Studio] Could not compute repository status:', error);
+        }
+    }
+
+    // ─── Authors ───────────────────────────────────────────────────
+
+    /**
+     * Sends how a commit of the selection would be attributed, including
+     * the Salesforce users that still need an author mapping.
+     *
+     * @param payload - The selection and the project
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private _handleGetAuthors(
+        payload: { selectedIds: string[]; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): void {
+        try {
+            const project = this._createProjectService().resolveProject(payload.projectRoot);
+            this._sendAuthors(project.root, payload.selectedIds, requestId, webview);
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to read author mapping');
+        }
+    }
+
+    /**
+     * Asks for the git name and email of a Salesforce user, saves them to
+     * `.sfcommitstudio/authors.json` and sends the updated attribution.
+     * Nothing is saved if the user cancels either input box.
+     *
+     * @param payload - The user to map, the selection and the project
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleMapAuthor(
+        payload: { username: string; selectedIds: string[]; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const project = this._createProjectService().resolveProject(payload.projectRoot);
+            const name = await vscode.window.showInputBox({
+                title: `Map ${payload.username}`,
+                prompt: 'Git author name',
+                validateInput: value => (value.trim() ? undefined : 'Enter a name.'),
+            });
+            if (!name) {
+                return;
+            }
+
+            const email = await vscode.window.showInputBox({
+                title: `Map ${payload.username}`,
+                prompt: `Git author email for ${name.trim()}`,
+                validateInput: value => (/^[^\s@<>]+@[^\s@<>]+$/.test(value.trim()) ? undefined : 'Enter an email address.'),
+            });
+            if (!email) {
+                return;
+            }
+
+            new AuthorMappingService(project.root).set(payload.username, { name, email });
+            this._sendAuthors(project.root, payload.selectedIds, requestId, webview);
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to save author mapping');
+        }
+    }
+
+    /**
+     * Posts the attribution of the selected components.
+     *
+     * @param projectRoot - Root of the project whose mapping is used
+     * @param selectedIds - IDs of the selected metadata items
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private _sendAuthors(projectRoot: string, selectedIds: string[], requestId: string, webview: vscode.Webview): void {
+        const mode = this._settingsService.read().authorMode;
+        const ids = new Set(selectedIds);
+        const selected = this._cache.getItems().filter(item => ids.has(item.id));
+        webview.postMessage({
+            command: 'authors',
+            payload: { mode, ...new AuthorMappingService(projectRoot).attribute(selected, mode) },
+            requestId,
+        });
+    }
+
+    // ─── Manifests ─────────────────────────────────────────────────
+
+    /**
+     * Writes a `package.xml` listing the selected components, grouped by
+     * type, with the `sourceApiVersion` of `sfdx-project.json`. Deleted
+     * components are left out because a deploy manifest cannot list them.
+     * Nothing is sent if the user cancels the save dialog.
+     *
+     * @param payload - The selection and the project
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleExportManifest(
+        payload: { selectedIds: string[]; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const project = this._createProjectService().resolveProject(payload.projectRoot);
+            const selectedIds = new Set(payload.selectedIds);
+            const selected = this._cache.getItems().filter(item => selectedIds.has(item.id));
+            const live = selected.filter(item => item.changeKind !== 'Deleted');
+            if (live.length === 0) {
+                throw new Error(
+                    selected.length > 0
+                        ? 'Deleted components cannot be listed in a package.xml. Select at least one existing component.'
+                        : 'Select the components to export first.'
+                );
+            }
+
+            const uri = await vscode.window.showSaveDialog({
+                title: 'Export package.xml',
+                defaultUri: vscode.Uri.file(path.join(project.root, 'manifest', 'package.xml')),
+                filters: { Manifest: ['xml'] },
+            });
+            if (!uri) {
+                return;
+            }
+
+            const manifestService = new ManifestService();
+            const manifest = manifestService.addMembers(
+                { types: new Map(), version: new SourcePathService(project.root).getSourceApiVersion() },
+                live.map(item => ({ type: item.type, name: item.componentName }))
+            );
+            fs.mkdirSync(path.dirname(uri.fsPath), { recursive: true });
+            fs.writeFileSync(uri.fsPath, manifestService.build(manifest));
+            void vscode.window.showTextDocument(uri, { preview: false });
+
+            webview.postMessage({
+                command: 'manifestExported',
+                payload: {
+                    file: uri.fsPath,
+                    componentCount: [...manifest.types.values()].reduce((count, members) => count + members.size, 0),
+                    skippedDeleted: selected.length - live.length,
+                },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to export package.xml');
+        }
+    }
+
+    /**
+     * Lets the user pick a manifest and matches its members against the
+     * fetched metadata; `*` members match every row of their type. Nothing
+     * is sent if the user cancels the file picker.
+     *
+     * @param payload - The project the file picker opens in
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleImportManifest(
+        payload: { projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const project = this._createProjectService().resolveProject(payload.projectRoot);
+            const manifestDir = path.join(project.root, 'manifest');
+            const [uri] = (await vscode.window.showOpenDialog({
+                title: 'Import Manifest',
+                openLabel: 'Import',
+                defaultUri: vscode.Uri.file(fs.existsSync(manifestDir) ? manifestDir : project.root),
+                canSelectMany: false,
+                filters: { Manifest: ['xml'] },
+            })) ?? [];
+            if (!uri) {
+                return;
+            }
+
+            const manifestService = new ManifestService();
+            const manifest = manifestService.parse(fs.readFileSync(uri.fsPath, 'utf8'));
+            const file = path.basename(uri.fsPath);
+            if (manifest.types.size === 0) {
+                throw new Error(`${file} lists no components. Choose a package.xml manifest.`);
+            }
+
+            webview.postMessage({
+                command: 'manifestImported',
+                payload: { file, ...manifestService.match(manifest, this._cache.getItems()) },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to import the manifest');
+        }
+    }
+
+    // ─── Commit Flow ───────────────────────────────────────────────
+
+    /**
+     * Performs the full commit flow: [Branch] -> Retrieve -> Git Add -> Git Commit -> [Push].
+     * When `useFeatureBranch` is set, the feature branch is checked out first.
+     * When `push` is set, the branch is pushed afterwards; a failed push is
+     * reported as an error but never undoes the commit.
+     * Deleted components are not retrieved; their source files are removed
+     * with `git rm` and recorded in `manifest/destructiveChanges.xml` instead.
+     * The retrieve outcome of each live component is returned with the result;
+     * with `retrieve.blockOnFailure` set, any failure stops the commit.
+     * A `cancelOperation` kills the retrieve; once committing has started the
+     * commit always completes.
+     *
+     * @param payload - The commit parameters (ids, message, story ref, org)
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleCommitChanges(
+        payload: CommitRequest,
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        const operation = this._beginOperation();
+        const signal = operation.signal;
+        // What a cancel or failure leaves behind: local edits in a stash and a switched branch
+        let stashMessage: string | undefined;
+        let switchedBranch: { from: string; to: string } | undefined;
+        try {
+            const projectService = this._createProjectService();
+            const project = projectService.resolveProject(payload.projectRoot);
+            const packageDirectory = projectService.resolvePackageDirectory(project, payload.packageDirectory);
+            const workspaceRoot = project.root;
+            const settings = this._settingsService.read();
+
+            // Checked here too, so a message that skipped the Webview's validation is still rejected
+            const storyError = this._createUserStoryService(settings).validate(payload.userStoryRef);
+            if (storyError) {
+                throw new Error(storyError);
+            }
+
+            await this._ensureCache(payload.targetOrg);
+            const selectedItems = this._resolveSelectedItems(payload.selectedIds);
+            const liveItems = selectedItems.filter(item => item.changeKind !== 'Deleted');
+            const deletedItems = selectedItems.filter(item => item.changeKind === 'Deleted');
+            const gitService = new GitService(workspaceRoot);
+            const gitCli = new GitCliService(workspaceRoot);
+            const sourcePathService = new SourcePathService(workspaceRoot);
+
+            // Reject a non-compliant message before anything is retrieved
+            const messageTemplate = this._createMessageTemplate(settings);
+            const messageContext = {
+                message: payload.message,
+                userStoryRef: payload.userStoryRef,
+                org: payload.targetOrg,
+                user: await gitCli.getConfig('user.name'),
+                items: selectedItems,
+            };
+            const splitService = new CommitSplitService(sourcePathService);
+            for (const group of splitService.group(selectedItems, payload.splitBy)) {
+                const messageError = messageTemplate.validate(
+                    messageTemplate.render(this._groupMessageContext(messageContext, group))
+                );
+                if (messageError) {
+                    throw new Error(messageError);
+                }
+            }
+
+            // A broken author mapping is reported before anything is retrieved
+            const authorMapping = new AuthorMappingService(workspaceRoot);
+            if (settings.authorMode !== 'committer') {
+                authorMapping.read();
+            }
+
+            // Step 0 — Never overwrite local edits without asking
+            const localChanges = await this._protectLocalChanges(gitCli, sourcePathService, selectedItems, requestId, webview);
+            stashMessage = localChanges?.stashMessage;
+            if (localChanges?.decision === 'abort') {
+                this._sendCommitFailure(webview, requestId, undefined, { cancelled: true });
+                return;
+            }
+
+            // Switch to the feature branch before anything touches the working tree
+            let featureBranch: string | undefined;
+            if (payload.useFeatureBranch) {
+                const startBranch = await gitCli.getCurrentBranch();
+                featureBranch = await this._checkoutFeatureBranch(
+                    workspaceRoot,
+                    payload.userStoryRef,
+                    payload.baseBranch,
+                    webview
+                );
+                if (featureBranch !== startBranch) {
+                    switchedBranch = { from: startBranch, to: featureBranch };
+                }
+            }
+
+            // Only the files staged below are committed; anything staged before stays staged
+            const preStaged = await gitCli.getStagedFiles();
+            const studioPaths = new Set<string>();
+            const addStudioPaths = (files: string[]): void => {
+                for (const file of files) {
+                    const relative = path.relative(workspaceRoot, path.resolve(workspaceRoot, file));
+                    studioPaths.add(relative.split(path.sep).join('/'));
+                }
+            };
+
+            // Step 1 — Retrieve (deleted components no longer exist in the Org)
+            let components: ComponentOutcome[] | undefined;
+            const failedIds = new Set<string>();
+            if (liveItems.length > 0) {
+                this._sendProgress(webview, 'Retrieving metadata...', `${liveItems.length} items`);
+                const retrieveResult = await this._retrieveMetadata(
+                    project,
+                    packageDirectory,
+                    liveItems,
+                    payload.targetOrg,
+                    signal,
+                    Boolean(payload.scopePermissions)
+                );
+                signal.throwIfAborted();
+
+                const outcomeService = new RetrieveOutcomeService(workspaceRoot, sourcePathService);
+                const outcomes = outcomeService.resolve(liveItems, retrieveResult, []);
+                outcomes.filter(c => c.status === 'failed').forEach(c => failedIds.add(c.id));
+
+                const nothingRetrieved = !retrieveResult.success && retrieveResult.retrievedItems.length === 0;
+                if (nothingRetrieved || (failedIds.size > 0 && settings.blockOnRetrieveFailure)) {
+                    // The retrieve has already written to the working tree; nothing of it is committed, so put it back
+                    const reverted = await this._revertRetrievedFiles(gitCli, workspaceRoot, retrieveResult.retrievedItems);
+                    const unmatched = retrieveResult.errors.join('\n');
+                    const reason = nothingRetrieved
+                        ? `Retrieve failed: ${retrieveResult.errors.join(', ')}`
+                        : `${failedIds.size} of ${liveItems.length} components failed to retrieve, so nothing was committed. ` +
+                          'Failed components are marked in the grid.';
+                    this._sendCommitFailure(
+                        webview,
+                        requestId,
+                        new Error(reverted.length > 0 ? `${reason} The ${reverted.length} retrieved files were reverted.` : reason),
+                        {
+                            stashMessage,
+                            switchedBranch,
+                            // Errors that name no component still mean nothing came back
+                            components: nothingRetrieved
+                                ? outcomes.map(c => ({ id: c.id, status: 'failed', error: c.error ?? unmatched }))
+                                : outcomes,
+                        }
+                    );
+                    return;
+                }
+
+                // Step 2 — Stage only the retrieved files (not the whole working tree)
+                this._sendProgress(webview, 'Staging files...', `${retrieveResult.retrievedItems.length} files`);
+                await gitService.add(retrieveResult.retrievedItems);
+                addStudioPaths(retrieveResult.retrievedItems);
+                components = outcomeService.resolve(liveItems, retrieveResult, await gitCli.getStagedFiles());
+            }
+
+            // Step 2b — Remove deleted components and record them for destructive deploys
+            let filesDeleted = 0;
+            signal.throwIfAborted();
+            if (deletedItems.length > 0) {
+                this._sendProgress(webview, 'Removing deleted components...', `${deletedItems.length} items`);
+                const deletedPaths = await this._stageDeletions(workspaceRoot, deletedItems);
+                addStudioPaths(deletedPaths);
+                filesDeleted = deletedPaths.length;
+            }
+            // Components committed live again (e.g. recreated in the Org) must not be deleted by the next deploy
+            const liveCommitted = liveItems.filter(item => !failedIds.has(item.id));
+            const toRefs = (items: MetadataChange[]) => items.map(item => ({ type: item.type, name: item.componentName }));
+            const destructiveFile = path.join(workspaceRoot, DESTRUCTIVE_CHANGES_PATH);
+            const destructiveXml = new ManifestService().updateDestructiveChanges(
+                fs.existsSync(destructiveFile) ? fs.readFileSync(destructiveFile, 'utf8') : undefined,
+                toRefs(deletedItems),
+                toRefs(liveCommitted)
+            );
+            if (destructiveXml !== undefined) {
+                fs.mkdirSync(path.dirname(destructiveFile), { recursive: true });
+                fs.writeFileSync(destructiveFile, destructiveXml);
+                await gitService.add([destructiveFile]);
+                addStudioPaths([DESTRUCTIVE_CHANGES_PATH]);
+            }
+
+            // Step 3 — Commit, recording the components as trailers for the History tab.
+            // A split commit makes one commit per group; a failed group stops the run but keeps earlier commits.
+            signal.throwIfAborted();
+            this._endOperation(operation);
+            this._sendProgress(webview, 'Committing...');
+            const branch = featureBranch ?? await gitCli.getCurrentBranch();
+            const historyService = new CommitHistoryService(gitCli, sourcePathService);
+            const committedItems = selectedItems.filter(item => !failedIds.has(item.id));
+            const commitPaths = (await gitCli.getStagedFiles()).filter(file => studioPaths.has(file));
+            const leftStaged = preStaged.filter(file => !studioPaths.has(file));
+            const groups = splitService.split(committedItems, payload.splitBy, commitPaths);
+            if (groups.length === 0) {
+                throw new Error('Nothing to commit: the retrieved files match the last commit.');
+            }
+
+            const commits: SplitCommit[] = [];
+            for (const [index, group] of groups.entries()) {
+                if (payload.splitBy) {
+                    this._sendProgress(webview, `Committing ${index + 1} of ${groups.length}...`, group.label);
+                }
+                try {
+                    const attribution = authorMapping.attribute(group.items, settings.authorMode);
+                    const commitMessage = historyService.appendTrailers(
+                        messageTemplate.render(this._groupMessageContext(messageContext, group)),
+                        [
+                            historyService.buildTrailers({
+                                branch,
+                                userStoryRef: payload.userStoryRef,
+                                items: group.items,
+                            }),
+                            authorMapping.buildTrailers(attribution.coAuthors),
+                        ].filter(trailers => trailers.length > 0).join('\n')
+                    );
+                    const commit = await gitCli.commitOnly(
+                        group.paths,
+                        commitMessage,
+                        attribution.author ? authorMapping.format(attribution.author) : undefined
+                    );
+                    commits.push({ commit, label: group.label, filesCommitted: group.paths.length });
+                } catch (error: unknown) {
+                    if (!payload.splitBy) {
+                        throw error;
+                    }
+                    const reason = error instanceof Error ? error.message : String(error);
+                    this._sendCommitFailure(
+                        webview,
+                        requestId,
+                        new Error(
+                            `Commit ${index + 1} of ${groups.length} (${group.label}) failed, so the remaining groups were not committed. ` +
+                            `The ${commits.length} earlier commits were kept. ${reason}`
+                        ),
+                        { stashMessage, switchedBranch, components, commits }
+                    );
+                    return;
+                }
+            }
+            const commit = commits[commits.length - 1].commit;
+
+            // Step 4 — Push
+            let pushError: unknown;
+            let pullRequestFile: string | undefined;
+            if (payload.push) {
+                try {
+                    await this._pushBranch(workspaceRoot, settings.pushRemote, branch, webview);
+                    if (settings.writePullRequestDescription) {
+                        pullRequestFile = this._writePullRequestDescription(workspaceRoot, {
+                            branch,
+                            commit,
+                            message: messageTemplate.render({ ...messageContext, items: committedItems }),
+                            userStoryRef: payload.userStoryRef,
+                            items: committedItems,
+                        });
+                    }
+                } catch (error: unknown) {
+                    pushError = error;
+                }
+            }
+
+            webview.postMessage({
+                command: 'commitResult',
+                payload: {
+                    success: true,
+                    commit,
+                    filesCommitted: commits.reduce((total, c) => total + c.filesCommitted, 0),
+                    filesDeleted,
+                    branch,
+                    pushed: payload.push ? !pushError : undefined,
+                    remote: payload.push ? settings.pushRemote : undefined,
+                    pullRequestFile,
+                    components,
+                    leftStaged: leftStaged.length > 0 ? leftStaged : undefined,
+                    commits: payload.splitBy ? commits : undefined,
+                },
+                requestId,
+            });
+
+            if (pushError) {
+                this._sendError(webview, requestId, pushError, 'Push failed');
+            }
+
+            // The committed files now match the Org, so any earlier preview is stale
+            this._disposePreview();
+        } catch (error: unknown) {
+            this._sendCommitFailure(webview, requestId, error, { cancelled: signal.aborted, stashMessage, switchedBranch });
+        } finally {
+            this._endOperation(operation);
+        }
+    }
+
+    /**
+     * Reports a commit that was cancelled or failed, together with what it
+     * left in the working copy (stashed local edits, a switched branch,
+     * marked components, the earlier commits of a split commit), as one
+     * `commitResult`. A failure that left nothing behind is sent as a plain
+     * error.
+     *
+     * @param webview - The Webview instance
+     * @param requestId - The ID of the commit request
+     * @param error - Why the commit failed; ignored for a cancel
+     * @param outcome - Whether the user cancelled, and what the commit left behind
+     * @private
+     */
+    private _sendCommitFailure(
+        webview: vscode.Webview,
+        requestId: string,
+        error: unknown,
+        outcome: {
+            cancelled?: boolean;
+            stashMessage?: string;
+            switchedBranch?: { from: string; to: string };
+            components?: ComponentOutcome[];
+            commits?: SplitCommit[];
+        }
+    ): void {
+        const { cancelled, stashMessage, switchedBranch, components, commits } = outcome;
+        if (!cancelled && !stashMessage && !switchedBranch && !components && !commits) {
+            this._sendError(webview, requestId, error, 'Commit failed');
+            return;
+        }
+
+        let message: string | undefined;
+        if (!cancelled) {
+            const errorObj = error instanceof Error ? error : new Error(String(error));
+            console.error('[SF Commit Studio] Commit failed:', errorObj);
+            message = errorObj.message || 'Commit failed';
+        }
+        webview.postMessage({
+            command: 'commitResult',
+            payload: {
+                success: false,
+                cancelled: cancelled || undefined,
+                error: message,
+                stashMessage,
+                branch: switchedBranch?.to,
+                previousBranch: switchedBranch?.from,
+                components,
+                commits,
+            },
+            requestId,
+        });
+    }
+
+    /**
+     * Builds the message context of one commit of a split commit: the
+     * group's components, with the group label after the user's message.
+     *
+     * @param context - Message context of the whole selection
+     * @param group - The group being committed
+     * @returns The context to render the group's message from
+     * @private
+     */
+    private _groupMessageContext<T extends { message: string; items: MetadataChange[] }>(
+        context: T,
+        group: CommitGroup
+    ): T {
+        return {
+            ...context,
+            message: group.label ? `${context.message.trimEnd()} (${group.label})` : context.message,
+            items: group.items,
+        };
+    }
+
+    /**
+     * Checks whether files of the selected components have uncommitted
+     * local changes that the retrieve (or removal of deleted components)
+     * would destroy. If so, asks whether to abort, stash them and continue,
+     * or overwrite them, and reports the decision with a `localChanges` message.
+     *
+     * @param gitCli - Git access for the project
+     * @param sourcePathService - Maps components to their source files
+     * @param items - The selected components
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @returns The decision and, if the changes were stashed, the stash message;
+     *   `undefined` if no file has local changes
+     * @private
+     */
+    private async _protectLocalChanges(
+        gitCli: GitCliService,
+        sourcePathService: SourcePathService,
+        items: MetadataChange[],
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<{ decision: LocalChangesDecision; stashMessage?: string } | undefined> {
+        const paths = await gitCli.getModifiedFiles(
+            [...new Set(items.flatMap(item => sourcePathService.findSourceFiles(item.type, item.componentName)))]
+        );
+        if (paths.length === 0) {
+            return undefined;
+        }
+
+        const listed = paths.slice(0, MAX_LISTED_FILES);
+        const more = paths.length > listed.length ? `\n…and ${paths.length - listed.length} more` : '';
+        const answer = await vscode.window.showWarningMessage(
+            `${paths.length} files of the selected components have uncommitted local changes that the retrieve would overwrite.`,
+            { modal: true, detail: listed.join('\n') + more },
+            'Stash and Continue',
+            'Overwrite'
+        );
+
+        let decision: LocalChangesDecision = 'abort';
+        let stashMessage: string | undefined;
+        if (answer === 'Stash and Continue') {
+            stashMessage = `${STUDIO_STASH_MESSAGE} ${items.length} components`;
+            this._sendProgress(webview, 'Stashing local changes...', `${paths.length} files`);
+            await gitCli.stashPush(paths, stashMessage);
+            decision = 'stash';
+        } else if (answer === 'Overwrite') {
+            decision = 'overwrite';
+        }
+
+        webview.postMessage({
+            command: 'localChanges',
+            payload: { decision, paths, stashMessage },
+            requestId,
+        });
+        return { decision, stashMessage };
+    }
+
+    /**
+     * Handles the confirmation-then-commit flow for large selections.
+     * The Webview sends this instead of `commitChanges` when more components
+     * are selected than the `commit.largeCommitThreshold` setting allows.
+     * The Extension Host shows a native VS Code confirmation dialog.
+     *
+     * @param payload - The commit parameters plus item count
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleConfirmLargeCommit(
+        payload: CommitRequest & { itemCount: number },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        const answer = await vscode.window.showWarningMessage(
+            `You are about to retrieve and commit ${payload.itemCount} items. Continue?`,
+            { modal: true },
+            'Yes'
+        );
+
+        if (answer === 'Yes') {
+            await this._handleCommitChanges(payload, requestId, webview);
+        }
+        // If the user cancelled, do nothing — the Webview re-enables everything
+        // because it listens for a commitResult or error.
+        // We should notify the Webview so it can re-enable the button.
+        else {
+            webview.postMessage({
+                command: 'commitResult',
+                payload: { success: false },
+                requestId,
+            });
+        }
+    }
+
+    // ─── Commit Preview ────────────────────────────────────────────
+
+    /**
+     * Retrieves the selection into a scratch directory and reports which
+     * workspace files the real retrieve would add, modify or leave unchanged.
+     * The scratch copy is kept so individual files can be opened in a diff editor.
+     *
+     * @param payload - The preview parameters (ids, org)
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handlePreviewChanges(
+        payload: {
+            selectedIds: string[];
+            targetOrg?: string;
+            projectRoot?: string;
+            packageDirectory?: string;
+            scopePermissions?: boolean;
+        },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        const operation = this._beginOperation();
+        try {
+            const projectService = this._createProjectService();
+            const project = projectService.resolveProject(payload.projectRoot);
+            const packageDirectory = projectService.resolvePackageDirectory(project, payload.packageDirectory);
+            const workspaceRoot = project.root;
+
+            await this._ensureCache(payload.targetOrg);
+            const selectedItems = this._resolveSelectedItems(payload.selectedIds);
+            const liveItems = selectedItems.filter(item => item.changeKind !== 'Deleted');
+            const deletedItems = selectedItems.filter(item => item.changeKind === 'Deleted');
+            const sourcePathService = new SourcePathService(workspaceRoot);
+
+            this._disposePreview();
+            const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sf-commit-studio-preview-'));
+            this._preview = { projectRoot: workspaceRoot, scratchDir, files: new Map() };
+
+            let errors: string[] = [];
+            let retrievedFiles: string[] = [];
+            if (liveItems.length > 0) {
+                this._sendProgress(webview, 'Retrieving preview...', `${liveItems.length} items`);
+                const metadataArgs = this._formatMetadataArgs(new RetrieveService(), liveItems);
+                const result = await new SfCliService(workspaceRoot).retrieveToDirectory(
+                    metadataArgs,
+                    scratchDir,
+                    payload.targetOrg,
+                    operation.signal
+                );
+                if (!result.success && result.retrievedItems.length === 0) {
+                    throw new Error(`Retrieve failed: ${result.errors.join(', ')}`);
+                }
+                errors = result.errors;
+                retrievedFiles = result.retrievedItems;
+            }
+
+            this._sendProgress(webview, 'Comparing with workspace...');
+            let files = new PreviewService(workspaceRoot, sourcePathService)
+                .compare(scratchDir, retrievedFiles, packageDirectory);
+            if (payload.scopePermissions) {
+                files = this._createPermissionMerge(workspaceRoot, sourcePathService, liveItems)?.scopeFiles(files) ?? files;
+            }
+            this._preview.files = new Map(files.map(f => [f.path, f.scratchPath]));
+
+            const pathsWithStatus = (status: string) =>
+                files.filter(f => f.status === status).map(f => f.path);
+
+            webview.postMessage({
+                command: 'previewResult',
+                payload: {
+                    added: pathsWithStatus('added'),
+                    modified: pathsWithStatus('modified'),
+                    unchanged: pathsWithStatus('unchanged'),
+                    removed: deletedItems.flatMap(item =>
+                        sourcePathService.findFilesToDelete(item.type, item.componentName)
+                    ),
+                    errors,
+                },
+                requestId,
+            });
+        } catch (error: unknown) {
+            if (operation.signal.aborted) {
+                this._disposePreview();
+                webview.postMessage({
+                    command: 'previewResult',
+                    payload: { added: [], modified: [], unchanged: [], removed: [], errors: [], cancelled: true },
+                    requestId,
+                });
+                return;
+            }
+            this._sendError(webview, requestId, error, 'Preview failed');
+        } finally {
+            this._endOperation(operation);
+        }
+    }
+
+    /**
+     * Opens one previewed file: a diff editor (workspace ↔ Org) for modified
+     * files, or the single existing side for added and removed files.
+     *
+     * @param payload - The project-relative path of the file
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleOpenPreviewDiff(
+        payload: { path: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            if (!this._preview) {
+                throw new Error('The preview is no longer available. Run Preview again.');
+            }
+
+            const workspacePath = path.join(this._preview.projectRoot, payload.path);
+            const scratchPath = this._preview.files.get(payload.path);
+
+            if (scratchPath && fs.existsSync(workspacePath)) {
+                await vscode.commands.executeCommand(
+                    'vscode.diff',
+                    vscode.Uri.file(workspacePath),
+                    vscode.Uri.file(scratchPath),
+                    `${path.basename(payload.path)} (Workspace ↔ Org)`
+                );
+            } else {
+                await vscode.commands.executeCommand(
+                    'vscode.open',
+                    vscode.Uri.file(scratchPath ?? workspacePath)
+                );
+            }
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to open diff');
+        }
+    }
+
+    /**
+     * Deletes the scratch directory of the current preview, if any.
+     *
+     * @private
+     */
+    private _disposePreview(): void {
+        if (this._preview) {
+            fs.rmSync(this._preview.scratchDir, { recursive: true, force: true });
+            this._preview = undefined;
+        }
+    }
+
+    // ─── Commit History ────────────────────────────────────────────
+
+    /**
+     * Sends the Studio commits found in the current branch's history.
+     *
+     * @param payload - Optional maximum number of commits
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleGetCommitHistory(
+        payload: { limit?: number; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const workspaceRoot = this._createProjectService().resolveProject(payload.projectRoot).root;
+            const historyService = new CommitHistoryService(
+                new GitCliService(workspaceRoot),
+                new SourcePathService(workspaceRoot)
+            );
+            const entries = await historyService.getHistory(payload.limit ?? DEFAULT_HISTORY_LIMIT);
+
+            webview.postMessage({
+                command: 'commitHistory',
+                payload: { entries },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to load commit history');
+        }
+    }
+
+    /**
+     * Opens a read-only copy of a file as it was at the given commit.
+     * Files removed by the commit are shown as they were just before it.
+     *
+     * @param payload - The commit hash and repository-relative path
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleOpenFileAtRevision(
+        payload: { hash: string; path: string; projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            // The hash is interpolated into a git argument, so never accept anything but hex
+            if (!/^[0-9a-f]{7,40}$/i.test(payload.hash)) {
+                throw new Error(`Invalid commit hash: ${payload.hash}`);
+            }
+
+            const gitCli = new GitCliService(this._createProjectService().resolveProject(payload.projectRoot).root);
+            let content: string;
+            try {
+                content = await gitCli.showFile(payload.hash, payload.path);
+            } catch {
+                content = await gitCli.showFile(`${payload.hash}^`, payload.path);
+            }
+
+            // A real file (rather than an untitled document) keeps syntax highlighting
+            const revisionDir = path.join(os.tmpdir(), 'sf-commit-studio-history', payload.hash.slice(0, 12));
+            const revisionFile = path.join(revisionDir, path.basename(payload.path));
+            fs.mkdirSync(revisionDir, { recursive: true });
+            fs.writeFileSync(revisionFile, content);
+
+            await vscode.window.showTextDocument(vscode.Uri.file(revisionFile), { preview: true });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Failed to open file at revision');
+        }
+    }
+
+    /**
+     * Undoes the last commit after a modal confirmation. Only unpushed Studio
+     * commits qualify; anything else is reported as an error without changes.
+     *
+     * @param payload - The project whose last commit is undone
+     * @param requestId - The unique ID for the request
+     * @param webview - The Webview instance
+     * @private
+     */
+    private async _handleUndoLastCommit(
+        payload: { projectRoot?: string },
+        requestId: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        try {
+            const workspaceRoot = this._createProjectService().resolveProject(payload.projectRoot).root;
+            const historyService = new CommitHistoryService(
+                new GitCliService(workspaceRoot),
+                new SourcePathService(workspaceRoot)
+            );
+            const head = await historyService.getUndoableCommit();
+
+            const edited = head.modifiedFiles;
+            const listed = edited.slice(0, MAX_LISTED_FILES);
+            const details = [
+                edited.length > 0
+                    ? `These files have been edited since the commit; undoing discards those edits:\n${listed.join('\n')}` +
+                      (edited.length > listed.length ? `\n…and ${edited.length - listed.length} more` : '')
+                    : '',
+                head.stashes.length > 0
+                    ? `Local edits stashed before a retrieve stay in the stash; run "git stash pop" to bring them back:\n${head.stashes.join('\n')}`
+                    : '',
+            ].filter(detail => detail.length > 0);
+            const confirmLabel = edited.length > 0 ? 'Discard Edits and Undo' : 'Undo';
+            const answer = await vscode.window.showWarningMessage(
+                `Undo commit ${head.hash.slice(0, 7)} "${head.subject}"? The files it changed will be restored to their previous contents.`,
+                { modal: true, detail: details.join('\n\n') || undefined },
+                confirmLabel
+            );
+            if (answer !== confirmLabel) {
+                webview.postMessage({ command: 'undoResult', payload: { success: false }, requestId });
+                return;
+            }
+
+            const result = await historyService.undoLastCommit({ discardLocalChanges: edited.length > 0 });
+            webview.postMessage({
+                command: 'undoResult',
+                payload: {
+                    success: true,
+                    commit: result.hash.slice(0, 7),
+                    filesRestored: result.restoredFiles.length,
+                    filesRemoved: result.removedFiles.length,
+                    stashes: result.stashes.length > 0 ? result.stashes : undefined,
+                },
+                requestId,
+            });
+        } catch (error: unknown) {
+            this._sendError(webview, requestId, error, 'Cannot undo the last commit');
+        }
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Creates a ProjectService over the open workspace folders. Folders are
+     * read on every call so that added or removed folders are picked up.
+     *
+     * @returns The project service
+     * @private
+     */
+    private _createProjectService(): ProjectService {
+        return new ProjectService(
+            (vscode.workspace.workspaceFolders ?? []).map(folder => ({
+                name: folder.name,
+                path: folder.uri.fsPath,
+            }))
+        );
+    }
+
+    /**
+     * Maps selected IDs back to MetadataChange objects from the cache.
+     * Uses a Set for O(1) lookups instead of Array.includes O(n).
+     *
+     * @param selectedIds - List of IDs to resolve
+     * @returns List of resolved MetadataChange objects
+     * @throws Error if no items match the IDs
+     * @private
+     */
+    private _resolveSelectedItems(selectedIds: string[]): MetadataChange[] {
+        const idSet = new Set(selectedIds);
+        const items = this._cache.getItems().filter(item => idSet.has(item.id));
+
+        if (items.length === 0) {
+            throw new Error(
+                'No items found matching your selection. ' +
+                'The metadata may have been refreshed — please re-select and try again.'
+            );
+        }
+
+        return items;
+    }
+
+    /**
+     * Retrieves metadata from Salesforce into the project's package directories.
+     * Failures are returned in the result, not thrown, so the caller can map
+     * them back to the components that failed.
+     *
+     * `sf` always puts new components in the default package directory, so
+     * for any other directory the metadata is retrieved into a scratch folder
+     * first and copied into place: existing files keep their location, new
+     * ones land in `packageDirectory`, and container files such as
+     * CustomLabels are merged into the project's copies. If any retrieved
+     * file cannot be placed, nothing is copied and the retrieve fails.
+     *
+     * With `scopePermissions`, only the entries of Profiles and PermissionSets
+     * for the other retrieved components are merged into the project's copies:
+     * in the scratch folder for another package directory, or by rewriting
+     * the files `sf` wrote when retrieving into the default one.
+     *
+     * @param project - The project to retrieve into
+     * @param packageDirectory - Package directory for new components
+     * @param items - Items to retrieve
+     * @param targetOrg - Optional alias/username for the target Org
+     * @param signal - Aborting it kills the `sf` process
+     * @param scopePermissions - Merge only the permission entries of the other items
+     * @returns The retrieval result
+     * @throws AbortError if the signal is aborted
+     * @private
+     */
+    private async _retrieveMetadata(
+        project: ProjectInfo,
+        packageDirectory: string | undefined,
+        items: MetadataChange[],
+        targetOrg: string | undefined,
+        signal: AbortSignal,
+        scopePermissions = false
+    ): Promise<RetrieveResult> {
+        const uniqueMetadata = this._formatMetadataArgs(new RetrieveService(), items);
+        const sfCli = new SfCliService(project.root);
+        const sourcePathService = new SourcePathService(project.root);
+        const permissionMerge = scopePermissions
+            ? this._createPermissionMerge(project.root, sourcePathService, items)
+            : undefined;
+        if (!packageDirectory || packageDirectory === project.defaultPackageDirectory) {
+            // `sf` places everything itself; only Profiles and PermissionSets need scoping afterwards
+            const localCopies = permissionMerge?.readLocalCopies(
+                items.filter(item => PERMISSION_CONTAINER_TYPES.has(item.type))
+            );
+            const result = await sfCli.retrieve(uniqueMetadata, targetOrg, signal);
+            if (permissionMerge && localCopies) {
+                permissionMerge.scopeRetrieved(result.retrievedItems, localCopies);
+            }
+            return result;
+        }
+
+        const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sf-commit-studio-retrieve-'));
+        try {
+            const result = await sfCli.retrieveToDirectory(uniqueMetadata, scratchDir, targetOrg, signal);
+            signal.throwIfAborted();
+
+            const previewService = new PreviewService(project.root, sourcePathService);
+            let files = previewService.compare(scratchDir, result.retrievedItems, packageDirectory);
+            if (permissionMerge) {
+                files = permissionMerge.scopeFiles(files);
+            }
+            return { ...result, retrievedItems: previewService.apply(files) };
+        } finally {
+            fs.rmSync(scratchDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Creates the merge that narrows retrieved Profiles and PermissionSets
+     * to the entries of the other items.
+     *
+     * @param projectRoot - Root of the project the files are merged into
+     * @param sourcePathService - Identifies the component each file belongs to
+     * @param items - The items being retrieved
+     * @returns The merge, or `undefined` if there are no Profiles or PermissionSets,
+     *   or nothing else to scope them to
+     * @private
+     */
+    private _createPermissionMerge(
+        projectRoot: string,
+        sourcePathService: SourcePathService,
+        items: MetadataChange[]
+    ): PermissionMergeService | undefined {
+        const scope = items.filter(item => !PERMISSION_CONTAINER_TYPES.has(item.type));
+        if (scope.length === 0 || scope.length === items.length) {
+            return undefined;
+        }
+        return new PermissionMergeService(projectRoot, sourcePathService, scope);
+    }
+
+    /**
+     * Starts tracking a cancellable operation. Only one runs at a time,
+     * because the Webview blocks input while an operation is in progress.
+     *
+     * @returns The controller that `cancelOperation` aborts
+     * @private
+     */
+    private _beginOperation(): AbortController {
+        this._operation?.abort();
+        this._operation = new AbortController();
+        return this._operation;
+    }
+
+    /**
+     * Stops tracking an operation, so a later `cancelOperation` no longer affects it.
+     *
+     * @param operation - The controller returned by `_beginOperation`
+     * @private
+     */
+    private _endOperation(operation: AbortController): void {
+        if (this._operation === operation) {
+            this._operation = undefined;
+        }
+    }
+
+    /**
+     * Aborts the running retrieve, if any. The handler that started it
+     * reports the cancellation.
+     *
+     * @private
+     */
+    private _handleCancelOperation(): void {
+        this._operation?.abort();
+    }
+
+    /**
+     * Checks out the feature branch for a User Story, creating it from
+     * `baseBranch` (or the current branch) when it does not exist yet.
+     * Refuses to switch while tracked files have uncommitted changes,
+     * so the checkout can never fail half-way or carry unrelated edits along.
+     *
+     * @param workspaceRoot - The path to the workspace root
+     * @param userStoryRef - The User Story reference used to name the branch
+     * @param baseBranch - Optional branch to create the feature branch from
+     * @param webview - The Webview instance (for progress updates)
+     * @returns The name of the checked-out branch
+     * @throws Error if no story ref is given or the working tree is dirty
+     * @private
+     */
+    private async _checkoutFeatureBranch(
+        workspaceRoot: string,
+        userStoryRef: string | undefined,
+        baseBranch: string | undefined,
+        webview: vscode.Webview
+    ): Promise<string> {
+        const storyRef = userStoryRef?.trim();
+        if (!storyRef) {
+            throw new Error('A User Story Ref is required to create a feature branch.');
+        }
+
+        const { branchPattern } = this._settingsService.read();
+        const branch = branchPattern.split('{story}').join(storyRef);
+        const gitCli = new GitCliService(workspaceRoot);
+
+        if ((await gitCli.getCurrentBranch()) === branch) {
+            return branch;
+        }
+
+        if (await gitCli.hasUncommittedChanges()) {
+            throw new Error(
+                `Cannot switch to branch "${branch}" because the working tree has uncommitted changes. ` +
+                'Commit or stash them, then try again.'
+            );
+        }
+
+        this._sendProgress(webview, 'Switching branch...', branch);
+        await gitCli.checkoutBranch(branch, baseBranch?.trim() || undefined);
+        return branch;
+    }
+
+    /**
+     * Pushes the branch to the remote with upstream tracking and reports
+     * git's output as progress.
+     *
+     * @param workspaceRoot - The path to the workspace root
+     * @param remote - The remote to push to
+     * @param branch - The branch to push
+     * @param webview - The Webview instance (for progress updates)
+     * @throws Error stating that the commit succeeded but the push failed
+     * @private
+     */
+    private async _pushBranch(
+        workspaceRoot: string,
+        remote: string,
+        branch: string,
+        webview: vscode.Webview
+    ): Promise<void> {
+        this._sendProgress(webview, 'Pushing...', `${remote}/${branch}`);
+        try {
+            const output = await new GitCliService(workspaceRoot).push(remote, branch);
+            const lastLine = output.split('\n').filter(line => line.trim()).pop();
+            this._sendProgress(webview, 'Pushed', lastLine);
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`The commit succeeded, but pushing to "${remote}" failed: ${reason}`);
+        }
+    }
+
+    /**
+     * Writes a Markdown pull request description listing the committed
+     * components and opens it in an editor.
+     *
+     * @param workspaceRoot - The path to the workspace root
+     * @param details - The commit details to describe
+     * @returns The project-relative path of the written file
+     * @private
+     */
+    private _writePullRequestDescription(
+        workspaceRoot: string,
+        details: {
+            branch: string;
+            commit: string;
+            message: string;
+            userStoryRef?: string;
+            items: MetadataChange[];
+        }
+    ): string {
+        const lines = [`# ${details.message.split('\n')[0]}`, ''];
+        if (details.userStoryRef?.trim()) {
+            lines.push(`**User Story:** ${details.userStoryRef.trim()}`, '');
+        }
+        lines.push(
+            `**Branch:** \`${details.branch}\` (commit \`${details.commit}\`)`,
+            '',
+            '## Components',
+            '',
+            '| Type | Name | Change | Last Modified By |',
+            '| --- | --- | --- | --- |',
+            ...details.items.map(item =>
+                `| ${item.type} | ${item.componentName} | ${item.changeKind ?? 'Modified'} | ${item.modifiedBy} |`
+            ),
+            ''
+        );
+
+        const fileName = `${details.branch.replace(/[^\w.-]+/g, '-')}.md`;
+        const relativePath = path.join(PULL_REQUEST_DIR, fileName);
+        const fullPath = path.join(workspaceRoot, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, lines.join('\n'));
+
+        void vscode.window.showTextDocument(vscode.Uri.file(fullPath), { preview: false });
+        return relativePath;
+    }
+
+    /**
+     * Formats items as unique `--metadata` arguments for a retrieve.
+     *
+     * @param retrieveService - Instance of RetrieveService
+     * @param items - Items to format
+     * @returns Deduplicated `Type:Name` strings
+     * @private
+     */
+    private _formatMetadataArgs(retrieveService: RetrieveService, items: MetadataChange[]): string[] {
+        const metadataArgs = items.map(item =>
+            retrieveService.formatMetadata(item.type, item.componentName)
+        );
+        return [...new Set(metadataArgs)];
+    }
+
+    /**
+     * Puts back the files written by a retrieve that is not committed:
+     * tracked files get their staged content back and files the retrieve
+     * created are deleted.
+     *
+     * @param gitCli - Git commands for the project
+     * @param workspaceRoot - The path to the workspace root
+     * @param files - The retrieved files, absolute or relative to the workspace root
+     * @returns The reverted files, relative to the workspace root
+     * @private
+     */
+    private async _revertRetrievedFiles(
+        gitCli: GitCliService,
+        workspaceRoot: string,
+        files: string[]
+    ): Promise<string[]> {
+        const relative = files.map(file =>
+            path.relative(workspaceRoot, path.resolve(workspaceRoot, file)).split(path.sep).join('/')
+        );
+        const tracked = new Set(await gitCli.getTrackedFiles(relative));
+        await gitCli.restoreWorktree([...tracked]);
+        for (const file of relative.filter(file => !tracked.has(file))) {
+            fs.rmSync(path.join(workspaceRoot, file), { force: true });
+        }
+        return relative;
+    }
+
+    /**
+     * Removes the source files of deleted components with `git rm`.
+     *
+     * @param workspaceRoot - The path to the workspace root
+     * @param items - The deleted components to process
+     * @returns The source files removed, relative to the workspace root
+     * @private
+     */
+    private async _stageDeletions(workspaceRoot: string, items: MetadataChange[]): Promise<string[]> {
+        const sourcePathService = new SourcePathService(workspaceRoot);
+        const paths = items.flatMap(item =>
+            sourcePathService.findFilesToDelete(item.type, item.componentName)
+        );
+        await new GitCliService(workspaceRoot).remove(paths);
+        return paths;
+    }
+
+    /**
+     * Creates the selection set store of a project.
+     *
+     * @param projectRoot - Root of the requested project (defaults to the first project)
+     * @returns The store
+     * @throws Error if the project is not a Salesforce project in the workspace
+     * @private
+     */
+    private _createSelectionSetService(projectRoot: string | undefined): SelectionSetService {
+        const project = this._createProjectService().resolveProject(projectRoot);
+        return new SelectionSetService(project.root, this._workspaceState);
+    }
+
+    /**
+     * Creates the User Story Ref validator configured by the `story.*` settings.
+     *
+     * @param settings - The current settings
+     * @returns The validator
+     * @throws Error if the `story.pattern` setting is not a valid regular expression
+     * @private
+     */
+    private _createUserStoryService(settings: StudioSettings): UserStoryService {
+        return new UserStoryService({ pattern: settings.storyPattern, required: settings.storyRequired });
+    }
+
+    /**
+     * Creates the commit message builder configured by the `commit.*` settings.
+     * With the defaults it produces `[US-0000275] message`.
+     *
+     * @param settings - The current settings
+     * @returns The message template
+     * @private
+     */
+    private _createMessageTemplate(settings: StudioSettings): CommitMessageTemplate {
+        return new CommitMessageTemplate({
+            template: settings.messageTemplate,
+            storyPrefixFormat: settings.storyPrefixFormat,
+            listComponents: settings.listComponentsInBody,
+            conventionalCommits: settings.conventionalCommits,
+        });
     }
 
     /**
@@ -0,0 +1,546 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A commit as read by `GitCliService.log`.
+ */
+export interface GitLogEntry {
+    /** Full commit hash. */
+    hash: string;
+    /** Author name. */
+    author: string;
+    /** Author date (ISO 8601). */
+    date: string;
+    /** First line of the commit message. */
+    subject: string;
+    /** Trailer values keyed by trailer name (a key may repeat). */
+    trailers: Record<string, string[]>;
+    /** Paths changed by the commit, relative to the working directory. */
+    files: string[];
+}
+
+/**
+ * A file changed by a commit, as listed by `GitCliService.getCommitChanges`.
+ */
+export interface GitFileChange {
+    /** `A` (added), `M` (modified) or `D` (deleted); other git statuses are reported as-is. */
+    status: string;
+    /** Path relative to the working directory. */
+    path: string;
+}
+
+/** Separates commits in `git log` output. */
+const RECORD_SEPARATOR = '\x1e';
+/** Separates fields within a commit in `git log` output. */
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Thin wrapper around the `git` command line for operations that the
+ * `@evan-hyer/track-changes` GitService does not provide.
+ *
+ * Every command runs with `execFile` (no shell) inside the working
+ * directory, normally the Salesforce project root. The project may be a
+ * subdirectory of the repository (e.g. in a monorepo), so every path taken
+ * or returned is relative to the working directory, never to the
+ * repository root; files outside it are returned as `../` paths.
+ */
+export class GitCliService {
+    private readonly _workingDir: string;
+    private _prefix?: Promise<string>;
+
+    /**
+     * Creates a new GitCliService.
+     *
+     * @param workingDir - Absolute path to the directory to run git in; may be below the repository root
+     */
+    constructor(workingDir: string) {
+        this._workingDir = workingDir;
+    }
+
+    /**
+     * Removes files from the working tree and stages the deletion (`git rm`).
+     * Paths that are not tracked are ignored rather than failing the whole call.
+     *
+     * @param paths - Paths relative to the working directory
+     * @param options - Set `force` to remove files whose staged content differs from HEAD
+     * @returns A promise that resolves once the files are removed
+     */
+    public async remove(paths: string[], options: { force?: boolean } = {}): Promise<void> {
+        if (paths.length === 0) {
+            return;
+        }
+        const args = ['rm', '--quiet', '--ignore-unmatch'];
+        if (options.force) {
+            args.push('--force');
+        }
+        await this._run([...args, '--', ...paths]);
+    }
+
+    /**
+     * Restores files in both the index and the working tree from a revision
+     * (`git restore --staged --worktree`).
+     *
+     * @param paths - Paths relative to the working directory; each must exist at `source`
+     * @param source - The revision to restore from
+     * @returns A promise that resolves once the files are restored
+     */
+    public async restore(paths: string[], source: string): Promise<void> {
+        if (paths.length === 0) {
+            return;
+        }
+        await this._run(['restore', `--source=${source}`, '--staged', '--worktree', '--', ...paths]);
+    }
+
+    /**
+     * Discards working-tree changes to files, returning them to their
+     * staged content (`git restore --worktree`).
+     *
+     * @param paths - Tracked paths relative to the working directory
+     * @returns A promise that resolves once the files are restored
+     */
+    public async restoreWorktree(paths: string[]): Promise<void> {
+        if (paths.length === 0) {
+            return;
+        }
+        await this._run(['restore', '--worktree', '--', ...paths]);
+    }
+
+    /**
+     * Moves the current branch to another commit, keeping the index and
+     * working tree untouched (`git reset --soft`).
+     *
+     * @param revision - The commit to move to
+     * @returns A promise that resolves once the branch has moved
+     */
+    public async resetSoft(revision: string): Promise<void> {
+        await this._run(['reset', '--quiet', '--soft', revision]);
+    }
+
+    /**
+     * Lists the files a commit changed relative to its first parent.
+     * Renames are reported as a deletion plus an addition.
+     *
+     * @param revision - The commit to inspect
+     * @returns One entry per changed file
+     */
+    public async getCommitChanges(revision: string): Promise<GitFileChange[]> {
+        const output = await this._run([
+            'diff-tree', '-z', '--no-commit-id', '--root', '-r', '--no-renames', '--name-status', revision,
+        ]);
+        // `-z` output alternates status and path: `M\0path\0A\0path\0`
+        const fields = output.split('\0');
+        const changes: GitFileChange[] = [];
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            changes.push({ status: fields[i], path: fields[i + 1] });
+        }
+        const paths = await this._fromRepoRoot(changes.map(change => change.path));
+        return changes.map((change, index) => ({ ...change, path: paths[index] }));
+    }
+
+    /**
+     * Checks whether a commit has already been pushed: either a
+     * remote-tracking branch contains it (as far as the last fetch knows),
+     * or the branch's upstream contains it. The upstream is asked directly
+     * (`git ls-remote`), because a push to a URL or path remote creates no
+     * remote-tracking branch.
+     *
+     * @param revision - The commit to check
+     * @returns True if the commit is on a remote
+     * @throws Error if the upstream cannot be reached, or its tip is not
+     *   available locally to tell whether it contains the commit
+     */
+    public async isPushed(revision: string): Promise<boolean> {
+        const output = await this._run(['branch', '--remotes', '--contains', revision]);
+        if (output.trim().length > 0) {
+            return true;
+        }
+
+        const branch = await this.getCurrentBranch();
+        const remote = await this.getConfig(`branch.${branch}.remote`);
+        const mergeRef = await this.getConfig(`branch.${branch}.merge`);
+        if (!remote || remote === '.' || !mergeRef) {
+            return false;
+        }
+
+        let remoteTip: string;
+        try {
+            remoteTip = (await this._run(['ls-remote', remote, mergeRef])).split('\t')[0].trim();
+        } catch (error) {
+            throw new Error(
+                `Could not tell whether ${branch} was pushed: ${remote} cannot be reached. ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+        if (!remoteTip) {
+            // The upstream branch does not exist (yet) on the remote
+            return false;
+        }
+
+        const hash = (await this._run(['rev-parse', revision])).trim();
+        if (remoteTip === hash) {
+            return true;
+        }
+        try {
+            await this._run(['merge-base', '--is-ancestor', hash, remoteTip]);
+            return true;
+        } catch (error) {
+            // Exit code 1 means "not an ancestor"; anything else (e.g. an unknown object) is inconclusive
+            if ((error as { code?: unknown }).code === 1) {
+                return false;
+            }
+            throw new Error(
+                `Could not tell whether ${branch} was pushed: ${remote} has commits that are not available locally. Fetch them and try again.`
+            );
+        }
+    }
+
+    /**
+     * Returns the name of the checked-out branch.
+     *
+     * @returns The branch name, or `HEAD` when detached
+     */
+    public async getCurrentBranch(): Promise<string> {
+        return (await this._run(['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    }
+
+    /**
+     * Checks whether a local branch exists.
+     *
+     * @param branch - The branch name
+     * @returns True if `refs/heads/<branch>` exists
+     */
+    public async branchExists(branch: string): Promise<boolean> {
+        try {
+            await this._run(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Checks whether tracked files have uncommitted (staged or unstaged) changes.
+     * Untracked files are ignored because they never block a checkout on their own.
+     *
+     * @returns True if the working tree or index differs from HEAD
+     */
+    public async hasUncommittedChanges(): Promise<boolean> {
+        const status = await this._run(['status', '--porcelain', '--untracked-files=no']);
+        return status.trim().length > 0;
+    }
+
+    /**
+     * Lists which of the given files have uncommitted changes: staged or
+     * unstaged edits, deletions, and untracked files that are not ignored.
+     *
+     * @param paths - Paths relative to the working directory
+     * @returns The changed paths, relative to the working directory
+     */
+    public async getModifiedFiles(paths: string[]): Promise<string[]> {
+        if (paths.length === 0) {
+            return [];
+        }
+        const output = await this._run([
+            'status', '--porcelain', '-z', '--no-renames', '--untracked-files=all', '--', ...paths,
+        ]);
+        // Each entry is `XY <path>`, with the path relative to the repository root
+        return this._fromRepoRoot(output.split('\0').filter(entry => entry.length > 3).map(entry => entry.slice(3)));
+    }
+
+    /**
+     * Stashes the changes to some files (`git stash push -- <paths>`),
+     * including untracked ones, and leaves every other file as it is.
+     *
+     * @param paths - Paths relative to the working directory
+     * @param message - Description shown by `git stash list`
+     * @returns A promise that resolves once the changes are stashed
+     */
+    public async stashPush(paths: string[], message: string): Promise<void> {
+        await this._run(['stash', 'push', '--include-untracked', '-m', message, '--', ...paths]);
+    }
+
+    /**
+     * Lists the stash entries, newest first.
+     *
+     * @returns One `stash@{n}: <description>` line per entry
+     */
+    public async listStashes(): Promise<string[]> {
+        const output = await this._run(['stash', 'list', '--format=%gd: %gs']);
+        return output.split('\n').filter(line => line.trim().length > 0);
+    }
+
+    /**
+     * Lists which of the given files are tracked by git.
+     *
+     * @param paths - Paths relative to the working directory
+     * @returns The tracked paths, relative to the working directory
+     */
+    public async getTrackedFiles(paths: string[]): Promise<string[]> {
+        if (paths.length === 0) {
+            return [];
+        }
+        const output = await this._run(['ls-files', '-z', '--', ...paths]);
+        return output.split('\0').filter(file => file.length > 0);
+    }
+
+    /**
+     * Finds the date of the last commit that touched each of the given files.
+     *
+     * @param paths - Paths relative to the working directory
+     * @returns Committer dates (ISO 8601) keyed by path; files never committed are absent
+     */
+    public async getLastCommitDates(paths: string[]): Promise<Map<string, string>> {
+        const dates = new Map<string, string>();
+        if (paths.length === 0) {
+            return dates;
+        }
+
+        let output: string;
+        try {
+            output = await this._run(['log', '-z', '--format=%x1e%cI', '--name-only', '--no-renames', '--', ...paths]);
+        } catch {
+            // `git log` fails on a repository without commits
+            return dates;
+        }
+
+        // Newest first, so the first date seen for a file is its last commit
+        const prefix = await this._getPrefix();
+        for (const record of output.split(RECORD_SEPARATOR).filter(record => record.length > 0)) {
+            const headerEnd = record.indexOf('\0');
+            const date = record.slice(0, headerEnd);
+            for (const file of this._relativeTo(prefix, this._splitNameOnly(record.slice(headerEnd)))) {
+                if (!dates.has(file)) {
+                    dates.set(file, date);
+                }
+            }
+        }
+        return dates;
+    }
+
+    /**
+     * Reads a Git configuration value, e.g. `user.name`.
+     *
+     * @param key - The configuration key
+     * @returns The value, or an empty string if it is not set
+     */
+    public async getConfig(key: string): Promise<string> {
+        try {
+            return (await this._run(['config', '--get', key])).trim();
+        } catch {
+            // `git config --get` exits with 1 when the key is not set
+            return '';
+        }
+    }
+
+    /**
+     * Lists the files whose staged content differs from HEAD.
+     *
+     * @returns Paths relative to the working directory
+     */
+    public async getStagedFiles(): Promise<string[]> {
+        const output = await this._run(['diff', '--cached', '--name-only', '-z']);
+        return this._fromRepoRoot(output.split('\0').filter(file => file.length > 0));
+    }
+
+    /**
+     * Commits only the given paths (`git commit --only`). Anything else in
+     * the index stays staged and is left out of the commit.
+     *
+     * @param paths - Staged paths relative to the working directory
+     * @param message - The full commit message
+     * @param author - Commit author in `Name <email>` form (defaults to the git user)
+     * @returns The new commit's hash
+     * @throws Error if no path is given or git refuses the commit
+     */
+    public async commitOnly(paths: string[], message: string, author?: string): Promise<string> {
+        if (paths.length === 0) {
+            throw new Error('Nothing to commit: no files were staged.');
+        }
+        const args = ['commit', '--only', '--quiet', '-m', message];
+        if (author) {
+            args.push(`--author=${author}`);
+        }
+        await this._run([...args, '--', ...paths]);
+        return (await this._run(['rev-parse', 'HEAD'])).trim();
+    }
+
+    /**
+     * Checks out an existing branch, or creates it from `startPoint` first.
+     *
+     * @param branch - The branch to switch to
+     * @param startPoint - Branch or commit to create a new branch from (defaults to HEAD)
+     * @returns True if the branch was newly created
+     * @throws Error if the name is not a valid branch name or the checkout fails
+     */
+    public async checkoutBranch(branch: string, startPoint?: string): Promise<boolean> {
+        try {
+            await this._run(['check-ref-format', '--branch', branch]);
+        } catch {
+            throw new Error(`"${branch}" is not a valid Git branch name.`);
+        }
+
+        if (await this.branchExists(branch)) {
+            await this._run(['checkout', '--quiet', branch]);
+            return false;
+        }
+
+        const args = ['checkout', '--quiet', '-b', branch];
+        if (startPoint) {
+            args.push(startPoint);
+        }
+        await this._run(args);
+        return true;
+    }
+
+    /**
+     * Reads commits reachable from HEAD, newest first, with their trailers
+     * and changed files.
+     *
+     * @param options - Maximum number of commits and an optional message pattern (`--grep`)
+     * @returns The matching commits; empty if the repository has no commits yet
+     */
+    public async log(options: { maxCount: number; grep?: string }): Promise<GitLogEntry[]> {
+        const format = ['%x1e%H', '%an', '%aI', '%s', '%(trailers:only,unfold)', ''].join('%x1f');
+        const args = ['log', `--max-count=${options.maxCount}`, `--format=${format}`, '--name-only', '-z'];
+        if (options.grep) {
+            args.push(`--grep=${options.grep}`);
+        }
+
+        let output: string;
+        try {
+            output = await this._run(args);
+        } catch {
+            // `git log` fails on a repository without commits
+            return [];
+        }
+
+        const prefix = await this._getPrefix();
+        return output
+            .split(RECORD_SEPARATOR)
+            .filter(record => record.trim().length > 0)
+            .map(record => {
+                const [hash, author, date, subject, trailerBlock, fileBlock] = record.split(FIELD_SEPARATOR);
+                const trailers: Record<string, string[]> = {};
+                for (const line of trailerBlock.split('\n')) {
+                    const separator = line.indexOf(': ');
+                    if (separator > 0) {
+                        const key = line.slice(0, separator);
+                        (trailers[key] ??= []).push(line.slice(separator + 2).trim());
+                    }
+                }
+                return {
+                    hash,
+                    author,
+                    date,
+                    subject,
+                    trailers,
+                    files: this._relativeTo(prefix, this._splitNameOnly(fileBlock ?? '')),
+                };
+            });
+    }
+
+    /**
+     * Returns the contents of a file at a given revision (`git show <rev>:<path>`).
+     *
+     * @param revision - A commit hash or other revision
+     * @param filePath - Path relative to the working directory
+     * @returns The file contents
+     */
+    public async showFile(revision: string, filePath: string): Promise<string> {
+        // `./` makes git resolve the path from the working directory instead of the repository root
+        return this._run(['show', `${revision}:./${filePath}`]);
+    }
+
+    /**
+     * Pushes a branch and sets it as the upstream of the local branch.
+     *
+     * @param remote - Remote name or URL (any git remote, including a local bare repository)
+     * @param branch - The local branch to push
+     * @returns The combined output of `git push` (git reports progress on stderr)
+     */
+    public async push(remote: string, branch: string): Promise<string> {
+        const { stdout, stderr } = await this._exec(['push', '--set-upstream', remote, branch]);
+        return [stdout, stderr].filter(s => s.trim().length > 0).join('\n').trim();
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Splits the file list that `git log -z --name-only` prints after a
+     * commit's formatted header: a NUL, a newline, then NUL-terminated paths.
+     *
+     * @param block - The output following the header
+     * @returns The paths, unquoted
+     * @private
+     */
+    private _splitNameOnly(block: string): string[] {
+        return block.replace(/^\0\n?/, '').split('\0').filter(file => file.length > 0);
+    }
+
+    /**
+     * Converts paths that git reports relative to the repository root
+     * (`status`, `diff`, `log`) to paths relative to the working directory.
+     *
+     * @param files - Paths relative to the repository root
+     * @returns The same paths relative to the working directory
+     * @private
+     */
+    private async _fromRepoRoot(files: string[]): Promise<string[]> {
+        return files.length > 0 ? this._relativeTo(await this._getPrefix(), files) : files;
+    }
+
+    /**
+     * Strips the working directory's path inside the repository from
+     * repository-relative paths.
+     *
+     * @param prefix - The working directory relative to the repository root, e.g. `apps/sales/`
+     * @param files - Paths relative to the repository root
+     * @returns The same paths relative to the working directory
+     * @private
+     */
+    private _relativeTo(prefix: string, files: string[]): string[] {
+        if (!prefix) {
+            return files;
+        }
+        const up = '../'.repeat(prefix.split('/').filter(segment => segment.length > 0).length);
+        return files.map(file => file.startsWith(prefix) ? file.slice(prefix.length) : up + file);
+    }
+
+    /**
+     * Returns the working directory's path inside the repository
+     * (`git rev-parse --show-prefix`), looked up once per service.
+     *
+     * @returns The path with a trailing slash, or an empty string at the repository root
+     * @private
+     */
+    private async _getPrefix(): Promise<string> {
+        this._prefix ??= this._run(['rev-parse', '--show-prefix']).then(output => output.trim());
+        return this._prefix;
+    }
+
+    /**
+     * Runs a git command in the working directory.
+     *
+     * @param args - Arguments passed to `git`
+     * @returns The command's standard output
+     * @private
+     */
+    private async _run(args: string[]): Promise<string> {
+        return (await this._exec(args)).stdout;
+    }
+
+    /**
+     * Runs a git command in the working directory and returns both output streams.
+     *
+     * @param args - Arguments passed to `git`
+     * @returns The command's standard output and standard error
+     * @private
+     */
+    private async _exec(args: string[]): Promise<{ stdout: string; stderr: string }> {
+        return execFileAsync('git', args, {
+            cwd: this._workingDir,
+            maxBuffer: 64 * 1024 * 1024,
+        });
+    }
+}
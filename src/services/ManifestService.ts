@@ -0,0 +1,217 @@
+import type { ComponentRef, MetadataChange } from '../types.js';
+
+/**
+ * Member that stands for every component of its type.
+ */
+const WILDCARD = '*';
+
+/**
+ * An in-memory representation of a `package.xml`-style manifest.
+ */
+export interface PackageManifest {
+    /** Member names keyed by metadata type. */
+    types: Map<string, Set<string>>;
+    /** The API version declared in the manifest, if any. */
+    version?: string;
+}
+
+/**
+ * Reads, merges and writes Metadata API manifests
+ * (`package.xml`, `destructiveChanges.xml`).
+ *
+ * Manifests have a fixed, shallow structure, so they are handled with
+ * targeted parsing rather than a general-purpose XML library.
+ */
+export class ManifestService {
+    /**
+     * Parses the `<types>` entries and `<version>` of a manifest.
+     *
+     * @param xml - The manifest file contents
+     * @returns The parsed manifest
+     */
+    public parse(xml: string): PackageManifest {
+        const types = new Map<string, Set<string>>();
+
+        for (const block of xml.match(/<types>[\s\S]*?<\/types>/g) ?? []) {
+            const name = /<name>([\s\S]*?)<\/name>/.exec(block)?.[1].trim();
+            if (!name) {
+                continue;
+            }
+            const members = types.get(name) ?? new Set<string>();
+            for (const match of block.matchAll(/<members>([\s\S]*?)<\/members>/g)) {
+                members.add(this._unescapeXml(match[1].trim()));
+            }
+            types.set(name, members);
+        }
+
+        const version = /<version>([\s\S]*?)<\/version>/.exec(xml)?.[1].trim();
+        return { types, version };
+    }
+
+    /**
+     * Adds components to a manifest, ignoring duplicates.
+     *
+     * @param manifest - The manifest to update in place
+     * @param components - The `type`/`name` pairs to add
+     * @returns The same manifest, for chaining
+     */
+    public addMembers(
+        manifest: PackageManifest,
+        components: { type: string; name: string }[]
+    ): PackageManifest {
+        for (const { type, name } of components) {
+            const members = manifest.types.get(type) ?? new Set<string>();
+            members.add(name);
+            manifest.types.set(type, members);
+        }
+        return manifest;
+    }
+
+    /**
+     * Removes components from a manifest. Types left without members are
+     * dropped.
+     *
+     * @param manifest - The manifest to update in place
+     * @param components - The `type`/`name` pairs to remove
+     * @returns The same manifest, for chaining
+     */
+    public removeMembers(
+        manifest: PackageManifest,
+        components: { type: string; name: string }[]
+    ): PackageManifest {
+        for (const { type, name } of components) {
+            const members = manifest.types.get(type);
+            members?.delete(name);
+            if (members?.size === 0) {
+                manifest.types.delete(type);
+            }
+        }
+        return manifest;
+    }
+
+    /**
+     * Brings a `destructiveChanges.xml` in line with a commit: deleted
+     * components are added (creating the manifest if there is none) and
+     * components committed live are removed, so a component that was
+     * deleted and then recreated in the Org is not deleted again by the
+     * next destructive deploy.
+     *
+     * @param existingXml - The current manifest, or `undefined` if there is no file
+     * @param deleted - The `type`/`name` pairs of deleted components being committed
+     * @param live - The `type`/`name` pairs of live components being committed
+     * @returns The manifest to write, or `undefined` if the file should be left as it is
+     */
+    public updateDestructiveChanges(
+        existingXml: string | undefined,
+        deleted: { type: string; name: string }[],
+        live: { type: string; name: string }[]
+    ): string | undefined {
+        if (existingXml === undefined && deleted.length === 0) {
+            return undefined;
+        }
+
+        const manifest = existingXml !== undefined
+            ? this.parse(existingXml)
+            : { types: new Map<string, Set<string>>() };
+        this.removeMembers(manifest, live);
+        this.addMembers(manifest, deleted);
+
+        const xml = this.build(manifest);
+        return xml === existingXml ? undefined : xml;
+    }
+
+    /**
+     * Finds the fetched components a manifest lists. A `*` member matches
+     * every component of its type.
+     *
+     * @param manifest - The parsed manifest
+     * @param items - The changes currently fetched from the Org
+     * @returns The ids of the matching rows, and the members no row matched
+     *   (a wildcard type without rows is reported as `*`)
+     */
+    public match(
+        manifest: PackageManifest,
+        items: MetadataChange[]
+    ): { selectedIds: string[]; missing: ComponentRef[] } {
+        const selectedIds: string[] = [];
+        const missing: ComponentRef[] = [];
+
+        for (const [type, members] of manifest.types) {
+            const rows = items.filter(item => item.type === type);
+            for (const member of members) {
+                const matched = member === WILDCARD ? rows : rows.filter(item => item.componentName === member);
+                if (matched.length === 0) {
+                    missing.push({ type, componentName: member });
+                }
+                selectedIds.push(...matched.map(item => item.id));
+            }
+        }
+
+        return { selectedIds: [...new Set(selectedIds)], missing };
+    }
+
+    /**
+     * Serialises a manifest to XML with types and members sorted alphabetically,
+     * matching the output of the Salesforce CLI.
+     *
+     * @param manifest - The manifest to serialise
+     * @returns The manifest XML
+     */
+    public build(manifest: PackageManifest): string {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<Package xmlns="http://soap.sforce.com/2006/04/metadata">',
+        ];
+
+        const typeNames = [...manifest.types.keys()].sort();
+        for (const type of typeNames) {
+            const members = [...(manifest.types.get(type) ?? [])].sort();
+            if (members.length === 0) {
+                continue;
+            }
+            lines.push('    <types>');
+            for (const member of members) {
+                lines.push(`        <members>${this._escapeXml(member)}</members>`);
+            }
+            lines.push(`        <name>${this._escapeXml(type)}</name>`);
+            lines.push('    </types>');
+        }
+
+        if (manifest.version) {
+            lines.push(`    <version>${this._escapeXml(manifest.version)}</version>`);
+        }
+        lines.push('</Package>');
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Escapes XML special characters in text content.
+     *
+     * @param value - The raw text
+     * @returns The escaped text
+     * @private
+     */
+    private _escapeXml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+    }
+
+    /**
+     * Reverses `_escapeXml` (plus quote entities) when reading members.
+     *
+     * @param value - The escaped text
+     * @returns The raw text
+     * @private
+     */
+    private _unescapeXml(value: string): string {
+        return value
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&');
+    }
+}
@@ -0,0 +1,155 @@
+import type { MetadataChange } from '../types.js';
+
+/**
+ * A completed fetch of one Org, as saved by `MetadataCacheStore`.
+ */
+export interface MetadataSnapshot {
+    /** When the Org was last queried (ISO 8601). */
+    fetchedAt: string;
+    /** The cached changes. */
+    items: MetadataChange[];
+    /** Number of matching changes in the Org at the last full fetch. */
+    total: number;
+}
+
+/**
+ * The metadata changes last fetched from one Org, keyed by `MetadataChange.id`.
+ *
+ * Besides holding the rows the Webview shows, it remembers the newest
+ * `date` seen so that a refresh can ask the Org only for newer changes
+ * and merge them in place.
+ */
+export class MetadataCache {
+    private _org: string | undefined;
+    private _items: MetadataChange[] = [];
+    private _complete = false;
+    private _fetchedAt = '';
+    private _total = 0;
+
+    /**
+     * Returns the cached changes, in the order they were fetched.
+     *
+     * @returns The cached changes
+     */
+    public getItems(): MetadataChange[] {
+        return this._items;
+    }
+
+    /**
+     * Returns the Org the cache holds changes for.
+     *
+     * @returns The Org's username, or `undefined` before the first fetch
+     */
+    public getOrg(): string | undefined {
+        return this._org;
+    }
+
+    /**
+     * Starts a new full fetch for an Org, dropping everything cached so far.
+     * The cache only supports incremental refreshes once `complete()` is called.
+     *
+     * @param org - The username the changes come from
+     */
+    public reset(org: string): void {
+        this._org = org;
+        this._items = [];
+        this._complete = false;
+        this._total = 0;
+    }
+
+    /**
+     * Appends a page of a full fetch.
+     *
+     * @param items - The changes to append
+     */
+    public append(items: MetadataChange[]): void {
+        this._items.push(...items);
+    }
+
+    /**
+     * Marks the current full fetch as finished.
+     *
+     * @param total - Number of matching changes in the Org
+     * @param fetchedAt - When the Org was queried (defaults to now)
+     */
+    public complete(total: number, fetchedAt: string = new Date().toISOString()): void {
+        this._complete = true;
+        this._total = total;
+        this._fetchedAt = fetchedAt;
+    }
+
+    /**
+     * Replaces the cache with a saved snapshot of a completed fetch.
+     *
+     * @param org - The username the snapshot belongs to
+     * @param snapshot - The saved fetch
+     */
+    public restore(org: string, snapshot: MetadataSnapshot): void {
+        this._org = org;
+        this._items = snapshot.items;
+        this._complete = true;
+        this._total = snapshot.total;
+        this._fetchedAt = snapshot.fetchedAt;
+    }
+
+    /**
+     * Returns the cache as a snapshot that can be saved.
+     *
+     * @returns The snapshot, or `undefined` while a full fetch is incomplete
+     */
+    public toSnapshot(): MetadataSnapshot | undefined {
+        if (!this._complete) {
+            return undefined;
+        }
+        return { fetchedAt: this._fetchedAt, items: this._items, total: this._total };
+    }
+
+    /**
+     * Returns the date to query from when refreshing an Org incrementally.
+     *
+     * @param org - The username to refresh
+     * @returns The newest cached `date`, or `undefined` if the Org must be fetched in full
+     */
+    public getWatermark(org: string): string | undefined {
+        if (!this._complete || this._org !== org || this._items.length === 0) {
+            return undefined;
+        }
+        return this._items.reduce((newest, item) => (item.date > newest ? item.date : newest), '');
+    }
+
+    /**
+     * Merges changes from an incremental refresh by `id`. Known components are
+     * updated in place; unknown ones are added.
+     *
+     * @param items - The changes returned since the watermark
+     * @param fetchedAt - When the Org was queried (defaults to now)
+     * @returns The changes that are new or differ from the cached copy
+     */
+    public merge(items: MetadataChange[], fetchedAt: string = new Date().toISOString()): MetadataChange[] {
+        const byId = new Map(this._items.map(item => [item.id, item]));
+        const changed: MetadataChange[] = [];
+        this._fetchedAt = fetchedAt;
+
+        for (const item of items) {
+            const cached = byId.get(item.id);
+            if (!cached) {
+                this._items.push(item);
+                byId.set(item.id, item);
+                changed.push(item);
+                this._total++;
+                continue;
+            }
+
+            if (
+                cached.date !== item.date ||
+                cached.modifiedBy !== item.modifiedBy ||
+                (cached.changeKind ?? 'Modified') !== (item.changeKind ?? 'Modified')
+            ) {
+                Object.assign(cached, item);
+                changed.push(cached);
+            }
+        }
+
+        return changed;
+    }
+}
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MetadataSnapshot } from './MetadataCache.js';
+
+/**
+ * Saves the last completed fetch of each Org as a JSON file, so the grid
+ * can be filled immediately after the panel or VS Code is reopened.
+ *
+ * One file per Org username is kept under `<storageDir>/metadata-cache/`.
+ * Unreadable or corrupt files are treated as a cache miss.
+ */
+export class MetadataCacheStore {
+    private readonly _cacheDir: string;
+
+    /**
+     * Creates a new MetadataCacheStore.
+     *
+     * @param storageDir - Absolute path of the extension's global storage directory
+     */
+    constructor(storageDir: string) {
+        this._cacheDir = path.join(storageDir, 'metadata-cache');
+    }
+
+    /**
+     * Reads the saved fetch of an Org.
+     *
+     * @param username - The Org's username
+     * @returns The snapshot, or `undefined` if none is saved or it cannot be read
+     */
+    public read(username: string): MetadataSnapshot | undefined {
+        try {
+            const snapshot = JSON.parse(fs.readFileSync(this._fileFor(username), 'utf8')) as MetadataSnapshot;
+            return Array.isArray(snapshot.items) && typeof snapshot.fetchedAt === 'string' ? snapshot : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Saves the fetch of an Org, replacing any earlier one.
+     *
+     * @param username - The Org's username
+     * @param snapshot - The completed fetch
+     */
+    public write(username: string, snapshot: MetadataSnapshot): void {
+        fs.mkdirSync(this._cacheDir, { recursive: true });
+        fs.writeFileSync(this._fileFor(username), JSON.stringify(snapshot));
+    }
+
+    /**
+     * Returns the cache file of an Org. Usernames are encoded so that they
+     * are always a single, safe file name.
+     *
+     * @param username - The Org's username
+     * @returns Absolute path of the cache file
+     * @private
+     */
+    private _fileFor(username: string): string {
+        return path.join(this._cacheDir, `${encodeURIComponent(username)}.json`);
+    }
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PreviewFile } from './PreviewService.js';
+import type { SourcePathService } from './SourcePathService.js';
+import type { ComponentRef } from '../types.js';
+
+/**
+ * Metadata types whose retrieve is scoped to the other components it is retrieved with.
+ */
+export const PERMISSION_CONTAINER_TYPES = new Set(['Profile', 'PermissionSet']);
+
+/**
+ * Permission entries of Profiles and PermissionSets: the child elements
+ * that identify an entry, and the metadata type the first one names.
+ */
+const PERMISSION_ENTRIES: Record<string, { keys: string[]; type: string }> = {
+    applicationVisibilities: { keys: ['application'], type: 'CustomApplication' },
+    classAccesses: { keys: ['apexClass'], type: 'ApexClass' },
+    customMetadataTypeAccesses: { keys: ['name'], type: 'CustomObject' },
+    customPermissions: { keys: ['name'], type: 'CustomPermission' },
+    customSettingAccesses: { keys: ['name'], type: 'CustomObject' },
+    fieldPermissions: { keys: ['field'], type: 'CustomField' },
+    flowAccesses: { keys: ['flow'], type: 'Flow' },
+    layoutAssignments: { keys: ['layout', 'recordType'], type: 'Layout' },
+    objectPermissions: { keys: ['object'], type: 'CustomObject' },
+    pageAccesses: { keys: ['apexPage'], type: 'ApexPage' },
+    recordTypeVisibilities: { keys: ['recordType'], type: 'RecordType' },
+    tabSettings: { keys: ['tab'], type: 'CustomTab' },
+    tabVisibilities: { keys: ['tab'], type: 'CustomTab' },
+};
+
+/**
+ * A top-level child element of a Profile or PermissionSet file.
+ */
+interface PermissionElement {
+    /** The element name, e.g. `fieldPermissions`. */
+    tag: string;
+    /** The identifying values joined with `|`; empty for elements that are not permission entries. */
+    key: string;
+    /** The element exactly as written in the file. */
+    xml: string;
+}
+
+/**
+ * Narrows retrieved Profiles and PermissionSets to the permission entries
+ * of the other selected components, so a commit changes only those entries
+ * instead of replacing the whole file.
+ *
+ * When a Profile is retrieved together with, say, a field, the Org returns
+ * the Profile's entries for that field. The retrieved entries in scope are
+ * merged into the project's copy: matching entries are replaced, new ones
+ * are inserted in sorted order, and everything else is left untouched.
+ */
+export class PermissionMergeService {
+    private readonly _projectRoot: string;
+    private readonly _sourcePathService: SourcePathService;
+    private readonly _scope: Set<string>;
+
+    /**
+     * Creates a new PermissionMergeService.
+     *
+     * @param projectRoot - Absolute path to the folder containing `sfdx-project.json`
+     * @param sourcePathService - Identifies the component each file belongs to
+     * @param scope - The other selected components, whose entries are merged
+     */
+    constructor(projectRoot: string, sourcePathService: SourcePathService, scope: ComponentRef[]) {
+        this._projectRoot = projectRoot;
+        this._sourcePathService = sourcePathService;
+        this._scope = new Set(scope.map(c => `${c.type}:${c.componentName}`));
+    }
+
+    /**
+     * Rewrites the retrieved Profile and PermissionSet files in a scratch
+     * directory to the project's copy plus the merged entries, so that
+     * comparing and applying them changes only those entries. Files with no
+     * project copy are kept as retrieved.
+     *
+     * @param files - Output of `PreviewService.compare`
+     * @returns The files, with the status of rewritten files recomputed
+     */
+    public scopeFiles(files: PreviewFile[]): PreviewFile[] {
+        return files.map(file => {
+            const key = this._sourcePathService.keyForPath(file.path);
+            const workspacePath = path.join(this._projectRoot, file.path);
+            if (!key || !PERMISSION_CONTAINER_TYPES.has(key.split(':')[0]) || !fs.existsSync(workspacePath)) {
+                return file;
+            }
+
+            const local = fs.readFileSync(workspacePath, 'utf8');
+            const merged = this.merge(local, fs.readFileSync(file.scratchPath, 'utf8'));
+            fs.writeFileSync(file.scratchPath, merged);
+            return { ...file, status: merged === local ? 'unchanged' : 'modified' };
+        });
+    }
+
+    /**
+     * Reads the project's copies of Profiles and PermissionSets before a
+     * retrieve into the project overwrites them.
+     *
+     * @param containers - The Profiles and PermissionSets being retrieved
+     * @returns File contents keyed by project-relative path
+     */
+    public readLocalCopies(containers: ComponentRef[]): Map<string, string> {
+        const copies = new Map<string, string>();
+        for (const container of containers) {
+            for (const file of this._sourcePathService.findSourceFiles(container.type, container.componentName)) {
+                copies.set(file, fs.readFileSync(path.join(this._projectRoot, file), 'utf8'));
+            }
+        }
+        return copies;
+    }
+
+    /**
+     * Scopes the Profiles and PermissionSets a retrieve wrote into the
+     * project: each file is rewritten to its copy from before the retrieve
+     * plus the merged entries. Files with no earlier copy are kept as retrieved.
+     *
+     * @param retrievedFiles - Absolute or project-relative paths of the retrieved files
+     * @param localCopies - Output of `readLocalCopies`, read before the retrieve
+     */
+    public scopeRetrieved(retrievedFiles: string[], localCopies: Map<string, string>): void {
+        for (const file of retrievedFiles) {
+            const workspacePath = path.resolve(this._projectRoot, file);
+            const local = localCopies.get(path.relative(this._projectRoot, workspacePath).split(path.sep).join('/'));
+            if (local !== undefined && fs.existsSync(workspacePath)) {
+                fs.writeFileSync(workspacePath, this.merge(local, fs.readFileSync(workspacePath, 'utf8')));
+            }
+        }
+    }
+
+    /**
+     * Merges the in-scope permission entries of a retrieved file into the
+     * project's copy.
+     *
+     * @param localXml - The project's copy of the Profile or PermissionSet
+     * @param retrievedXml - The copy retrieved from the Org
+     * @returns The project's copy with the entries merged in
+     */
+    public merge(localXml: string, retrievedXml: string): string {
+        const local = this._parse(localXml);
+        if (!local) {
+            return retrievedXml;
+        }
+
+        for (const entry of this._parse(retrievedXml)?.elements ?? []) {
+            if (!entry.key || !this._inScope(entry)) {
+                continue;
+            }
+
+            const existing = local.elements.findIndex(e => e.tag === entry.tag && e.key === entry.key);
+            if (existing >= 0) {
+                local.elements[existing] = entry;
+                continue;
+            }
+
+            const next = local.elements.findIndex(e =>
+                e.tag > entry.tag || (e.tag === entry.tag && e.key.localeCompare(entry.key) > 0)
+            );
+            local.elements.splice(next >= 0 ? next : local.elements.length, 0, entry);
+        }
+
+        return [local.head, ...local.elements.map(e => `    ${e.xml}`), local.tail].join('\n');
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Decides whether an entry belongs to a selected component. Entries for
+     * an object's children also count when the object itself is selected.
+     *
+     * @param entry - A permission entry
+     * @returns Whether the entry is merged
+     * @private
+     */
+    private _inScope(entry: PermissionElement): boolean {
+        const { type } = PERMISSION_ENTRIES[entry.tag];
+        const name = entry.key.split('|')[0];
+        if (this._scope.has(`${type}:${name}`)) {
+            return true;
+        }
+
+        // `Account.Rating__c`, `Account.Business` and `Account-Account Layout` belong to Account
+        const objectName = entry.tag === 'layoutAssignments' ? name.split('-')[0] : name.split('.')[0];
+        return objectName !== name && this._scope.has(`CustomObject:${objectName}`);
+    }
+
+    /**
+     * Splits a Profile or PermissionSet file into its top-level elements.
+     *
+     * @param xml - The file contents
+     * @returns The text before and after the elements, and the elements;
+     *   `undefined` if the root element cannot be found
+     * @private
+     */
+    private _parse(xml: string): { head: string; elements: PermissionElement[]; tail: string } | undefined {
+        const root = /<(Profile|PermissionSet)\b[^>]*>/.exec(xml);
+        const close = root ? xml.lastIndexOf(`</${root[1]}>`) : -1;
+        if (!root || close < 0) {
+            return undefined;
+        }
+
+        const bodyStart = root.index + root[0].length;
+        const body = xml.slice(bodyStart, close);
+        const elements: PermissionElement[] = [];
+        const element = /<(\w+)>[\s\S]*?<\/\1>/g;
+        for (const match of body.matchAll(element)) {
+            const entry = PERMISSION_ENTRIES[match[1]];
+            const key = entry
+                ? entry.keys.map(k => new RegExp(`<${k}>([\\s\\S]*?)</${k}>`).exec(match[0])?.[1].trim() ?? '').join('|')
+                : '';
+            elements.push({ tag: match[1], key, xml: match[0] });
+        }
+
+        return { head: xml.slice(0, bodyStart), elements, tail: xml.slice(close) };
+    }
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContainerMergeService } from './ContainerMergeService.js';
+import type { SourcePathService } from './SourcePathService.js';
+
+/**
+ * The outcome of comparing one retrieved file with the working tree.
+ */
+export interface PreviewFile {
+    /** Project-relative path the file would be written to. */
+    path: string;
+    /** Absolute path of the retrieved copy in the scratch directory. */
+    scratchPath: string;
+    /** Whether the retrieve would create, change or leave the file as is. */
+    status: 'added' | 'modified' | 'unchanged';
+}
+
+/**
+ * Compares metadata retrieved into a scratch directory with the project's
+ * working tree, so users can see what a commit would change before the
+ * retrieve overwrites anything.
+ */
+export class PreviewService {
+    private readonly _projectRoot: string;
+    private readonly _sourcePathService: SourcePathService;
+
+    /**
+     * Creates a new PreviewService.
+     *
+     * @param projectRoot - Absolute path to the folder containing `sfdx-project.json`
+     * @param sourcePathService - Resolves retrieved files to their workspace location
+     */
+    constructor(projectRoot: string, sourcePathService: SourcePathService) {
+        this._projectRoot = projectRoot;
+        this._sourcePathService = sourcePathService;
+    }
+
+    /**
+     * Classifies every retrieved file as added, modified or unchanged
+     * relative to the working tree. Container files such as CustomLabels
+     * are compared after merging them into the project's copy.
+     *
+     * @param scratchDir - The directory the metadata was retrieved into
+     * @param retrievedFiles - Paths of the retrieved files, as listed by `sf`
+     * @param packageDirectory - Package directory for new components (defaults to the project default)
+     * @returns One entry per retrieved file, sorted by path
+     * @throws Error if a file cannot be placed in the project, so that nothing is silently left out
+     */
+    public compare(scratchDir: string, retrievedFiles: string[], packageDirectory?: string): PreviewFile[] {
+        const files: PreviewFile[] = [];
+        const unplaced: string[] = [];
+
+        for (const scratchPath of new Set(retrievedFiles.map(file => path.resolve(scratchDir, file)))) {
+            const retrievedPath = path.relative(scratchDir, scratchPath);
+            const inScratchDir = !retrievedPath.startsWith('..') && !path.isAbsolute(retrievedPath);
+            const targetPath = inScratchDir && fs.existsSync(scratchPath)
+                ? this._sourcePathService.resolveTargetPath(retrievedPath, packageDirectory)
+                : undefined;
+            if (!targetPath) {
+                unplaced.push(scratchPath);
+                continue;
+            }
+
+            const workspacePath = path.join(this._projectRoot, targetPath);
+            let status: PreviewFile['status'] = 'added';
+            if (fs.existsSync(workspacePath)) {
+                const same = fs.readFileSync(workspacePath).equals(fs.readFileSync(scratchPath));
+                status = same ? 'unchanged' : 'modified';
+            }
+
+            files.push({ path: targetPath, scratchPath, status });
+        }
+
+        if (unplaced.length > 0) {
+            throw new Error(
+                `${unplaced.length} retrieved files could not be placed in the project, so nothing was written: ` +
+                unplaced.join(', ')
+            );
+        }
+        return new ContainerMergeService(this._projectRoot)
+            .mergeFiles(files)
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Copies compared files into the working tree, creating folders as needed.
+     * Unchanged files are left alone.
+     *
+     * @param files - Output of `compare`
+     * @returns Absolute workspace paths of all compared files, including unchanged ones
+     */
+    public apply(files: PreviewFile[]): string[] {
+        return files.map(file => {
+            const workspacePath = path.join(this._projectRoot, file.path);
+            if (file.status !== 'unchanged') {
+                fs.mkdirSync(path.dirname(workspacePath), { recursive: true });
+                fs.copyFileSync(file.scratchPath, workspacePath);
+            }
+            return workspacePath;
+        });
+    }
+}
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourcePathService } from './SourcePathService.js';
+import type { ProjectInfo } from '../types.js';
+
+/**
+ * A folder that may contain a Salesforce project, e.g. a VS Code workspace folder.
+ */
+export interface ProjectFolder {
+    /** Display name of the folder. */
+    name: string;
+    /** Absolute path of the folder. */
+    path: string;
+}
+
+/**
+ * Finds the Salesforce projects (folders with an `sfdx-project.json`) among
+ * the open workspace folders, so that multi-root workspaces can pick which
+ * project and package directory a commit works on.
+ */
+export class ProjectService {
+    private readonly _folders: ProjectFolder[];
+
+    /**
+     * Creates a new ProjectService.
+     *
+     * @param folders - The workspace folders, in workspace order
+     */
+    constructor(folders: ProjectFolder[]) {
+        this._folders = folders;
+    }
+
+    /**
+     * Lists every folder that contains an `sfdx-project.json`, with the
+     * package directories declared in it.
+     *
+     * @returns One entry per Salesforce project, in workspace order
+     */
+    public findProjects(): ProjectInfo[] {
+        return this._folders
+            .filter(folder => fs.existsSync(path.join(folder.path, 'sfdx-project.json')))
+            .map(folder => {
+                const sourcePathService = new SourcePathService(folder.path);
+                return {
+                    name: folder.name,
+                    root: folder.path,
+                    packageDirectories: sourcePathService.readPackageDirectories(),
+                    defaultPackageDirectory: sourcePathService.getDefaultPackageDirectory(),
+                };
+            });
+    }
+
+    /**
+     * Returns the project to work on. Only detected projects are accepted,
+     * so a path sent by the Webview can never point elsewhere on disk.
+     *
+     * @param root - Root of the requested project (defaults to the first project)
+     * @returns The project
+     * @throws Error if no folder is open, none is a Salesforce project, or `root` is not one of them
+     */
+    public resolveProject(root?: string): ProjectInfo {
+        if (this._folders.length === 0) {
+            throw new Error('No workspace folder is open. Please open a Salesforce project.');
+        }
+
+        const projects = this.findProjects();
+        if (projects.length === 0) {
+            throw new Error(
+                'This workspace is not a Salesforce project. ' +
+                'Open a folder containing an sfdx-project.json file.'
+            );
+        }
+        if (!root) {
+            return projects[0];
+        }
+
+        const project = projects.find(p => path.resolve(p.root) === path.resolve(root));
+        if (!project) {
+            throw new Error(`"${root}" is not a Salesforce project in this workspace.`);
+        }
+        return project;
+    }
+
+    /**
+     * Validates the package directory new components should be retrieved into.
+     *
+     * @param project - The project the directory belongs to
+     * @param packageDirectory - The requested directory (defaults to the project default)
+     * @returns The package directory, or `undefined` if the project declares none
+     * @throws Error if `packageDirectory` is not declared in `sfdx-project.json`
+     */
+    public resolvePackageDirectory(project: ProjectInfo, packageDirectory?: string): string | undefined {
+        if (!packageDirectory) {
+            return project.defaultPackageDirectory;
+        }
+        if (!project.packageDirectories.includes(packageDirectory)) {
+            throw new Error(
+                `"${packageDirectory}" is not a package directory of ${project.name}. ` +
+                'Check packageDirectories in sfdx-project.json.'
+            );
+        }
+        return packageDirectory;
+    }
+}
@@ -0,0 +1,72 @@
+import { GitCliService } from './GitCliService.js';
+import { SourcePathService } from './SourcePathService.js';
+import type { MetadataChange, RepoStatus } from '../types.js';
+
+/**
+ * Number of paths passed to one git command, to stay well below the
+ * command line length limit (about 32,000 characters on Windows).
+ */
+const PATHS_PER_GIT_CALL = 200;
+
+/**
+ * Compares fetched Org changes with the project's git repository, so the
+ * grid can show which rows still need committing.
+ *
+ * Each component is mapped to its source files in the project. A component
+ * is only as up to date as its least up-to-date file: one locally modified
+ * file makes the component `modified`, one file committed before the Org
+ * change makes it `orgNewer`.
+ */
+export class RepoStatusService {
+    private readonly _sourcePathService: SourcePathService;
+    private readonly _gitCli: GitCliService;
+
+    /**
+     * Creates a new RepoStatusService.
+     *
+     * @param projectRoot - Root of the Salesforce project; may be a subdirectory of the git repository
+     */
+    constructor(projectRoot: string) {
+        this._sourcePathService = new SourcePathService(projectRoot);
+        this._gitCli = new GitCliService(projectRoot);
+    }
+
+    /**
+     * Computes the repository status of each component.
+     *
+     * @param items - The fetched changes
+     * @returns Statuses keyed by `MetadataChange.id`
+     */
+    public async compute(items: MetadataChange[]): Promise<Record<string, RepoStatus>> {
+        const filesById = new Map(
+            items.map(item => [item.id, this._sourcePathService.findSourceFiles(item.type, item.componentName)])
+        );
+        const allFiles = [...new Set([...filesById.values()].flat())];
+
+        const tracked = new Set<string>();
+        const modified = new Set<string>();
+        const committedAt = new Map<string, string>();
+        for (let i = 0; i < allFiles.length; i += PATHS_PER_GIT_CALL) {
+            const chunk = allFiles.slice(i, i + PATHS_PER_GIT_CALL);
+            (await this._gitCli.getTrackedFiles(chunk)).forEach(file => tracked.add(file));
+            (await this._gitCli.getModifiedFiles(chunk)).forEach(file => modified.add(file));
+            (await this._gitCli.getLastCommitDates(chunk)).forEach((date, file) => committedAt.set(file, date));
+        }
+
+        const statuses: Record<string, RepoStatus> = {};
+        for (const item of items) {
+            const files = filesById.get(item.id) ?? [];
+            const orgDate = Date.parse(item.date);
+            if (!files.some(file => tracked.has(file))) {
+                statuses[item.id] = 'notInRepo';
+            } else if (files.some(file => modified.has(file))) {
+                statuses[item.id] = 'modified';
+            } else if (files.some(file => !committedAt.has(file) || Date.parse(committedAt.get(file) ?? '') < orgDate)) {
+                statuses[item.id] = 'orgNewer';
+            } else {
+                statuses[item.id] = 'unchanged';
+            }
+        }
+        return statuses;
+    }
+}
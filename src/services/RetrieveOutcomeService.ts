@@ -0,0 +1,110 @@
+import * as path from 'path';
+import type { SourcePathService } from './SourcePathService.js';
+import type { ComponentOutcome, MetadataChange, RetrieveResult } from '../types.js';
+
+/**
+ * Maps a retrieve result back to the components that were requested, so
+ * partial failures can be reported per row instead of being dropped.
+ *
+ * `RetrieveResult.errors` only carries raw messages, so each message is
+ * matched to a component by the component name it mentions (and the type,
+ * when several selected components share a name).
+ */
+export class RetrieveOutcomeService {
+    private readonly _projectRoot: string;
+    private readonly _sourcePathService: SourcePathService;
+
+    /**
+     * Creates a new RetrieveOutcomeService.
+     *
+     * @param projectRoot - Absolute path to the folder containing `sfdx-project.json`
+     * @param sourcePathService - Maps retrieved files to their components
+     */
+    constructor(projectRoot: string, sourcePathService: SourcePathService) {
+        this._projectRoot = projectRoot;
+        this._sourcePathService = sourcePathService;
+    }
+
+    /**
+     * Works out the outcome of every requested component.
+     *
+     * A component fails when an error mentions it. Otherwise it is
+     * `unchanged` when files were retrieved for it but none of them differ
+     * from what is committed, and `retrieved` in every other case.
+     *
+     * @param items - The components that were retrieved
+     * @param result - The retrieve result
+     * @param changedPaths - Project-relative paths that differ from HEAD after staging
+     * @returns One outcome per item, in the order of `items`
+     */
+    public resolve(
+        items: MetadataChange[],
+        result: RetrieveResult,
+        changedPaths: string[]
+    ): ComponentOutcome[] {
+        const changed = new Set(changedPaths.map(p => this._toProjectPath(p)));
+
+        const filesByKey = new Map<string, string[]>();
+        for (const file of result.retrievedItems) {
+            const relative = this._toProjectPath(file);
+            const key = this._sourcePathService.keyForPath(relative);
+            if (key) {
+                filesByKey.set(key, [...(filesByKey.get(key) ?? []), relative]);
+            }
+        }
+
+        return items.map((item): ComponentOutcome => {
+            const errors = result.errors.filter(error => this._mentions(error, item, items));
+            if (errors.length > 0) {
+                return { id: item.id, status: 'failed', error: errors.join('\n') };
+            }
+
+            const files = filesByKey.get(`${item.type}:${item.componentName}`) ?? [];
+            if (files.length > 0 && !files.some(file => changed.has(file))) {
+                return { id: item.id, status: 'unchanged' };
+            }
+            return { id: item.id, status: 'retrieved' };
+        });
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Checks whether an error message refers to a component. The name must
+     * appear as a whole token (so `Account` does not match `Account.Rating__c`);
+     * the type must appear too when another item has the same name.
+     *
+     * @param error - The raw error message
+     * @param item - The component to test
+     * @param items - All requested components
+     * @returns True if the error belongs to the component
+     * @private
+     */
+    private _mentions(error: string, item: MetadataChange, items: MetadataChange[]): boolean {
+        if (error.includes(`${item.type}:${item.componentName}`)) {
+            return true;
+        }
+
+        const escaped = item.componentName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        if (!new RegExp(`(^|[^\\w.])${escaped}($|[^\\w.])`).test(error)) {
+            return false;
+        }
+
+        const nameIsShared = items.some(
+            other => other !== item && other.componentName === item.componentName
+        );
+        return !nameIsShared || error.includes(item.type);
+    }
+
+    /**
+     * Normalises a path to be relative to the project root with forward slashes.
+     *
+     * @param filePath - An absolute or project-relative path
+     * @returns The project-relative path
+     * @private
+     */
+    private _toProjectPath(filePath: string): string {
+        const relative = path.isAbsolute(filePath) ? path.relative(this._projectRoot, filePath) : filePath;
+        return relative.split(path.sep).join('/');
+    }
+}
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ComponentRef, MetadataChange, SelectionSet, SelectionSetLocation } from '../types.js';
+
+/**
+ * File holding the shared selection sets, relative to the project root.
+ */
+export const SHARED_SELECTION_SETS_PATH = path.join('.sfcommitstudio', 'selection-sets.json');
+
+/**
+ * The part of `vscode.Memento` used to keep selection sets in workspace state.
+ */
+export interface SelectionSetState {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * A selection set as stored; the location is implied by where it is stored.
+ */
+type StoredSelectionSet = Omit<SelectionSet, 'location'>;
+
+/**
+ * Saves named selections of components so they can be reloaded on a later
+ * day or by a teammate.
+ *
+ * Components are stored as type/name pairs rather than row ids, so a set
+ * still matches after the Org is fetched again. Sets live either in VS Code
+ * workspace state (`workspace`) or in `.sfcommitstudio/selection-sets.json`
+ * (`shared`), which can be committed with the project.
+ */
+export class SelectionSetService {
+    private readonly _projectRoot: string;
+    private readonly _workspaceState: SelectionSetState | undefined;
+
+    /**
+     * Creates a new SelectionSetService.
+     *
+     * @param projectRoot - Root of the Salesforce project the sets belong to
+     * @param workspaceState - VS Code workspace state; `workspace` sets are unavailable without it
+     */
+    constructor(projectRoot: string, workspaceState?: SelectionSetState) {
+        this._projectRoot = projectRoot;
+        this._workspaceState = workspaceState;
+    }
+
+    /**
+     * Lists the sets of both locations, sorted by name.
+     *
+     * @returns The selection sets
+     * @throws Error if the shared file is not valid JSON
+     */
+    public list(): SelectionSet[] {
+        return [
+            ...this._readWorkspace().map(set => ({ ...set, location: 'workspace' as const })),
+            ...this._readShared().map(set => ({ ...set, location: 'shared' as const })),
+        ].sort((a, b) => a.name.localeCompare(b.name) || a.location.localeCompare(b.location));
+    }
+
+    /**
+     * Finds a set by name.
+     *
+     * @param name - Name of the set
+     * @param location - Where the set is stored
+     * @returns The set, or `undefined` if there is none with that name
+     * @throws Error if the shared file is not valid JSON
+     */
+    public find(name: string, location: SelectionSetLocation): SelectionSet | undefined {
+        return this.list().find(set => set.name === name.trim() && set.location === location);
+    }
+
+    /**
+     * Saves a set, replacing any set of the same name in the same location.
+     *
+     * @param name - Name of the set, e.g. `US-123 Account redesign`
+     * @param location - Where to store the set
+     * @param components - The selected components
+     * @returns The saved set
+     * @throws Error if the name is empty or the location cannot be written
+     */
+    public async save(
+        name: string,
+        location: SelectionSetLocation,
+        components: ComponentRef[]
+    ): Promise<SelectionSet> {
+        const setName = name.trim();
+        if (!setName) {
+            throw new Error('A selection set needs a name.');
+        }
+
+        const unique = new Map(components.map(c => [`${c.type}:${c.componentName}`, c]));
+        const set: StoredSelectionSet = {
+            name: setName,
+            components: [...unique.values()].map(c => ({ type: c.type, componentName: c.componentName })),
+            savedAt: new Date().toISOString(),
+        };
+
+        const sets = this._read(location).filter(existing => existing.name !== setName);
+        await this._write(location, [...sets, set]);
+        return { ...set, location };
+    }
+
+    /**
+     * Deletes a set.
+     *
+     * @param name - Name of the set
+     * @param location - Where the set is stored
+     * @returns Whether a set was deleted
+     * @throws Error if the location cannot be written
+     */
+    public async delete(name: string, location: SelectionSetLocation): Promise<boolean> {
+        const sets = this._read(location);
+        const remaining = sets.filter(set => set.name !== name.trim());
+        if (remaining.length === sets.length) {
+            return false;
+        }
+        await this._write(location, remaining);
+        return true;
+    }
+
+    /**
+     * Matches a set against fetched metadata by type and name.
+     *
+     * @param set - The set to load
+     * @param items - The changes currently fetched from the Org
+     * @returns The ids of the matching rows, and the components no row matched
+     */
+    public match(set: SelectionSet, items: MetadataChange[]): { selectedIds: string[]; missing: ComponentRef[] } {
+        const idsByKey = new Map<string, string[]>();
+        for (const item of items) {
+            const key = `${item.type}:${item.componentName}`;
+            idsByKey.set(key, [...(idsByKey.get(key) ?? []), item.id]);
+        }
+
+        const selectedIds: string[] = [];
+        const missing: ComponentRef[] = [];
+        for (const component of set.components) {
+            const ids = idsByKey.get(`${component.type}:${component.componentName}`);
+            if (ids) {
+                selectedIds.push(...ids);
+            } else {
+                missing.push(component);
+            }
+        }
+        return { selectedIds, missing };
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Reads the sets stored in a location.
+     *
+     * @param location - The location to read
+     * @returns The stored sets
+     * @private
+     */
+    private _read(location: SelectionSetLocation): StoredSelectionSet[] {
+        return location === 'workspace' ? this._readWorkspace() : this._readShared();
+    }
+
+    /**
+     * Replaces the sets stored in a location.
+     *
+     * @param location - The location to write
+     * @param sets - The sets to store
+     * @throws Error if workspace state is unavailable
+     * @private
+     */
+    private async _write(location: SelectionSetLocation, sets: StoredSelectionSet[]): Promise<void> {
+        if (location === 'shared') {
+            const file = path.join(this._projectRoot, SHARED_SELECTION_SETS_PATH);
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, JSON.stringify({ sets }, null, 2) + '\n');
+            return;
+        }
+
+        if (!this._workspaceState) {
+            throw new Error('Workspace storage is not available. Save the set to the shared file instead.');
+        }
+        await this._workspaceState.update(this._workspaceKey(), sets);
+    }
+
+    /**
+     * Reads the sets kept in workspace state for this project.
+     *
+     * @returns The stored sets
+     * @private
+     */
+    private _readWorkspace(): StoredSelectionSet[] {
+        return this._workspaceState?.get<StoredSelectionSet[]>(this._workspaceKey()) ?? [];
+    }
+
+    /**
+     * Reads `.sfcommitstudio/selection-sets.json`.
+     *
+     * @returns The stored sets; none if the file does not exist
+     * @throws Error if the file is not valid JSON, so a teammate's sets are never overwritten
+     * @private
+     */
+    private _readShared(): StoredSelectionSet[] {
+        const file = path.join(this._projectRoot, SHARED_SELECTION_SETS_PATH);
+        if (!fs.existsSync(file)) {
+            return [];
+        }
+
+        try {
+            const content = JSON.parse(fs.readFileSync(file, 'utf8')) as { sets?: StoredSelectionSet[] };
+            return Array.isArray(content.sets) ? content.sets : [];
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`${SHARED_SELECTION_SETS_PATH} could not be read: ${reason}`);
+        }
+    }
+
+    /**
+     * Returns the workspace state key of this project's sets, so each
+     * project in a multi-root workspace keeps its own sets.
+     *
+     * @returns The key
+     * @private
+     */
+    private _workspaceKey(): string {
+        return `sfCommitStudio.selectionSets:${path.resolve(this._projectRoot)}`;
+    }
+}
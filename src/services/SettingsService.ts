@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import type { AuthorMode, StudioSettings } from '../types.js';
+
+/**
+ * Reads the `sfCommitStudio.*` settings contributed in `package.json`,
+ * falling back to the same defaults when a value is not set.
+ */
+export class SettingsService {
+    /**
+     * The configuration section that holds all extension settings.
+     */
+    public static readonly section = 'sfCommitStudio';
+
+    /**
+     * Returns the current settings. Values are read on every call so that
+     * changes made in the Settings UI apply without reloading the window.
+     *
+     * @returns The resolved settings
+     */
+    public read(): StudioSettings {
+        const config = vscode.workspace.getConfiguration(SettingsService.section);
+
+        return {
+            authorMode: config.get<AuthorMode>('commit.authorMode', 'committer'),
+            autoFetchOnOpen: config.get<boolean>('fetch.autoFetchOnOpen', true),
+            blockOnRetrieveFailure: config.get<boolean>('retrieve.blockOnFailure', false),
+            branchPattern: config.get<string>('branch.pattern', 'feature/{story}'),
+            cacheStaleAfterMinutes: Math.max(0, config.get<number>('cache.staleAfterMinutes', 30)),
+            conventionalCommits: config.get<boolean>('commit.conventionalCommits', false),
+            defaultOrg: config.get<string>('org.default', '').trim(),
+            inferStoryFromBranch: config.get<boolean>('story.inferFromBranch', true),
+            fetchLimit: Math.max(0, config.get<number>('fetch.limit', 10000)),
+            largeCommitThreshold: Math.max(1, config.get<number>('commit.largeCommitThreshold', 50)),
+            listComponentsInBody: config.get<boolean>('commit.listComponentsInBody', false),
+            messageTemplate: config.get<string>('commit.messageTemplate', ''),
+            pageSize: Math.max(1, config.get<number>('grid.pageSize', 25)),
+            pushRemote: config.get<string>('push.remote', 'origin'),
+            storyPrefixFormat: config.get<string>('commit.storyPrefixFormat', '[{story}]'),
+            storyPattern: config.get<string>('story.pattern', ''),
+            storyRequired: config.get<boolean>('story.required', false),
+            writePullRequestDescription: config.get<boolean>('push.writePullRequestDescription', false),
+        };
+    }
+}
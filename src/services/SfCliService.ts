@@ -0,0 +1,167 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { RetrieveResult } from '../types.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A file entry in the JSON output of `sf project retrieve start`.
+ */
+interface RetrievedFile {
+    filePath?: string;
+    fullName?: string;
+    type?: string;
+    state?: string;
+    error?: string;
+}
+
+/**
+ * The JSON envelope printed by `sf` commands run with `--json`.
+ */
+interface SfJsonOutput {
+    status: number;
+    message?: string;
+    result?: { files?: RetrievedFile[] };
+}
+
+/**
+ * Runs Salesforce CLI commands that need options the
+ * `@evan-hyer/track-changes` RetrieveService does not expose,
+ * such as retrieving into a directory outside the package directories
+ * or stopping a retrieve that is in progress.
+ *
+ * Commands run with `execFile` (no shell) and `--json` output. When an
+ * `AbortSignal` is passed, aborting it kills the `sf` process and the
+ * call rejects with an `AbortError`.
+ */
+export class SfCliService {
+    private readonly _projectRoot: string;
+
+    /**
+     * Creates a new SfCliService.
+     *
+     * @param projectRoot - Absolute path to the folder containing `sfdx-project.json`
+     */
+    constructor(projectRoot: string) {
+        this._projectRoot = projectRoot;
+    }
+
+    /**
+     * Retrieves metadata in source format into the project's package directories.
+     *
+     * @param metadata - `Type:Name` strings to retrieve
+     * @param targetOrg - Optional alias/username for the target Org
+     * @param signal - Optional signal that kills the retrieve when aborted
+     * @returns The retrieval result with absolute file paths
+     */
+    public async retrieve(
+        metadata: string[],
+        targetOrg?: string,
+        signal?: AbortSignal
+    ): Promise<RetrieveResult> {
+        return this._retrieve(['project', 'retrieve', 'start', '--json'], metadata, targetOrg, signal);
+    }
+
+    /**
+     * Retrieves metadata in source format into `outputDir` instead of the
+     * project's package directories. The workspace is left untouched.
+     *
+     * @param metadata - `Type:Name` strings to retrieve
+     * @param outputDir - Absolute path of the directory to retrieve into
+     * @param targetOrg - Optional alias/username for the target Org
+     * @param signal - Optional signal that kills the retrieve when aborted
+     * @returns The retrieval result with absolute file paths
+     */
+    public async retrieveToDirectory(
+        metadata: string[],
+        outputDir: string,
+        targetOrg?: string,
+        signal?: AbortSignal
+    ): Promise<RetrieveResult> {
+        return this._retrieve(
+            ['project', 'retrieve', 'start', '--json', '--output-dir', outputDir],
+            metadata,
+            targetOrg,
+            signal
+        );
+    }
+
+    /**
+     * Runs a retrieve command and converts its JSON output into a `RetrieveResult`.
+     *
+     * @param baseArgs - The retrieve command and its fixed flags
+     * @param metadata - `Type:Name` strings to retrieve
+     * @param targetOrg - Optional alias/username for the target Org
+     * @param signal - Optional signal that kills the retrieve when aborted
+     * @returns The retrieval result with absolute file paths
+     * @private
+     */
+    private async _retrieve(
+        baseArgs: string[],
+        metadata: string[],
+        targetOrg?: string,
+        signal?: AbortSignal
+    ): Promise<RetrieveResult> {
+        const args = [...baseArgs];
+        for (const item of metadata) {
+            args.push('--metadata', item);
+        }
+        if (targetOrg) {
+            args.push('--target-org', targetOrg);
+        }
+
+        const output = await this._run(args, signal);
+        const files: RetrievedFile[] = output.result?.files ?? [];
+
+        const errors = files
+            .filter(f => f.state === 'Failed' || f.error)
+            .map(f => `${f.type ?? ''} ${f.fullName ?? ''}: ${f.error ?? 'Retrieve failed'}`.trim());
+        if (output.status !== 0 && output.message) {
+            errors.push(output.message);
+        }
+
+        const retrievedItems = files
+            .filter(f => f.state !== 'Failed' && !f.error && f.filePath)
+            .map(f => f.filePath as string);
+
+        return {
+            errors,
+            retrievedItems,
+            success: errors.length === 0,
+        };
+    }
+
+    /**
+     * Runs an `sf` command and parses its JSON output. The CLI exits with a
+     * non-zero code on failure but still prints JSON, so that case is parsed too.
+     *
+     * @param args - Arguments passed to `sf`
+     * @param signal - Optional signal that kills the process when aborted
+     * @returns The parsed JSON output
+     * @throws Error if the CLI cannot be started, prints no JSON or is aborted
+     * @private
+     */
+    private async _run(args: string[], signal?: AbortSignal): Promise<SfJsonOutput> {
+        let stdout: string;
+        try {
+            ({ stdout } = await execFileAsync('sf', args, {
+                cwd: this._projectRoot,
+                maxBuffer: 64 * 1024 * 1024,
+                signal,
+            }));
+        } catch (error: unknown) {
+            const failed = error as { stdout?: string; message?: string };
+            // A killed process may have printed partial JSON; never parse it
+            if (signal?.aborted || !failed.stdout) {
+                throw error;
+            }
+            stdout = failed.stdout;
+        }
+
+        try {
+            return JSON.parse(stdout);
+        } catch {
+            throw new Error(`Unexpected output from sf CLI: ${stdout.slice(0, 200)}`);
+        }
+    }
+}
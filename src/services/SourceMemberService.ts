@@ -0,0 +1,150 @@
+import type { MetadataChange } from '../types.js';
+
+/**
+ * One page of a Tooling API query result.
+ */
+interface ToolingQueryResult<T> {
+    records: T[];
+    totalSize: number;
+    done: boolean;
+    nextRecordsUrl?: string;
+}
+
+/**
+ * Minimal shape of the Tooling API surface used by this service.
+ * Matches the `tooling` property of an `@salesforce/core` Connection.
+ */
+interface ToolingConnection {
+    tooling: {
+        query<T>(soql: string): Promise<ToolingQueryResult<T>>;
+        queryMore<T>(locator: string): Promise<ToolingQueryResult<T>>;
+    };
+}
+
+/**
+ * A `SourceMember` record as returned by the Tooling API.
+ */
+interface SourceMemberRecord {
+    MemberName: string;
+    MemberType: string;
+    IsNameObsolete?: boolean;
+    LastModifiedDate: string;
+    LastModifiedBy?: { Name?: string; Username?: string } | null;
+    CreatedDate?: string;
+    CreatedBy?: { Name?: string; Username?: string } | null;
+}
+
+/**
+ * A batch of changes streamed by `SourceMemberService.queryChanges`.
+ */
+export interface MetadataChangePage {
+    /** The changes in this page. */
+    items: MetadataChange[];
+    /** Number of matching changes in the Org, including any beyond the limit. */
+    total: number;
+}
+
+/**
+ * Queries source tracking (`SourceMember`) records directly, so that
+ * results can be paged past the 2000 rows the `@evan-hyer/track-changes`
+ * QueryService returns, and so deleted components are included.
+ */
+export class SourceMemberService {
+    private readonly _connection: ToolingConnection;
+
+    /**
+     * Creates a new SourceMemberService.
+     *
+     * @param connection - An authenticated Org connection with Tooling API access
+     */
+    constructor(connection: ToolingConnection) {
+        this._connection = connection;
+    }
+
+    /**
+     * Streams the Org's tracked changes, newest first, one Tooling API page
+     * at a time. Deleted members (`IsNameObsolete = true`) are returned with
+     * `changeKind: 'Deleted'`.
+     *
+     * @param options - Maximum number of rows (0 for no limit), optional type filter,
+     *   and an optional ISO date to return only changes made at or after
+     * @returns An async iterator of pages; stops once `limit` rows have been yielded
+     * @throws Error if `since` is not a valid date
+     */
+    public async *queryChanges(options: {
+        limit: number;
+        types?: string[];
+        since?: string;
+    }): AsyncGenerator<MetadataChangePage> {
+        const conditions: string[] = [];
+        if (options.since) {
+            const since = new Date(options.since);
+            if (isNaN(since.getTime())) {
+                throw new Error(`Invalid date: ${options.since}`);
+            }
+            // SOQL datetime literals have no milliseconds; `>=` keeps the boundary second
+            conditions.push(`LastModifiedDate >= ${since.toISOString().replace(/\.\d{3}Z$/, 'Z')}`);
+        }
+        if (options.types?.length) {
+            const typeList = options.types.map(t => `'${this._escapeSoql(t)}'`).join(', ');
+            conditions.push(`MemberType IN (${typeList})`);
+        }
+
+        // No LIMIT clause: `totalSize` must count every match so truncation can be reported
+        const soql =
+            'SELECT MemberName, MemberType, IsNameObsolete, LastModifiedDate, LastModifiedBy.Name, ' +
+            'LastModifiedBy.Username, CreatedDate, CreatedBy.Name, CreatedBy.Username ' +
+            'FROM SourceMember' +
+            (conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '') +
+            ' ORDER BY LastModifiedDate DESC';
+
+        let result = await this._connection.tooling.query<SourceMemberRecord>(soql);
+        let remaining = options.limit > 0 ? options.limit : Infinity;
+
+        for (;;) {
+            const records = result.records.slice(0, remaining);
+            remaining -= records.length;
+            if (records.length > 0) {
+                yield { items: records.map(record => this._toChange(record)), total: result.totalSize };
+            }
+
+            if (remaining <= 0 || result.done || !result.nextRecordsUrl) {
+                return;
+            }
+            result = await this._connection.tooling.queryMore<SourceMemberRecord>(result.nextRecordsUrl);
+        }
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Converts a `SourceMember` record into a `MetadataChange`.
+     *
+     * @param record - The Tooling API record
+     * @returns The change, keyed by `Type:Name`
+     * @private
+     */
+    private _toChange(record: SourceMemberRecord): MetadataChange {
+        return {
+            id: `${record.MemberType}:${record.MemberName}`,
+            componentName: record.MemberName,
+            type: record.MemberType,
+            modifiedBy: record.LastModifiedBy?.Username ?? record.LastModifiedBy?.Name ?? '',
+            date: record.LastModifiedDate,
+            changeKind: record.IsNameObsolete ? 'Deleted' : 'Modified',
+            createdBy: record.CreatedBy?.Username ?? record.CreatedBy?.Name ?? '',
+            createdDate: record.CreatedDate ?? '',
+        };
+    }
+
+    /**
+     * Escapes a value for safe use inside a single-quoted SOQL string literal.
+     *
+     * @param value - The raw value
+     * @returns The escaped value
+     * @private
+     */
+    private _escapeSoql(value: string): string {
+        return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    }
+}
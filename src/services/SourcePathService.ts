@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * How components of a metadata type are laid out on disk in source format.
+ * - `file`: one file (plus optional `-meta.xml`) per component, e.g. `classes/Foo.cls`
+ * - `bundle`: one directory per component, e.g. `lwc/myCmp/*`
+ * - `folder`: components live in named folders and include the folder in their name,
+ *   e.g. `email/MyFolder/Template.email-meta.xml` → `MyFolder/Template`
+ */
+type SourceLayout = 'file' | 'bundle' | 'folder';
+
+/**
+ * Source-format directory names mapped to their metadata type and layout.
+ */
+const SOURCE_FOLDERS: Record<string, { type: string; layout: SourceLayout }> = {
+    applications: { type: 'CustomApplication', layout: 'file' },
+    aura: { type: 'AuraDefinitionBundle', layout: 'bundle' },
+    classes: { type: 'ApexClass', layout: 'file' },
+    components: { type: 'ApexComponent', layout: 'file' },
+    contentassets: { type: 'ContentAsset', layout: 'file' },
+    customMetadata: { type: 'CustomMetadata', layout: 'file' },
+    customPermissions: { type: 'CustomPermission', layout: 'file' },
+    dashboards: { type: 'Dashboard', layout: 'folder' },
+    documents: { type: 'Document', layout: 'folder' },
+    email: { type: 'EmailTemplate', layout: 'folder' },
+    flexipages: { type: 'FlexiPage', layout: 'file' },
+    flows: { type: 'Flow', layout: 'file' },
+    globalValueSets: { type: 'GlobalValueSet', layout: 'file' },
+    labels: { type: 'CustomLabels', layout: 'file' },
+    layouts: { type: 'Layout', layout: 'file' },
+    lwc: { type: 'LightningComponentBundle', layout: 'bundle' },
+    pages: { type: 'ApexPage', layout: 'file' },
+    permissionsetgroups: { type: 'PermissionSetGroup', layout: 'file' },
+    permissionsets: { type: 'PermissionSet', layout: 'file' },
+    profiles: { type: 'Profile', layout: 'file' },
+    quickActions: { type: 'QuickAction', layout: 'file' },
+    remoteSiteSettings: { type: 'RemoteSiteSetting', layout: 'file' },
+    reports: { type: 'Report', layout: 'folder' },
+    staticresources: { type: 'StaticResource', layout: 'file' },
+    tabs: { type: 'CustomTab', layout: 'file' },
+    triggers: { type: 'ApexTrigger', layout: 'file' },
+};
+
+/**
+ * Child folders inside `objects/<Object>/` mapped to their metadata type.
+ * Child components are named `<Object>.<Child>`.
+ */
+const OBJECT_CHILD_FOLDERS: Record<string, string> = {
+    businessProcesses: 'BusinessProcess',
+    compactLayouts: 'CompactLayout',
+    fieldSets: 'FieldSet',
+    fields: 'CustomField',
+    listViews: 'ListView',
+    recordTypes: 'RecordType',
+    validationRules: 'ValidationRule',
+    webLinks: 'WebLink',
+};
+
+/**
+ * Maps Salesforce metadata components to the source-format files that
+ * represent them inside the project's package directories.
+ *
+ * The index is built lazily on first use by walking every directory listed
+ * in `packageDirectories` of `sfdx-project.json`. All returned paths are
+ * relative to the project root and use forward slashes, so they can be
+ * passed straight to git.
+ */
+export class SourcePathService {
+    private readonly _projectRoot: string;
+    private _index: Map<string, string[]> | undefined;
+    private _files: string[] | undefined;
+
+    /**
+     * Creates a new SourcePathService.
+     *
+     * @param projectRoot - Absolute path to the folder containing `sfdx-project.json`
+     */
+    constructor(projectRoot: string) {
+        this._projectRoot = projectRoot;
+    }
+
+    /**
+     * Returns the source files that belong to a component.
+     *
+     * @param type - The metadata type (e.g. 'ApexClass')
+     * @param componentName - The component's full name (e.g. 'Account.MyField__c')
+     * @returns Project-relative file paths; empty if the component is not in the project
+     */
+    public findSourceFiles(type: string, componentName: string): string[] {
+        return this._getIndex().get(`${type}:${componentName}`) ?? [];
+    }
+
+    /**
+     * Returns every file that goes away when a component is deleted: its
+     * source files, or for a CustomObject everything under its
+     * `objects/<Object>/` folders (fields, record types, validation rules,
+     * ...), since the Org deletes those with the object.
+     *
+     * @param type - The metadata type (e.g. 'CustomObject')
+     * @param componentName - The component's full name (e.g. 'Invoice__c')
+     * @returns Project-relative file paths; empty if the component is not in the project
+     */
+    public findFilesToDelete(type: string, componentName: string): string[] {
+        if (type !== 'CustomObject') {
+            return this.findSourceFiles(type, componentName);
+        }
+
+        return this._getFiles().filter(file => {
+            const segments = file.split('/');
+            const objects = segments.indexOf('objects');
+            return objects >= 0 && segments[objects + 1] === componentName && segments.length > objects + 2;
+        });
+    }
+
+    /**
+     * Derives the `Type:Name` key of the component a source file belongs to.
+     *
+     * @param relativePath - A file path relative to a package directory or project root
+     * @returns The component key, or `undefined` if the path is not recognised
+     */
+    public keyForPath(relativePath: string): string | undefined {
+        const segments = relativePath.split(/[\\/]/).filter(s => s.length > 0);
+
+        for (let i = 0; i < segments.length - 1; i++) {
+            const folder = segments[i];
+            const rest = segments.slice(i + 1);
+
+            if (folder === 'objects') {
+                return this._keyForObjectPath(rest);
+            }
+
+            const entry = SOURCE_FOLDERS[folder];
+            if (!entry) {
+                continue;
+            }
+
+            switch (entry.layout) {
+                case 'bundle':
+                    return rest.length > 1 ? `${entry.type}:${rest[0]}` : undefined;
+                case 'folder':
+                    return `${entry.type}:${this._stripSuffix(rest.join('/'))}`;
+                default:
+                    return `${entry.type}:${this._stripSuffix(rest[0])}`;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Works out where a retrieved file belongs in the project. A file that
+     * already exists in a package directory keeps its location; any other
+     * file is placed under `<packageDirectory>/main/default`.
+     *
+     * Placement only relies on the retrieved layout, not on the metadata
+     * types this service knows, so every type `sf` retrieves has a place.
+     *
+     * @param retrievedPath - The file path relative to the retrieve output directory
+     * @param packageDirectory - Package directory for new files (defaults to the project default)
+     * @returns The project-relative target path, or `undefined` if the project declares no package directory
+     */
+    public resolveTargetPath(retrievedPath: string, packageDirectory?: string): string | undefined {
+        // `sf` writes source format below `<output-dir>/main/default`
+        const segments = retrievedPath.split(/[\\/]/).filter(s => s.length > 0);
+        const root = segments.findIndex((segment, i) => segment === 'main' && segments[i + 1] === 'default');
+        const tail = segments.slice(root >= 0 ? root + 2 : 0).join('/');
+        const targetDir = packageDirectory ?? this.getDefaultPackageDirectory();
+        if (!tail) {
+            return undefined;
+        }
+
+        // A file present in several package directories (e.g. CustomLabels) prefers the target one
+        const existing = this._getFiles().filter(file => file.endsWith(`/${tail}`));
+        const match = existing.find(file => file.startsWith(`${targetDir}/`)) ?? existing[0];
+        if (match) {
+            return match;
+        }
+        return targetDir ? `${targetDir}/main/default/${tail}` : undefined;
+    }
+
+    /**
+     * Returns the package directory marked `"default": true` in
+     * `sfdx-project.json`, or the first one if none is marked.
+     *
+     * @returns The default package directory, or `undefined` if none is declared
+     */
+    public getDefaultPackageDirectory(): string | undefined {
+        const dirs = this._readProjectFile().packageDirectories ?? [];
+        const defaultDir = dirs.find(d => d.default) ?? dirs[0];
+        return defaultDir?.path;
+    }
+
+    /**
+     * Reads the package directory paths declared in `sfdx-project.json`.
+     *
+     * @returns Package directory paths relative to the project root
+     */
+    public readPackageDirectories(): string[] {
+        const dirs = this._readProjectFile().packageDirectories ?? [];
+        return dirs.map(d => d.path).filter((p): p is string => typeof p === 'string');
+    }
+
+    /**
+     * Reads the `sourceApiVersion` declared in `sfdx-project.json`.
+     *
+     * @returns The API version (e.g. `60.0`), or `undefined` if none is declared
+     */
+    public getSourceApiVersion(): string | undefined {
+        const version = this._readProjectFile().sourceApiVersion;
+        return typeof version === 'string' && version.trim() ? version.trim() : undefined;
+    }
+
+    // ─── Private Helpers ───────────────────────────────────────────
+
+    /**
+     * Reads and parses `sfdx-project.json`, tolerating a missing or invalid file.
+     *
+     * @returns The parsed project definition (empty if unreadable)
+     * @private
+     */
+    private _readProjectFile(): {
+        packageDirectories?: { path?: string; default?: boolean }[];
+        sourceApiVersion?: unknown;
+    } {
+        const projectFile = path.join(this._projectRoot, 'sfdx-project.json');
+        try {
+            return JSON.parse(fs.readFileSync(projectFile, 'utf8'));
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Lists (once) every file in the package directories, whatever its type.
+     *
+     * @returns Project-relative file paths
+     * @private
+     */
+    private _getFiles(): string[] {
+        this._files ??= this.readPackageDirectories().flatMap(packageDir =>
+            this._walk(path.join(this._projectRoot, packageDir)).map(
+                file => path.relative(this._projectRoot, file).split(path.sep).join('/')
+            )
+        );
+        return this._files;
+    }
+
+    /**
+     * Builds (once) the map of component keys to their source files.
+     *
+     * @returns The component index
+     * @private
+     */
+    private _getIndex(): Map<string, string[]> {
+        if (this._index) {
+            return this._index;
+        }
+
+        const index = new Map<string, string[]>();
+        for (const packageDir of this.readPackageDirectories()) {
+            const absoluteDir = path.join(this._projectRoot, packageDir);
+            for (const file of this._walk(absoluteDir)) {
+                const key = this.keyForPath(path.relative(absoluteDir, file));
+                if (!key) {
+                    continue;
+                }
+                const relative = path.relative(this._projectRoot, file).split(path.sep).join('/');
+                const files = index.get(key) ?? [];
+                files.push(relative);
+                index.set(key, files);
+            }
+        }
+
+        this._index = index;
+        return index;
+    }
+
+    /**
+     * Recursively lists all files below a directory.
+     *
+     * @param dir - The directory to walk
+     * @returns Absolute file paths
+     * @private
+     */
+    private _walk(dir: string): string[] {
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...this._walk(fullPath));
+            } else if (entry.isFile()) {
+                files.push(fullPath);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Derives the component key for a path below an `objects/` folder.
+     *
+     * @param segments - Path segments following `objects`
+     * @returns The component key, or `undefined` if not recognised
+     * @private
+     */
+    private _keyForObjectPath(segments: string[]): string | undefined {
+        const [objectName, childFolder, childFile] = segments;
+        if (!objectName || !childFolder) {
+            return undefined;
+        }
+
+        if (segments.length === 2) {
+            return `CustomObject:${objectName}`;
+        }
+
+        const childType = OBJECT_CHILD_FOLDERS[childFolder];
+        if (!childType || !childFile) {
+            return undefined;
+        }
+        return `${childType}:${objectName}.${this._stripSuffix(childFile)}`;
+    }
+
+    /**
+     * Removes the `-meta.xml` suffix and the type extension from a file name.
+     * `Foo.cls-meta.xml` and `Foo.cls` both become `Foo`.
+     *
+     * @param fileName - The file name (or folder-relative path)
+     * @returns The component name
+     * @private
+     */
+    private _stripSuffix(fileName: string): string {
+        const withoutMeta = fileName.replace(/-meta\.xml$/, '');
+        const dot = withoutMeta.lastIndexOf('.');
+        const slash = withoutMeta.lastIndexOf('/');
+        return dot > slash ? withoutMeta.slice(0, dot) : withoutMeta;
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Pattern used to find a reference in a branch name when `story.pattern`
+ * is empty: an issue key such as `US-0000275` or `PROJ-42`.
+ */
+const DEFAULT_INFER_PATTERN = '[A-Z][A-Z0-9]+-\\d+';
+
+/**
+ * Validates User Story references against the `story.pattern` setting and
+ * finds them in branch names such as `feature/US-0000275-account-fields`.
+ *
+ * An empty pattern accepts any reference, and references are inferred
+ * from branch names that contain an issue key.
+ */
+export class UserStoryService {
+    private readonly _pattern: RegExp | undefined;
+    private readonly _source: string;
+    private readonly _required: boolean;
+
+    /**
+     * Creates a new UserStoryService.
+     *
+     * @param options - The `story.pattern` regular expression and whether a reference is required
+     * @throws Error if the pattern is not a valid regular expression
+     */
+    constructor(options: { pattern: string; required: boolean }) {
+        this._source = options.pattern.trim();
+        this._required = options.required;
+
+        if (this._source) {
+            try {
+                this._pattern = new RegExp(this._source);
+            } catch (error: unknown) {
+                const reason = error instanceof Error ? error.message : String(error);
+                throw new Error(`The sfCommitStudio.story.pattern setting is not a valid regular expression: ${reason}`);
+            }
+        }
+    }
+
+    /**
+     * Checks a reference. The whole reference must match the pattern.
+     *
+     * @param userStoryRef - The reference entered by the user
+     * @returns A description of the problem, or `undefined` if the reference is acceptable
+     */
+    public validate(userStoryRef: string | undefined): string | undefined {
+        const ref = userStoryRef?.trim() ?? '';
+        if (!ref) {
+            return this._required ? 'A User Story Ref is required.' : undefined;
+        }
+        if (this._pattern && !new RegExp(`^(?:${this._source})$`).test(ref)) {
+            return `"${ref}" is not a valid User Story Ref. It must match ${this._source}.`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds a reference in a branch name, using the pattern or, without
+     * one, any issue key such as `US-0000275`. The match must not be part
+     * of a longer word, so `US-\d{7}` does not match inside `US-00002750`.
+     *
+     * @param branch - The branch name
+     * @returns The first reference in the name, or `undefined` if there is none
+     */
+    public inferFromBranch(branch: string): string | undefined {
+        const source = this._source || DEFAULT_INFER_PATTERN;
+        const match = new RegExp(`(?<![A-Za-z0-9])(?:${source})(?![A-Za-z0-9])`).exec(branch);
+        return match?.[0];
+    }
+}
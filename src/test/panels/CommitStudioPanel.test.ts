@@ -231,9 +231,28 @@ suite('CommitStudioPanel', () => {
             const html = mockPanel.webview.html;
             const requiredIds = [
                 'org-selector',
+                'project-selector',
+                'package-dir-selector',
                 'commit-message',
+                'message-preview',
                 'user-story-ref',
+                'story-ref-error',
+                'selection-set-selector',
+                'btn-save-set',
+                'btn-load-set',
+                'btn-delete-set',
+                'missing-banner',
+                'btn-export-manifest',
+                'btn-import-manifest',
                 'btn-commit',
+                'opt-scope-permissions',
+                'btn-preview',
+                'tab-history',
+                'history-view',
+                'btn-undo-commit',
+                'btn-cancel',
+                'load-status',
+                'last-refreshed',
                 'btn-refresh',
                 'tab-all',
                 'tab-selected',
@@ -245,9 +264,15 @@ suite('CommitStudioPanel', () => {
                 'filter-name',
                 'filter-type',
                 'filter-user',
+                'filter-created-by',
+                'filter-new',
+                'filter-repo-status',
                 'page-size',
                 'btn-prev',
                 'btn-next',
+                'preview-panel',
+                'suggestions-panel',
+                'authors-panel',
             ];
 
             for (const id of requiredIds) {
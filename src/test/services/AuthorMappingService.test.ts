@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuthorMappingService, AUTHOR_MAPPING_PATH } from '../../services/AuthorMappingService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for AuthorMappingService.
+ */
+suite('AuthorMappingService', () => {
+    let projectRoot: string;
+    let service: AuthorMappingService;
+
+    const item = (componentName: string, modifiedBy: string): MetadataChange => ({
+        id: `ApexClass:${componentName}`,
+        componentName,
+        type: 'ApexClass',
+        modifiedBy,
+        date: '2026-02-10T10:00:00.000Z',
+    });
+
+    const jane = { name: 'Jane Doe', email: 'jane@example.com' };
+    const raj = { name: 'Raj Patel', email: 'raj@example.com' };
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-authors-'));
+        service = new AuthorMappingService(projectRoot);
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('should save mappings to a file a teammate can read', () => {
+        service.set('raj@acme.com', raj);
+        service.set(' jane@acme.com ', { name: ' Jane Doe ', email: 'jane@example.com' });
+
+        const file = JSON.parse(fs.readFileSync(path.join(projectRoot, AUTHOR_MAPPING_PATH), 'utf8'));
+        assert.deepStrictEqual(Object.keys(file.authors), ['jane@acme.com', 'raj@acme.com']);
+        assert.deepStrictEqual(new AuthorMappingService(projectRoot).read()['jane@acme.com'], jane);
+    });
+
+    test('should reject a mapping without a name or email', () => {
+        assert.throws(() => service.set('jane@acme.com', { name: 'Jane', email: ' ' }), /needs a Salesforce user, a name and an email/);
+    });
+
+    test('should report a corrupt mapping file', () => {
+        const file = path.join(projectRoot, AUTHOR_MAPPING_PATH);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, '{ not json');
+
+        assert.throws(() => service.read(), /could not be read/);
+    });
+
+    test('author mode should credit the main contributor as author and the others as co-authors', () => {
+        service.set('jane@acme.com', jane);
+        service.set('raj@acme.com', raj);
+        const items = [
+            item('A', 'raj@acme.com'),
+            item('B', 'jane@acme.com'),
+            item('C', 'jane@acme.com'),
+            item('D', 'admin@acme.com'),
+        ];
+
+        assert.deepStrictEqual(service.attribute(items, 'author'), {
+            author: jane,
+            coAuthors: [raj],
+            unmapped: ['admin@acme.com'],
+        });
+    });
+
+    test('co-author mode should credit each person once', () => {
+        service.set('jane@acme.com', jane);
+        service.set('jane@acme.com.uat', jane);
+
+        const attribution = service.attribute([item('A', 'jane@acme.com'), item('B', 'jane@acme.com.uat')], 'coAuthors');
+
+        assert.deepStrictEqual(attribution, { coAuthors: [jane], unmapped: [] });
+        assert.strictEqual(service.buildTrailers(attribution.coAuthors), 'Co-authored-by: Jane Doe <jane@example.com>');
+    });
+
+    test('committer mode should credit nobody', () => {
+        assert.deepStrictEqual(service.attribute([item('A', 'jane@acme.com')], 'committer'), { coAuthors: [], unmapped: [] });
+    });
+});
@@ -0,0 +1,185 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { CommitHistoryService, STUDIO_STASH_MESSAGE, STUDIO_TRAILERS } from '../../services/CommitHistoryService.js';
+import { GitCliService } from '../../services/GitCliService.js';
+import { SourcePathService } from '../../services/SourcePathService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for CommitHistoryService.
+ *
+ * Writes Studio-style commits into a temp repository and reads them back.
+ */
+suite('CommitHistoryService', () => {
+    let repoRoot: string;
+    let service: CommitHistoryService;
+
+    const items: MetadataChange[] = [
+        { id: '1', componentName: 'MyClass', type: 'ApexClass', modifiedBy: 'jane@example.com', date: '2026-02-10T10:00:00.000Z' },
+        { id: '2', componentName: 'Account.Rating__c', type: 'CustomField', modifiedBy: 'john@example.com', date: '2026-02-10T10:00:00.000Z' },
+    ];
+
+    function git(...args: string[]): string {
+        return execFileSync('git', args, { cwd: repoRoot, encoding: 'utf8' });
+    }
+
+    function commitFile(relativePath: string, message: string): void {
+        const fullPath = path.join(repoRoot, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, message);
+        git('add', '.');
+        git('commit', '--quiet', '-m', message);
+    }
+
+    setup(() => {
+        repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-history-'));
+        git('init', '--quiet', '--initial-branch=main');
+        git('config', 'user.name', 'Test User');
+        git('config', 'user.email', 'test@example.com');
+        service = new CommitHistoryService(new GitCliService(repoRoot), new SourcePathService(repoRoot));
+    });
+
+    teardown(() => {
+        fs.rmSync(repoRoot, { recursive: true, force: true });
+    });
+
+    suite('buildTrailers', () => {
+        test('should include story, branch and one line per component', () => {
+            const trailers = service.buildTrailers({ branch: 'main', userStoryRef: ' US-1 ', items });
+
+            assert.deepStrictEqual(trailers.split('\n'), [
+                `${STUDIO_TRAILERS.story}: US-1`,
+                `${STUDIO_TRAILERS.branch}: main`,
+                `${STUDIO_TRAILERS.component}: ApexClass:MyClass`,
+                `${STUDIO_TRAILERS.component}: CustomField:Account.Rating__c`,
+            ]);
+        });
+
+        test('should omit the story trailer when no ref is given', () => {
+            const trailers = service.buildTrailers({ branch: 'main', items });
+            assert.ok(!trailers.includes(STUDIO_TRAILERS.story));
+        });
+    });
+
+    suite('undoLastCommit', () => {
+        function commitStudio(files: Record<string, string>, subject: string): void {
+            for (const [relativePath, content] of Object.entries(files)) {
+                const fullPath = path.join(repoRoot, relativePath);
+                fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+                fs.writeFileSync(fullPath, content);
+            }
+            git('add', '.');
+            git('commit', '--quiet', '-m', service.appendTrailers(subject, service.buildTrailers({ branch: 'main', items })));
+        }
+
+        test('should restore modified files, remove added ones and keep unrelated edits', async () => {
+            commitFile('classes/MyClass.cls', 'original');
+            commitFile('notes.txt', 'notes');
+            const before = git('rev-parse', 'HEAD').trim();
+
+            commitStudio({ 'classes/MyClass.cls': 'retrieved', 'classes/NewClass.cls': 'new' }, 'Retrieve');
+            fs.writeFileSync(path.join(repoRoot, 'notes.txt'), 'local edit');
+
+            const result = await service.undoLastCommit();
+
+            assert.strictEqual(git('rev-parse', 'HEAD').trim(), before);
+            assert.deepStrictEqual(result.restoredFiles, ['classes/MyClass.cls']);
+            assert.deepStrictEqual(result.removedFiles, ['classes/NewClass.cls']);
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'classes/MyClass.cls'), 'utf8'), 'original');
+            assert.ok(!fs.existsSync(path.join(repoRoot, 'classes/NewClass.cls')));
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'notes.txt'), 'utf8'), 'local edit');
+            assert.strictEqual(git('diff', '--cached', '--name-only').trim(), '');
+        });
+
+        test('should refuse to discard edits made after the commit unless asked to', async () => {
+            commitFile('classes/MyClass.cls', 'original');
+            commitStudio({ 'classes/MyClass.cls': 'retrieved' }, 'Retrieve');
+            fs.writeFileSync(path.join(repoRoot, 'classes/MyClass.cls'), 'edited after the commit');
+
+            assert.deepStrictEqual((await service.getUndoableCommit()).modifiedFiles, ['classes/MyClass.cls']);
+            await assert.rejects(() => service.undoLastCommit(), /1 files changed by the last commit have been edited since/);
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'classes/MyClass.cls'), 'utf8'), 'edited after the commit');
+
+            await service.undoLastCommit({ discardLocalChanges: true });
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'classes/MyClass.cls'), 'utf8'), 'original');
+        });
+
+        test('should report the edits stashed before the retrieve', async () => {
+            commitFile('classes/MyClass.cls', 'original');
+            fs.writeFileSync(path.join(repoRoot, 'classes/MyClass.cls'), 'local edit');
+            git('stash', 'push', '--quiet', '-m', `${STUDIO_STASH_MESSAGE} 1 components`);
+            commitStudio({ 'classes/MyClass.cls': 'retrieved' }, 'Retrieve');
+
+            const result = await service.undoLastCommit();
+
+            assert.deepStrictEqual(result.stashes, [`stash@{0}: On main: ${STUDIO_STASH_MESSAGE} 1 components`]);
+        });
+
+        test('should refuse when HEAD is not a Studio commit', async () => {
+            commitFile('README.md', 'Manual commit');
+            commitFile('README.md', 'Another manual commit');
+
+            await assert.rejects(() => service.undoLastCommit(), /not made with SF Commit Studio/);
+        });
+
+        test('should refuse when HEAD has been pushed', async () => {
+            const remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-history-remote-'));
+            try {
+                execFileSync('git', ['init', '--quiet', '--bare'], { cwd: remoteDir });
+                git('remote', 'add', 'origin', remoteDir);
+                commitFile('README.md', 'Manual commit');
+                commitStudio({ 'classes/MyClass.cls': 'retrieved' }, 'Retrieve');
+                git('push', '--quiet', 'origin', 'main');
+
+                await assert.rejects(() => service.undoLastCommit(), /already been pushed/);
+            } finally {
+                fs.rmSync(remoteDir, { recursive: true, force: true });
+            }
+        });
+
+        test('should refuse when HEAD has been pushed to a path remote', async () => {
+            const remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-history-remote-'));
+            try {
+                execFileSync('git', ['init', '--quiet', '--bare'], { cwd: remoteDir });
+                commitFile('README.md', 'Manual commit');
+                commitStudio({ 'classes/MyClass.cls': 'retrieved' }, 'Retrieve');
+                git('push', '--quiet', '--set-upstream', remoteDir, 'main');
+
+                await assert.rejects(() => service.undoLastCommit(), /already been pushed/);
+            } finally {
+                fs.rmSync(remoteDir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    suite('getHistory', () => {
+        test('should return an empty list for a repository without commits', async () => {
+            assert.deepStrictEqual(await service.getHistory(10), []);
+        });
+
+        test('should list only Studio commits with their components and files', async () => {
+            commitFile('README.md', 'Manual commit');
+            const studioMessage = service.appendTrailers(
+                '[US-1] Add class',
+                service.buildTrailers({ branch: 'main', userStoryRef: 'US-1', items: [items[0]] })
+            );
+            commitFile('force-app/main/default/classes/MyClass.cls', studioMessage);
+
+            const history = await service.getHistory(10);
+
+            assert.strictEqual(history.length, 1);
+            assert.strictEqual(history[0].message, '[US-1] Add class');
+            assert.strictEqual(history[0].userStoryRef, 'US-1');
+            assert.strictEqual(history[0].branch, 'main');
+            assert.strictEqual(history[0].author, 'Test User');
+            assert.deepStrictEqual(history[0].components, [{
+                type: 'ApexClass',
+                componentName: 'MyClass',
+                paths: ['force-app/main/default/classes/MyClass.cls'],
+            }]);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { CommitMessageTemplate } from '../../services/CommitMessageTemplate.js';
+import type { CommitMessageOptions } from '../../services/CommitMessageTemplate.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for CommitMessageTemplate.
+ */
+suite('CommitMessageTemplate', () => {
+    const items: MetadataChange[] = [
+        { id: 'ApexClass:B', componentName: 'B', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' },
+        { id: 'Flow:F', componentName: 'F', type: 'Flow', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' },
+        { id: 'ApexClass:A', componentName: 'A', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' },
+    ];
+
+    function create(options: Partial<CommitMessageOptions> = {}): CommitMessageTemplate {
+        return new CommitMessageTemplate({
+            template: '',
+            storyPrefixFormat: '[{story}]',
+            listComponents: false,
+            conventionalCommits: false,
+            ...options,
+        });
+    }
+
+    // ─── render ────────────────────────────────────────────────────
+
+    suite('render', () => {
+        test('should prefix the story ref without a template', () => {
+            assert.strictEqual(
+                create().render({ message: 'Update layout', userStoryRef: ' US-123 ', items }),
+                '[US-123] Update layout'
+            );
+            assert.strictEqual(create().render({ message: 'Update layout', items }), 'Update layout');
+        });
+
+        test('should replace every token', () => {
+            const template = create({ template: '{story} {message} | {types} | {count} | {org} | {user} | {components}' });
+
+            assert.strictEqual(
+                template.render({ message: 'Msg', userStoryRef: 'US-1', org: 'dev', user: 'Ada', items }),
+                'US-1 Msg | ApexClass, Flow | 3 | dev | Ada | ApexClass:A, ApexClass:B, Flow:F'
+            );
+        });
+
+        test('should drop empty tokens with their brackets', () => {
+            const template = create({ template: 'feat({story}): {message} [{org}]' });
+
+            assert.strictEqual(template.render({ message: 'add validation', items }), 'feat: add validation');
+            assert.strictEqual(
+                template.render({ message: 'add validation', userStoryRef: 'US-9', items }),
+                'feat(US-9): add validation'
+            );
+        });
+
+        test('should never alter the typed message', () => {
+            const template = create({ template: '{story} {message}' });
+
+            assert.strictEqual(template.render({ message: 'Ratio  :  fix ()', items }), 'Ratio  :  fix ()');
+        });
+
+        test('should keep extra lines as the body and list components when enabled', () => {
+            const template = create({ listComponents: true });
+
+            assert.strictEqual(
+                template.render({ message: 'Subject\n\nMore detail', items }),
+                'Subject\n\nMore detail\n\nComponents:\n- ApexClass:A\n- ApexClass:B\n- Flow:F'
+            );
+        });
+    });
+
+    // ─── validate ──────────────────────────────────────────────────
+
+    suite('validate', () => {
+        test('should reject an empty subject', () => {
+            assert.match(create().validate('') ?? '', /empty/);
+        });
+
+        test('should accept any message unless Conventional Commits is on', () => {
+            assert.strictEqual(create().validate('Update layout'), undefined);
+        });
+
+        test('should check the Conventional Commits type prefix', () => {
+            const template = create({ conventionalCommits: true });
+
+            assert.strictEqual(template.validate('feat(US-123): add validation'), undefined);
+            assert.strictEqual(template.validate('fix!: drop field\n\nbody'), undefined);
+            assert.strictEqual(template.validate('chore: tidy'), undefined);
+            assert.match(template.validate('Update layout') ?? '', /does not follow Conventional Commits/);
+            assert.ok(template.validate('feature: add validation'), 'Unknown types are rejected');
+            assert.ok(template.validate('feat:missing space'), 'A space must follow the colon');
+            assert.ok(template.validate('feat(): empty scope'), 'The scope cannot be empty');
+        });
+    });
+});
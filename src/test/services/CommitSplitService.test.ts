@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommitSplitService } from '../../services/CommitSplitService.js';
+import { SourcePathService } from '../../services/SourcePathService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for CommitSplitService.
+ */
+suite('CommitSplitService', () => {
+    let projectRoot: string;
+    let service: CommitSplitService;
+
+    const item = (type: string, componentName: string, modifiedBy: string): MetadataChange => ({
+        id: `${type}:${componentName}`,
+        componentName,
+        type,
+        modifiedBy,
+        date: '2026-02-10T10:00:00.000Z',
+    });
+
+    const foo = item('ApexClass', 'Foo', 'raj@acme.com');
+    const bar = item('ApexClass', 'Bar', 'jane@acme.com');
+    const flow = item('Flow', 'Onboarding', 'jane@acme.com');
+    const paths = [
+        'force-app/main/default/classes/Foo.cls',
+        'force-app/main/default/classes/Foo.cls-meta.xml',
+        'force-app/main/default/classes/Bar.cls',
+        'force-app/main/default/flows/Onboarding.flow-meta.xml',
+        'manifest/destructiveChanges.xml',
+    ];
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-split-'));
+        fs.writeFileSync(
+            path.join(projectRoot, 'sfdx-project.json'),
+            JSON.stringify({ packageDirectories: [{ path: 'force-app', default: true }] })
+        );
+        service = new CommitSplitService(new SourcePathService(projectRoot));
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('should make one group with every file when not splitting', () => {
+        const groups = service.split([foo, bar, flow], undefined, paths);
+
+        assert.strictEqual(groups.length, 1);
+        assert.strictEqual(groups[0].label, '');
+        assert.deepStrictEqual(groups[0].paths, paths);
+    });
+
+    test('should group by author and give each group the files of its components', () => {
+        const groups = service.split([foo, bar, flow], 'author', paths);
+
+        assert.deepStrictEqual(groups.map(g => g.label), ['jane@acme.com', 'raj@acme.com']);
+        assert.deepStrictEqual(groups[0].items, [bar, flow]);
+        assert.deepStrictEqual(groups[0].paths, [
+            'force-app/main/default/classes/Bar.cls',
+            'force-app/main/default/flows/Onboarding.flow-meta.xml',
+        ]);
+        assert.deepStrictEqual(groups[1].paths, [
+            'force-app/main/default/classes/Foo.cls',
+            'force-app/main/default/classes/Foo.cls-meta.xml',
+            'manifest/destructiveChanges.xml',
+        ]);
+    });
+
+    test('should group by type and leave out groups with nothing to commit', () => {
+        const groups = service.split([foo, bar, flow], 'type', paths.slice(0, 3));
+
+        assert.deepStrictEqual(groups.map(g => `${g.label}:${g.paths.length}`), ['ApexClass:3']);
+        assert.deepStrictEqual(service.group([foo, flow], 'type').map(g => g.label), ['ApexClass', 'Flow']);
+    });
+});
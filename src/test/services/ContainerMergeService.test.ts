@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { ContainerMergeService } from '../../services/ContainerMergeService.js';
+
+/**
+ * Unit tests for ContainerMergeService.
+ */
+suite('ContainerMergeService', () => {
+    const service = new ContainerMergeService('/unused');
+
+    const workflow = (...elements: string[]) => [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Workflow xmlns="http://soap.sforce.com/2006/04/metadata">',
+        ...elements.map(element => `    ${element}`),
+        '</Workflow>',
+        '',
+    ].join('\n');
+    const rule = (name: string, active: boolean) =>
+        `<rules><fullName>${name}</fullName><active>${active}</active></rules>`;
+    const alert = (name: string) => `<alerts><fullName>${name}</fullName></alerts>`;
+
+    test('should replace retrieved components and keep the others', () => {
+        const merged = service.merge(
+            workflow(alert('Notify'), rule('Close', false), rule('Open', false)),
+            workflow(rule('Close', true))
+        );
+
+        assert.strictEqual(merged, workflow(alert('Notify'), rule('Close', true), rule('Open', false)));
+    });
+
+    test('should insert new components in sorted order', () => {
+        const merged = service.merge(workflow(alert('Notify'), rule('Open', false)), workflow(rule('Close', true)));
+
+        assert.strictEqual(merged, workflow(alert('Notify'), rule('Close', true), rule('Open', false)));
+    });
+
+    test('should keep the retrieved file when the local copy cannot be parsed', () => {
+        assert.strictEqual(service.merge('', workflow(rule('Close', true))), workflow(rule('Close', true)));
+    });
+});
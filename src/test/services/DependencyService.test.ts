@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DependencyService } from '../../services/DependencyService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for DependencyService.
+ */
+suite('DependencyService', () => {
+    let projectRoot: string;
+    let service: DependencyService;
+
+    const item = (type: string, componentName: string, changeKind?: 'Deleted'): MetadataChange => ({
+        id: `${type}:${componentName}`,
+        componentName,
+        type,
+        modifiedBy: 'jane@example.com',
+        date: '2026-02-10T10:00:00.000Z',
+        changeKind,
+    });
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-deps-'));
+        fs.writeFileSync(
+            path.join(projectRoot, 'sfdx-project.json'),
+            JSON.stringify({ packageDirectories: [{ path: 'force-app', default: true }] })
+        );
+        const flexiPage = path.join(projectRoot, 'force-app/main/default/flexipages/Account_Record.flexipage-meta.xml');
+        fs.mkdirSync(path.dirname(flexiPage), { recursive: true });
+        fs.writeFileSync(flexiPage, [
+            '<FlexiPage>',
+            '    <componentName>force:highlightsPanel</componentName>',
+            '    <componentName>c:accountSummary</componentName>',
+            '    <componentName>c__legacyPanel</componentName>',
+            '</FlexiPage>',
+        ].join('\n'));
+        service = new DependencyService(projectRoot);
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('should suggest the parent object of object children', () => {
+        const field = item('CustomField', 'Account.Rating__c');
+        const rule = item('ValidationRule', 'Account.Rating_Required');
+        const account = item('CustomObject', 'Account');
+
+        const suggestions = service.suggest([field, rule], [field, rule, account, item('CustomObject', 'Contact')]);
+
+        assert.deepStrictEqual(suggestions, [{
+            id: 'CustomObject:Account',
+            type: 'CustomObject',
+            componentName: 'Account',
+            reason: 'Parent object of CustomField Account.Rating__c',
+        }]);
+    });
+
+    test('should suggest test classes named after selected classes', () => {
+        const selected = item('ApexClass', 'AccountService');
+        const items = [
+            selected,
+            item('ApexClass', 'AccountServiceTest'),
+            item('ApexClass', 'Test_AccountService'),
+            item('ApexClass', 'AccountServiceHelper'),
+        ];
+
+        assert.deepStrictEqual(
+            service.suggest([selected], items).map(s => s.componentName),
+            ['AccountServiceTest', 'Test_AccountService']
+        );
+    });
+
+    test('should suggest custom bundles placed on a selected FlexiPage', () => {
+        const page = item('FlexiPage', 'Account_Record');
+        const items = [
+            page,
+            item('LightningComponentBundle', 'accountSummary'),
+            item('AuraDefinitionBundle', 'legacyPanel'),
+            item('LightningComponentBundle', 'unused'),
+        ];
+
+        const suggestions = service.suggest([page], items);
+
+        assert.deepStrictEqual(suggestions.map(s => s.id), [
+            'LightningComponentBundle:accountSummary',
+            'AuraDefinitionBundle:legacyPanel',
+        ]);
+        assert.strictEqual(suggestions[0].reason, 'Used by FlexiPage Account_Record');
+    });
+
+    test('should skip selected, unfetched and deleted components', () => {
+        const field = item('CustomField', 'Account.Rating__c');
+        const otherField = item('CustomField', 'Contact.Level__c');
+        const account = item('CustomObject', 'Account');
+
+        assert.deepStrictEqual(service.suggest([field, account], [field, account]), []);
+        assert.deepStrictEqual(service.suggest([otherField], [otherField, item('CustomObject', 'Contact', 'Deleted')]), []);
+    });
+});
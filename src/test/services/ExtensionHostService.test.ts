@@ -2,9 +2,12 @@ import * as assert from 'assert';
 import * as sinon from 'sinon';
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as childProcess from 'child_process';
 import { ExtensionHostService } from '../../services/ExtensionHostService.js';
+import { MetadataCache } from '../../services/MetadataCache.js';
+import { SfCliService } from '../../services/SfCliService.js';
 import type { WebviewMessage, MetadataChange } from '../../types.js';
 
 /**
@@ -71,7 +74,7 @@ suite('ExtensionHostService', () => {
 
             await service.handleMessage(message, mockWebview);
 
-            // Should have called postMessage (either metadataLoaded or error)
+            // Should have called postMessage (either metadataComplete or error)
             assert.ok(
                 postMessageStub.calledOnce,
                 'Should send exactly one response message'
@@ -104,6 +107,17 @@ suite('ExtensionHostService', () => {
             // Should respond (with error since no workspace, but still responds)
             assert.ok(postMessageStub.called);
         });
+
+        test('should ignore cancelOperation when nothing is running', async () => {
+            const message: WebviewMessage = {
+                command: 'cancelOperation',
+                requestId: 'req-4',
+            };
+
+            await service.handleMessage(message, mockWebview);
+            assert.ok(postMessageStub.notCalled);
+            assert.doesNotThrow(() => service.dispose());
+        });
     });
 
     // ─── fetchMetadata ─────────────────────────────────────────────
@@ -210,6 +224,39 @@ suite('ExtensionHostService', () => {
             );
         });
 
+        test('should reject a User Story Ref that does not match the configured pattern', async () => {
+            const tempDir = path.join(__dirname, '__test-workspace__');
+            sandbox.stub(vscode.workspace, 'workspaceFolders').value([
+                { uri: { fsPath: tempDir } },
+            ]);
+            sandbox.stub(fs, 'existsSync').returns(true);
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue?: unknown) => (key === 'story.pattern' ? 'US-\\d{7}' : defaultValue),
+            } as unknown as vscode.WorkspaceConfiguration);
+
+            const message: WebviewMessage = {
+                command: 'commitChanges',
+                payload: {
+                    selectedIds: ['001'],
+                    message: 'test commit',
+                    userStoryRef: 'US-00275',
+                    targetOrg: 'testOrg',
+                },
+                requestId: 'req-commit-story',
+            };
+
+            await service.handleMessage(message, mockWebview);
+
+            const errorCall = postMessageStub.getCalls().find(
+                (call: sinon.SinonSpyCall) => call.args[0].command === 'error'
+            );
+            assert.ok(errorCall, 'Should send an error message');
+            assert.ok(
+                errorCall!.args[0].payload.message.includes('not a valid User Story Ref'),
+                'Error should explain that the reference is invalid'
+            );
+        });
+
         test('should send error when selectedIds match nothing in cache', async () => {
             const tempDir = path.join(__dirname, '__test-workspace__');
             sandbox.stub(vscode.workspace, 'workspaceFolders').value([
@@ -239,6 +286,165 @@ suite('ExtensionHostService', () => {
                 'Error should mention no items found'
             );
         });
+
+        test('should report the stash when the retrieve fails after Stash and Continue', async () => {
+            const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-commit-'));
+            const classFile = path.join(projectRoot, 'force-app', 'main', 'default', 'classes', 'MyApexClass.cls');
+            const git = (...args: string[]) => childProcess.execFileSync('git', args, { cwd: projectRoot, encoding: 'utf8' });
+            try {
+                fs.writeFileSync(
+                    path.join(projectRoot, 'sfdx-project.json'),
+                    JSON.stringify({ packageDirectories: [{ path: 'force-app', default: true }] })
+                );
+                fs.mkdirSync(path.dirname(classFile), { recursive: true });
+                fs.writeFileSync(classFile, 'committed');
+                git('init', '--quiet', '--initial-branch=main');
+                git('config', 'user.name', 'Test User');
+                git('config', 'user.email', 'test@example.com');
+                git('add', '.');
+                git('commit', '--quiet', '-m', 'initial');
+                fs.writeFileSync(classFile, 'edited locally');
+
+                sandbox.stub(vscode.workspace, 'workspaceFolders').value([
+                    { name: 'app', uri: { fsPath: projectRoot } },
+                ]);
+                sandbox.stub(MetadataCache.prototype, 'getItems').returns([sampleMetadata[0]]);
+                sandbox.stub(vscode.window, 'showWarningMessage')
+                    .resolves('Stash and Continue' as unknown as vscode.MessageItem);
+                sandbox.stub(SfCliService.prototype, 'retrieve').rejects(new Error('INVALID_SESSION_ID'));
+
+                await service.handleMessage(
+                    {
+                        command: 'commitChanges',
+                        payload: { selectedIds: ['001'], message: 'test commit', targetOrg: 'testOrg' },
+                        requestId: 'req-commit-stash',
+                    },
+                    mockWebview
+                );
+
+                const results = postMessageStub.getCalls()
+                    .map((c: sinon.SinonSpyCall) => c.args[0])
+                    .filter(m => m.command === 'commitResult' || m.command === 'error');
+                assert.strictEqual(results.length, 1, 'Should send exactly one outcome');
+                assert.strictEqual(results[0].command, 'commitResult');
+                assert.strictEqual(results[0].payload.success, false);
+                assert.ok(results[0].payload.error.includes('INVALID_SESSION_ID'));
+                assert.ok(results[0].payload.stashMessage.startsWith('SF Commit Studio'));
+                assert.ok(git('stash', 'list').includes(results[0].payload.stashMessage));
+            } finally {
+                fs.rmSync(projectRoot, { recursive: true, force: true });
+            }
+        });
+    });
+
+    // ─── getConfig ─────────────────────────────────────────────────
+
+    suite('handleMessage - getConfig', () => {
+        test('should send the webview settings, falling back to defaults', async () => {
+            const values: Record<string, unknown> = {
+                'commit.largeCommitThreshold': 10,
+                'org.default': ' dev-sandbox ',
+            };
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue?: unknown) => (key in values ? values[key] : defaultValue),
+            } as unknown as vscode.WorkspaceConfiguration);
+
+            await service.handleMessage({ command: 'getConfig', requestId: 'req-config' }, mockWebview);
+
+            sinon.assert.calledWith(postMessageStub, {
+                command: 'config',
+                payload: {
+                    autoFetchOnOpen: true,
+                    defaultOrg: 'dev-sandbox',
+                    largeCommitThreshold: 10,
+                    pageSize: 25,
+                    storyPattern: '',
+                    storyRequired: false,
+                },
+                requestId: 'req-config',
+            });
+        });
+    });
+
+    // ─── getProjectList ────────────────────────────────────────────
+
+    suite('handleMessage - getProjectList', () => {
+        test('should list only workspace folders with an sfdx-project.json', async () => {
+            const appDir = path.join(__dirname, '__test-app__');
+            const docsDir = path.join(__dirname, '__test-docs__');
+            sandbox.stub(vscode.workspace, 'workspaceFolders').value([
+                { name: 'docs', uri: { fsPath: docsDir } },
+                { name: 'app', uri: { fsPath: appDir } },
+            ]);
+            sandbox.stub(fs, 'existsSync').callsFake(
+                (file: fs.PathLike) => String(file) === path.join(appDir, 'sfdx-project.json')
+            );
+
+            await service.handleMessage(
+                { command: 'getProjectList', requestId: 'req-projects' },
+                mockWebview
+            );
+
+            const call = postMessageStub.getCalls().find(
+                (c: sinon.SinonSpyCall) => c.args[0].command === 'projectList'
+            );
+            assert.ok(call, 'Should send a projectList message');
+            assert.deepStrictEqual(
+                call!.args[0].payload.projects.map((p: { name: string }) => p.name),
+                ['app']
+            );
+        });
+
+        test('should refuse to commit to a folder outside the workspace projects', async () => {
+            const appDir = path.join(__dirname, '__test-app__');
+            sandbox.stub(vscode.workspace, 'workspaceFolders').value([
+                { name: 'app', uri: { fsPath: appDir } },
+            ]);
+            sandbox.stub(fs, 'existsSync').returns(true);
+
+            await service.handleMessage(
+                {
+                    command: 'commitChanges',
+                    payload: { selectedIds: ['001'], message: 'test', projectRoot: '/elsewhere' },
+                    requestId: 'req-commit-outside',
+                },
+                mockWebview
+            );
+
+            const errorCall = postMessageStub.getCalls().find(
+                (c: sinon.SinonSpyCall) => c.args[0].command === 'error'
+            );
+            assert.ok(errorCall, 'Should send an error message');
+            assert.ok(errorCall!.args[0].payload.message.includes('is not a Salesforce project'));
+        });
+    });
+
+    // ─── Selection Sets ────────────────────────────────────────────
+
+    suite('handleMessage - loadSelectionSet', () => {
+        test('should send error when the set does not exist', async () => {
+            sandbox.stub(vscode.workspace, 'workspaceFolders').value([
+                { name: 'app', uri: { fsPath: path.join(__dirname, '__test-app__') } },
+            ]);
+            sandbox.stub(fs, 'existsSync').callsFake(
+                (file: fs.PathLike) => String(file).endsWith('sfdx-project.json')
+            );
+
+            await service.handleMessage(
+                {
+                    command: 'loadSelectionSet',
+                    payload: { name: 'US-123', location: 'shared' },
+                    requestId: 'req-load-set',
+                },
+                mockWebview
+            );
+
+            const errorCall = postMessageStub.getCalls().find(
+                (c: sinon.SinonSpyCall) => c.args[0].command === 'error'
+            );
+            assert.ok(errorCall, 'Should send an error message');
+            assert.ok(errorCall!.args[0].payload.message.includes('no longer exists'));
+        });
     });
 
     // ─── Commit Message Building ───────────────────────────────────
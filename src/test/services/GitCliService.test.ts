@@ -0,0 +1,366 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { GitCliService } from '../../services/GitCliService.js';
+
+/**
+ * Unit tests for GitCliService.
+ *
+ * Each test runs against a fresh repository in a temp directory,
+ * so real git behaviour is exercised without touching the workspace.
+ */
+suite('GitCliService', () => {
+    let repoRoot: string;
+    let service: GitCliService;
+
+    function git(...args: string[]): string {
+        return execFileSync('git', args, { cwd: repoRoot, encoding: 'utf8' });
+    }
+
+    function writeFile(relativePath: string, content: string): void {
+        const fullPath = path.join(repoRoot, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+
+    setup(() => {
+        repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-git-'));
+        git('init', '--quiet', '--initial-branch=main');
+        git('config', 'user.name', 'Test User');
+        git('config', 'user.email', 'test@example.com');
+        writeFile('README.md', 'initial');
+        git('add', '.');
+        git('commit', '--quiet', '-m', 'initial');
+        service = new GitCliService(repoRoot);
+    });
+
+    teardown(() => {
+        fs.rmSync(repoRoot, { recursive: true, force: true });
+    });
+
+    // ─── remove ────────────────────────────────────────────────────
+
+    suite('remove', () => {
+        test('should delete and stage tracked files', async () => {
+            await service.remove(['README.md']);
+
+            assert.ok(!fs.existsSync(path.join(repoRoot, 'README.md')));
+            assert.ok(git('status', '--porcelain').includes('D  README.md'));
+        });
+
+        test('should ignore paths that are not tracked', async () => {
+            await service.remove(['missing.txt']);
+            assert.strictEqual(git('status', '--porcelain'), '');
+        });
+    });
+
+    // ─── Branches ──────────────────────────────────────────────────
+
+    suite('branches', () => {
+        test('getCurrentBranch should return the checked-out branch', async () => {
+            assert.strictEqual(await service.getCurrentBranch(), 'main');
+        });
+
+        test('checkoutBranch should create a missing branch from the start point', async () => {
+            const created = await service.checkoutBranch('feature/US-0000275', 'main');
+
+            assert.strictEqual(created, true);
+            assert.strictEqual(await service.getCurrentBranch(), 'feature/US-0000275');
+        });
+
+        test('checkoutBranch should switch to an existing branch', async () => {
+            git('branch', 'feature/existing');
+            const created = await service.checkoutBranch('feature/existing');
+
+            assert.strictEqual(created, false);
+            assert.strictEqual(await service.getCurrentBranch(), 'feature/existing');
+        });
+
+        test('checkoutBranch should reject invalid branch names', async () => {
+            await assert.rejects(
+                () => service.checkoutBranch('feature/has space'),
+                /not a valid Git branch name/
+            );
+        });
+
+        test('hasUncommittedChanges should ignore untracked files', async () => {
+            writeFile('untracked.txt', 'new');
+            assert.strictEqual(await service.hasUncommittedChanges(), false);
+
+            writeFile('README.md', 'edited');
+            assert.strictEqual(await service.hasUncommittedChanges(), true);
+        });
+    });
+
+    // ─── Local changes ─────────────────────────────────────────────
+
+    suite('local changes', () => {
+        test('getModifiedFiles should list edited and untracked files among the given paths', async () => {
+            writeFile('classes/Foo.cls', 'committed');
+            writeFile('classes/Bar.cls', 'committed');
+            git('add', '.');
+            git('commit', '--quiet', '-m', 'classes');
+
+            writeFile('classes/Foo.cls', 'edited');
+            writeFile('classes/New.cls', 'untracked');
+            writeFile('README.md', 'edited but not asked about');
+
+            const modified = await service.getModifiedFiles(['classes/Foo.cls', 'classes/Bar.cls', 'classes/New.cls']);
+
+            assert.deepStrictEqual(modified.sort(), ['classes/Foo.cls', 'classes/New.cls']);
+            assert.deepStrictEqual(await service.getModifiedFiles([]), []);
+        });
+
+        test('stashPush should stash only the given files', async () => {
+            writeFile('classes/Foo.cls', 'committed');
+            git('add', '.');
+            git('commit', '--quiet', '-m', 'classes');
+            writeFile('classes/Foo.cls', 'edited');
+            writeFile('classes/New.cls', 'untracked');
+            writeFile('README.md', 'kept');
+
+            await service.stashPush(['classes/Foo.cls', 'classes/New.cls'], 'before retrieve');
+
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'classes/Foo.cls'), 'utf8'), 'committed');
+            assert.ok(!fs.existsSync(path.join(repoRoot, 'classes/New.cls')));
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'README.md'), 'utf8'), 'kept');
+            assert.ok(git('stash', 'list').includes('before retrieve'));
+        });
+
+        test('restoreWorktree should put back the staged content', async () => {
+            writeFile('classes/Foo.cls', 'staged');
+            git('add', '.');
+            writeFile('classes/Foo.cls', 'overwritten by a retrieve');
+
+            await service.restoreWorktree(['classes/Foo.cls']);
+
+            assert.strictEqual(fs.readFileSync(path.join(repoRoot, 'classes/Foo.cls'), 'utf8'), 'staged');
+            assert.strictEqual(git('status', '--porcelain'), 'A  classes/Foo.cls\n');
+        });
+    });
+
+    // ─── Repository status ─────────────────────────────────────────
+
+    suite('repository status', () => {
+        test('getTrackedFiles should list only committed or staged files', async () => {
+            writeFile('classes/Foo.cls', 'committed');
+            git('add', '.');
+            git('commit', '--quiet', '-m', 'classes');
+            writeFile('classes/New.cls', 'untracked');
+
+            assert.deepStrictEqual(await service.getTrackedFiles(['classes/Foo.cls', 'classes/New.cls']), ['classes/Foo.cls']);
+            assert.deepStrictEqual(await service.getTrackedFiles([]), []);
+        });
+
+        test('getLastCommitDates should return the date of the newest commit per file', async () => {
+            const commitAt = (message: string, date: string) => execFileSync('git', ['commit', '--quiet', '-m', message], {
+                cwd: repoRoot,
+                env: { ...process.env, GIT_COMMITTER_DATE: date },
+            });
+            writeFile('classes/Foo.cls', 'first');
+            writeFile('classes/Bar.cls', 'first');
+            git('add', '.');
+            commitAt('first', '2026-01-01T10:00:00Z');
+            writeFile('classes/Foo.cls', 'second');
+            git('add', '.');
+            commitAt('second', '2026-03-01T10:00:00Z');
+
+            const dates = await service.getLastCommitDates(['classes/Foo.cls', 'classes/Bar.cls', 'classes/None.cls']);
+
+            assert.strictEqual(Date.parse(dates.get('classes/Foo.cls') ?? ''), Date.parse('2026-03-01T10:00:00Z'));
+            assert.strictEqual(Date.parse(dates.get('classes/Bar.cls') ?? ''), Date.parse('2026-01-01T10:00:00Z'));
+            assert.ok(!dates.has('classes/None.cls'));
+        });
+    });
+
+    // ─── commitOnly ────────────────────────────────────────────────
+
+    suite('commitOnly', () => {
+        test('should commit the given paths and leave other staged files staged', async () => {
+            writeFile('classes/Foo.cls', 'retrieved');
+            writeFile('notes.txt', 'staged for other work');
+            git('add', '.');
+            git('rm', '--quiet', 'README.md');
+
+            const hash = await service.commitOnly(['classes/Foo.cls', 'README.md'], 'Studio commit');
+
+            assert.strictEqual(git('rev-parse', 'HEAD').trim(), hash);
+            assert.deepStrictEqual(
+                (await service.getCommitChanges(hash)).map(c => `${c.status} ${c.path}`),
+                ['D README.md', 'A classes/Foo.cls']
+            );
+            assert.deepStrictEqual(await service.getStagedFiles(), ['notes.txt']);
+        });
+
+        test('should set the author when one is given', async () => {
+            writeFile('classes/Foo.cls', 'retrieved');
+            git('add', '.');
+
+            await service.commitOnly(['classes/Foo.cls'], 'Studio commit', 'Jane Doe <jane@example.com>');
+
+            assert.strictEqual(git('log', '-1', '--format=%an <%ae>|%cn').trim(), 'Jane Doe <jane@example.com>|Test User');
+        });
+
+        test('should refuse an empty list of paths', async () => {
+            await assert.rejects(() => service.commitOnly([], 'Studio commit'), /Nothing to commit/);
+        });
+    });
+
+    // ─── getConfig ─────────────────────────────────────────────────
+
+    suite('getConfig', () => {
+        test('should read a configured value', async () => {
+            assert.strictEqual(await service.getConfig('user.name'), 'Test User');
+        });
+
+        test('should return an empty string for a missing key', async () => {
+            assert.strictEqual(await service.getConfig('sfcs.missing'), '');
+        });
+    });
+
+    // ─── log ───────────────────────────────────────────────────────
+
+    suite('log', () => {
+        test('should parse subject, trailers and changed files', async () => {
+            writeFile('src/a.txt', 'a');
+            git('add', '.');
+            git('commit', '--quiet', '-m', 'Add a\n\nStudio-Component: ApexClass:A\nStudio-Component: ApexClass:B');
+
+            const [entry] = await service.log({ maxCount: 1 });
+
+            assert.strictEqual(entry.subject, 'Add a');
+            assert.strictEqual(entry.author, 'Test User');
+            assert.deepStrictEqual(entry.trailers['Studio-Component'], ['ApexClass:A', 'ApexClass:B']);
+            assert.deepStrictEqual(entry.files, ['src/a.txt']);
+        });
+
+        test('should report non-ASCII paths unquoted', async () => {
+            writeFile('labels/Café.labels-meta.xml', 'a');
+            writeFile('labels/Zoë.labels-meta.xml', 'b');
+            git('add', '.');
+            assert.deepStrictEqual(await service.getStagedFiles(), ['labels/Café.labels-meta.xml', 'labels/Zoë.labels-meta.xml']);
+
+            git('commit', '--quiet', '-m', 'Add labels');
+            const [entry] = await service.log({ maxCount: 1 });
+            const dates = await service.getLastCommitDates(['labels/Café.labels-meta.xml']);
+
+            assert.deepStrictEqual(entry.files, ['labels/Café.labels-meta.xml', 'labels/Zoë.labels-meta.xml']);
+            assert.deepStrictEqual(
+                (await service.getCommitChanges(entry.hash)).map(c => c.path),
+                ['labels/Café.labels-meta.xml', 'labels/Zoë.labels-meta.xml']
+            );
+            assert.ok(dates.has('labels/Café.labels-meta.xml'));
+        });
+
+        test('should filter commits by message pattern', async () => {
+            const entries = await service.log({ maxCount: 10, grep: '^Studio-Component: ' });
+            assert.deepStrictEqual(entries, []);
+        });
+
+        test('should read a file at a revision', async () => {
+            const hash = git('rev-parse', 'HEAD').trim();
+            writeFile('README.md', 'changed');
+
+            assert.strictEqual(await service.showFile(hash, 'README.md'), 'initial');
+        });
+    });
+
+    // ─── Project in a subdirectory ─────────────────────────────────
+
+    suite('project in a repository subdirectory', () => {
+        let project: GitCliService;
+
+        setup(() => {
+            writeFile('apps/sales/classes/Foo.cls', 'committed');
+            writeFile('apps/sales/classes/Bar.cls', 'committed');
+            git('add', '.');
+            git('commit', '--quiet', '-m', 'project');
+            project = new GitCliService(path.join(repoRoot, 'apps', 'sales'));
+        });
+
+        test('should return staged and changed paths relative to the project', async () => {
+            writeFile('apps/sales/classes/Foo.cls', 'retrieved');
+            writeFile('notes.txt', 'outside the project');
+            git('add', '.');
+
+            assert.deepStrictEqual(await project.getStagedFiles(), ['classes/Foo.cls', '../../notes.txt']);
+            const commit = await project.commitOnly(['classes/Foo.cls'], 'Retrieve Foo');
+
+            assert.deepStrictEqual(await project.getCommitChanges(commit), [{ status: 'M', path: 'classes/Foo.cls' }]);
+            assert.deepStrictEqual((await project.log({ maxCount: 1 }))[0].files, ['classes/Foo.cls']);
+            assert.strictEqual(await project.showFile(commit, 'classes/Foo.cls'), 'retrieved');
+            assert.ok(
+                (await project.getLastCommitDates(['classes/Foo.cls', 'classes/Bar.cls'])).has('classes/Foo.cls')
+            );
+        });
+
+        test('should stash the modified files it reports', async () => {
+            writeFile('apps/sales/classes/Bar.cls', 'edited locally');
+
+            const modified = await project.getModifiedFiles(['classes/Foo.cls', 'classes/Bar.cls']);
+            assert.deepStrictEqual(modified, ['classes/Bar.cls']);
+            assert.deepStrictEqual(await project.getTrackedFiles(modified), ['classes/Bar.cls']);
+
+            await project.stashPush(modified, 'local edits');
+            assert.strictEqual(git('status', '--porcelain'), '');
+        });
+    });
+
+    // ─── push ──────────────────────────────────────────────────────
+
+    suite('push', () => {
+        let remoteDir: string;
+
+        setup(() => {
+            remoteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-remote-'));
+            execFileSync('git', ['init', '--quiet', '--bare'], { cwd: remoteDir });
+            git('remote', 'add', 'origin', remoteDir);
+        });
+
+        teardown(() => {
+            fs.rmSync(remoteDir, { recursive: true, force: true });
+        });
+
+        test('should push to a local bare repository and set the upstream', async () => {
+            await service.checkoutBranch('feature/US-1');
+            await service.push('origin', 'feature/US-1');
+
+            const remoteHead = execFileSync('git', ['rev-parse', 'feature/US-1'], {
+                cwd: remoteDir,
+                encoding: 'utf8',
+            }).trim();
+            assert.strictEqual(remoteHead, git('rev-parse', 'HEAD').trim());
+            assert.strictEqual(
+                git('rev-parse', '--abbrev-ref', 'feature/US-1@{upstream}').trim(),
+                'origin/feature/US-1'
+            );
+        });
+
+        test('should reject when the remote does not exist', async () => {
+            await assert.rejects(() => service.push('nowhere', 'main'));
+        });
+
+        test('isPushed should see commits pushed to a path remote', async () => {
+            await service.checkoutBranch('feature/US-1');
+            await service.push(remoteDir, 'feature/US-1');
+            const pushed = git('rev-parse', 'HEAD').trim();
+            writeFile('classes/Foo.cls', 'local');
+            git('add', '.');
+            git('commit', '--quiet', '-m', 'local only');
+
+            assert.strictEqual(git('branch', '--remotes').trim(), '');
+            assert.strictEqual(await service.isPushed(pushed), true);
+            assert.strictEqual(await service.isPushed('HEAD'), false);
+        });
+
+        test('isPushed should reject when the upstream cannot be reached', async () => {
+            await service.checkoutBranch('feature/US-1');
+            await service.push(remoteDir, 'feature/US-1');
+            fs.rmSync(remoteDir, { recursive: true, force: true });
+
+            await assert.rejects(() => service.isPushed('HEAD'), /Could not tell whether feature\/US-1 was pushed/);
+        });
+    });
+});
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import { ManifestService } from '../../services/ManifestService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for ManifestService.
+ *
+ * Covers parsing, merging and serialising package.xml-style manifests.
+ */
+suite('ManifestService', () => {
+    const service = new ManifestService();
+
+    const sampleXml = `<?xml version="1.0" encoding="UTF-8"?>
+<Package xmlns="http://soap.sforce.com/2006/04/metadata">
+    <types>
+        <members>MyClass</members>
+        <members>OtherClass</members>
+        <name>ApexClass</name>
+    </types>
+    <types>
+        <members>Account.Rating__c</members>
+        <name>CustomField</name>
+    </types>
+    <version>60.0</version>
+</Package>`;
+
+    suite('parse', () => {
+        test('should read types, members and version', () => {
+            const manifest = service.parse(sampleXml);
+
+            assert.deepStrictEqual([...manifest.types.keys()], ['ApexClass', 'CustomField']);
+            assert.deepStrictEqual([...manifest.types.get('ApexClass')!], ['MyClass', 'OtherClass']);
+            assert.strictEqual(manifest.version, '60.0');
+        });
+
+        test('should unescape XML entities in members', () => {
+            const manifest = service.parse(
+                '<Package><types><members>A &amp; B</members><name>Layout</name></types></Package>'
+            );
+            assert.ok(manifest.types.get('Layout')!.has('A & B'));
+        });
+
+        test('should return an empty manifest for empty input', () => {
+            const manifest = service.parse('');
+            assert.strictEqual(manifest.types.size, 0);
+            assert.strictEqual(manifest.version, undefined);
+        });
+    });
+
+    suite('addMembers', () => {
+        test('should add new types and skip duplicate members', () => {
+            const manifest = service.parse(sampleXml);
+            service.addMembers(manifest, [
+                { type: 'ApexClass', name: 'MyClass' },
+                { type: 'Flow', name: 'MyFlow' },
+            ]);
+
+            assert.strictEqual(manifest.types.get('ApexClass')!.size, 2);
+            assert.ok(manifest.types.get('Flow')!.has('MyFlow'));
+        });
+    });
+
+    suite('removeMembers', () => {
+        test('should remove members and drop types left empty', () => {
+            const manifest = service.parse(sampleXml);
+            service.removeMembers(manifest, [
+                { type: 'ApexClass', name: 'MyClass' },
+                { type: 'CustomField', name: 'Account.Rating__c' },
+                { type: 'Flow', name: 'NotListed' },
+            ]);
+
+            assert.deepStrictEqual([...manifest.types.keys()], ['ApexClass']);
+            assert.deepStrictEqual([...manifest.types.get('ApexClass')!], ['OtherClass']);
+        });
+    });
+
+    suite('updateDestructiveChanges', () => {
+        const apexClass = { type: 'ApexClass', name: 'MyClass' };
+        const flow = { type: 'Flow', name: 'MyFlow' };
+
+        test('should not create a manifest when nothing is deleted', () => {
+            assert.strictEqual(service.updateDestructiveChanges(undefined, [], [apexClass]), undefined);
+        });
+
+        test('should create a manifest listing the deleted components', () => {
+            const xml = service.updateDestructiveChanges(undefined, [apexClass, flow], []);
+
+            assert.deepStrictEqual([...service.parse(xml ?? '').types.keys()], ['ApexClass', 'Flow']);
+        });
+
+        test('should remove a recreated component once it is committed live', () => {
+            const existing = service.updateDestructiveChanges(undefined, [apexClass, flow], []);
+
+            const xml = service.updateDestructiveChanges(existing, [], [apexClass]);
+
+            assert.ok(xml && !xml.includes('MyClass'));
+            assert.ok(xml.includes('<members>MyFlow</members>'));
+        });
+
+        test('should leave the manifest alone when nothing changes', () => {
+            const existing = service.updateDestructiveChanges(undefined, [flow], []);
+
+            assert.strictEqual(service.updateDestructiveChanges(existing, [flow], [apexClass]), undefined);
+        });
+    });
+
+    suite('match', () => {
+        const items: MetadataChange[] = [
+            { id: 'ApexClass:MyClass', componentName: 'MyClass', type: 'ApexClass', modifiedBy: 'a', date: '' },
+            { id: 'ApexClass:Extra', componentName: 'Extra', type: 'ApexClass', modifiedBy: 'a', date: '' },
+            { id: 'Flow:A', componentName: 'A', type: 'Flow', modifiedBy: 'a', date: '' },
+            { id: 'Flow:B', componentName: 'B', type: 'Flow', modifiedBy: 'a', date: '' },
+        ];
+
+        test('should select listed members and report the ones without a row', () => {
+            const result = service.match(service.parse(sampleXml), items);
+
+            assert.deepStrictEqual(result.selectedIds, ['ApexClass:MyClass']);
+            assert.deepStrictEqual(result.missing, [
+                { type: 'ApexClass', componentName: 'OtherClass' },
+                { type: 'CustomField', componentName: 'Account.Rating__c' },
+            ]);
+        });
+
+        test('should select every row of a wildcard type', () => {
+            const manifest = service.parse(
+                '<Package><types><members>*</members><members>A</members><name>Flow</name></types>' +
+                '<types><members>*</members><name>Layout</name></types></Package>'
+            );
+
+            const result = service.match(manifest, items);
+
+            assert.deepStrictEqual(result.selectedIds, ['Flow:A', 'Flow:B']);
+            assert.deepStrictEqual(result.missing, [{ type: 'Layout', componentName: '*' }]);
+        });
+    });
+
+    suite('build', () => {
+        test('should sort types and members alphabetically', () => {
+            const xml = service.build({
+                types: new Map([
+                    ['Flow', new Set(['B', 'A'])],
+                    ['ApexClass', new Set(['Z'])],
+                ]),
+            });
+
+            assert.ok(xml.indexOf('<name>ApexClass</name>') < xml.indexOf('<name>Flow</name>'));
+            assert.ok(xml.indexOf('<members>A</members>') < xml.indexOf('<members>B</members>'));
+            assert.ok(!xml.includes('<version>'), 'Should omit version when not set');
+        });
+
+        test('should round-trip through parse', () => {
+            const manifest = service.parse(sampleXml);
+            const reparsed = service.parse(service.build(manifest));
+
+            assert.deepStrictEqual(reparsed, manifest);
+        });
+
+        test('should escape XML special characters', () => {
+            const xml = service.build({ types: new Map([['Layout', new Set(['A & <B>'])]]) });
+            assert.ok(xml.includes('<members>A &amp; &lt;B&gt;</members>'));
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { MetadataCache } from '../../services/MetadataCache.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for MetadataCache.
+ */
+suite('MetadataCache', () => {
+    let cache: MetadataCache;
+
+    function change(name: string, date: string, modifiedBy = 'jane@example.com'): MetadataChange {
+        return { id: `ApexClass:${name}`, componentName: name, type: 'ApexClass', modifiedBy, date };
+    }
+
+    setup(() => {
+        cache = new MetadataCache();
+        cache.reset('dev');
+        cache.append([change('A', '2026-02-10T10:00:00.000Z'), change('B', '2026-02-12T10:00:00.000Z')]);
+    });
+
+    suite('getWatermark', () => {
+        test('should be undefined until the fetch completes', () => {
+            assert.strictEqual(cache.getWatermark('dev'), undefined);
+        });
+
+        test('should return the newest date for the cached Org only', () => {
+            cache.complete(2);
+
+            assert.strictEqual(cache.getWatermark('dev'), '2026-02-12T10:00:00.000Z');
+            assert.strictEqual(cache.getWatermark('other'), undefined);
+        });
+    });
+
+    suite('snapshots', () => {
+        test('should only produce a snapshot once the fetch is complete', () => {
+            assert.strictEqual(cache.toSnapshot(), undefined);
+
+            cache.complete(5, '2026-02-13T08:00:00.000Z');
+
+            assert.deepStrictEqual(cache.toSnapshot(), {
+                fetchedAt: '2026-02-13T08:00:00.000Z',
+                items: cache.getItems(),
+                total: 5,
+            });
+        });
+
+        test('should restore a snapshot as a completed fetch', () => {
+            const other = new MetadataCache();
+            other.restore('dev', { fetchedAt: '2026-02-13T08:00:00.000Z', items: cache.getItems(), total: 2 });
+
+            assert.strictEqual(other.getOrg(), 'dev');
+            assert.strictEqual(other.getWatermark('dev'), '2026-02-12T10:00:00.000Z');
+        });
+    });
+
+    suite('merge', () => {
+        test('should update known components in place and add new ones', () => {
+            const before = cache.getItems()[0];
+
+            const changed = cache.merge([
+                change('A', '2026-02-13T10:00:00.000Z', 'john@example.com'),
+                change('C', '2026-02-13T11:00:00.000Z'),
+            ]);
+
+            assert.deepStrictEqual(changed.map(c => c.id), ['ApexClass:A', 'ApexClass:C']);
+            assert.strictEqual(cache.getItems().length, 3);
+            assert.strictEqual(cache.getItems()[0], before, 'Known rows should be updated, not replaced');
+            assert.strictEqual(before.modifiedBy, 'john@example.com');
+        });
+
+        test('should not report components that did not change', () => {
+            const changed = cache.merge([change('B', '2026-02-12T10:00:00.000Z')]);
+
+            assert.deepStrictEqual(changed, []);
+        });
+    });
+});
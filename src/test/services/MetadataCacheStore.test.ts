@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MetadataCacheStore } from '../../services/MetadataCacheStore.js';
+import type { MetadataSnapshot } from '../../services/MetadataCache.js';
+
+/**
+ * Unit tests for MetadataCacheStore.
+ */
+suite('MetadataCacheStore', () => {
+    let storageDir: string;
+    let store: MetadataCacheStore;
+
+    const snapshot: MetadataSnapshot = {
+        fetchedAt: '2026-02-13T08:00:00.000Z',
+        items: [{
+            id: 'ApexClass:A',
+            componentName: 'A',
+            type: 'ApexClass',
+            modifiedBy: 'jane@example.com',
+            date: '2026-02-10T10:00:00.000Z',
+        }],
+        total: 1,
+    };
+
+    setup(() => {
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-storage-'));
+        store = new MetadataCacheStore(storageDir);
+    });
+
+    teardown(() => {
+        fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    test('should round-trip a snapshot per username', () => {
+        store.write('jane@example.com', snapshot);
+
+        assert.deepStrictEqual(store.read('jane@example.com'), snapshot);
+        assert.strictEqual(store.read('john@example.com'), undefined);
+    });
+
+    test('should keep usernames inside the cache directory', () => {
+        store.write('../escape', snapshot);
+
+        assert.deepStrictEqual(fs.readdirSync(storageDir), ['metadata-cache']);
+        assert.deepStrictEqual(store.read('../escape'), snapshot);
+    });
+
+    test('should treat a corrupt file as a cache miss', () => {
+        store.write('jane@example.com', snapshot);
+        const [file] = fs.readdirSync(path.join(storageDir, 'metadata-cache'));
+        fs.writeFileSync(path.join(storageDir, 'metadata-cache', file), '{not json');
+
+        assert.strictEqual(store.read('jane@example.com'), undefined);
+    });
+});
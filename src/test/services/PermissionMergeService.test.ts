@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PermissionMergeService } from '../../services/PermissionMergeService.js';
+import { SourcePathService } from '../../services/SourcePathService.js';
+
+/**
+ * Unit tests for PermissionMergeService.
+ */
+suite('PermissionMergeService', () => {
+    let projectRoot: string;
+    let scratchDir: string;
+
+    const profile = (...entries: string[]) => [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Profile xmlns="http://soap.sforce.com/2006/04/metadata">',
+        ...entries,
+        '</Profile>',
+        '',
+    ].join('\n');
+
+    const fieldPermission = (field: string, editable: boolean) => [
+        '    <fieldPermissions>',
+        `        <editable>${editable}</editable>`,
+        `        <field>${field}</field>`,
+        '        <readable>true</readable>',
+        '    </fieldPermissions>',
+    ].join('\n');
+
+    const classAccess = (apexClass: string) => [
+        '    <classAccesses>',
+        `        <apexClass>${apexClass}</apexClass>`,
+        '        <enabled>true</enabled>',
+        '    </classAccesses>',
+    ].join('\n');
+
+    const custom = '    <custom>false</custom>';
+
+    const createService = (scope: { type: string; componentName: string }[]) =>
+        new PermissionMergeService(projectRoot, new SourcePathService(projectRoot), scope);
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-perm-'));
+        scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-perm-scratch-'));
+        fs.writeFileSync(
+            path.join(projectRoot, 'sfdx-project.json'),
+            JSON.stringify({ packageDirectories: [{ path: 'force-app', default: true }] })
+        );
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        fs.rmSync(scratchDir, { recursive: true, force: true });
+    });
+
+    suite('merge', () => {
+        test('should replace matching entries and keep everything else', () => {
+            const local = profile(classAccess('Other'), custom, fieldPermission('Account.Rating__c', false));
+            const retrieved = profile(classAccess('Other'), custom, fieldPermission('Account.Rating__c', true));
+
+            const merged = createService([{ type: 'CustomField', componentName: 'Account.Rating__c' }])
+                .merge(local, retrieved);
+
+            assert.strictEqual(merged, profile(classAccess('Other'), custom, fieldPermission('Account.Rating__c', true)));
+        });
+
+        test('should insert new entries in sorted order', () => {
+            const local = profile(
+                classAccess('Zeta'),
+                fieldPermission('Account.A__c', true),
+                fieldPermission('Account.C__c', true)
+            );
+            const retrieved = profile(classAccess('Alpha'), fieldPermission('Account.B__c', false));
+
+            const merged = createService([
+                { type: 'ApexClass', componentName: 'Alpha' },
+                { type: 'CustomField', componentName: 'Account.B__c' },
+            ]).merge(local, retrieved);
+
+            assert.strictEqual(merged, profile(
+                classAccess('Alpha'),
+                classAccess('Zeta'),
+                fieldPermission('Account.A__c', true),
+                fieldPermission('Account.B__c', false),
+                fieldPermission('Account.C__c', true)
+            ));
+        });
+
+        test('should leave out entries of unselected components and settings', () => {
+            const local = profile(custom);
+            const retrieved = profile(classAccess('Unselected'), '    <custom>true</custom>');
+
+            const merged = createService([{ type: 'ApexClass', componentName: 'Selected' }]).merge(local, retrieved);
+
+            assert.strictEqual(merged, local);
+        });
+
+        test('should merge the field entries of a selected object', () => {
+            const local = profile(custom);
+            const retrieved = profile(fieldPermission('Account.Rating__c', true), fieldPermission('Contact.Level__c', true));
+
+            const merged = createService([{ type: 'CustomObject', componentName: 'Account' }]).merge(local, retrieved);
+
+            assert.strictEqual(merged, profile(custom, fieldPermission('Account.Rating__c', true)));
+        });
+    });
+
+    suite('scopeFiles', () => {
+        test('should rewrite retrieved profiles that exist in the project', () => {
+            const relativePath = 'force-app/main/default/profiles/Admin.profile-meta.xml';
+            const local = profile(fieldPermission('Account.Rating__c', false));
+            fs.mkdirSync(path.dirname(path.join(projectRoot, relativePath)), { recursive: true });
+            fs.writeFileSync(path.join(projectRoot, relativePath), local);
+
+            const scratchPath = path.join(scratchDir, 'Admin.profile-meta.xml');
+            fs.writeFileSync(scratchPath, profile(classAccess('Other'), fieldPermission('Account.Rating__c', false)));
+            const classPath = path.join(scratchDir, 'Foo.cls');
+            fs.writeFileSync(classPath, 'class Foo {}');
+
+            const files = createService([{ type: 'CustomField', componentName: 'Account.Rating__c' }]).scopeFiles([
+                { path: relativePath, scratchPath, status: 'modified' },
+                { path: 'force-app/main/default/classes/Foo.cls', scratchPath: classPath, status: 'added' },
+            ]);
+
+            assert.deepStrictEqual(files.map(f => f.status), ['unchanged', 'added']);
+            assert.strictEqual(fs.readFileSync(scratchPath, 'utf8'), local);
+        });
+    });
+
+    suite('scopeRetrieved', () => {
+        test('should rewrite profiles retrieved into the project from their earlier copy', () => {
+            const relativePath = 'force-app/main/default/profiles/Admin.profile-meta.xml';
+            const profilePath = path.join(projectRoot, relativePath);
+            const classPath = path.join(projectRoot, 'force-app/main/default/classes/Foo.cls');
+            fs.mkdirSync(path.dirname(profilePath), { recursive: true });
+            fs.writeFileSync(profilePath, profile(classAccess('Other'), fieldPermission('Account.Rating__c', false)));
+            const service = createService([{ type: 'CustomField', componentName: 'Account.Rating__c' }]);
+
+            const copies = service.readLocalCopies([{ type: 'Profile', componentName: 'Admin' }]);
+            // What a full retrieve writes: the Org's entries only, without `Other`
+            fs.writeFileSync(profilePath, profile(fieldPermission('Account.Rating__c', true)));
+            service.scopeRetrieved([profilePath, classPath], copies);
+
+            assert.deepStrictEqual([...copies.keys()], [relativePath]);
+            assert.strictEqual(
+                fs.readFileSync(profilePath, 'utf8'),
+                profile(classAccess('Other'), fieldPermission('Account.Rating__c', true))
+            );
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PreviewService } from '../../services/PreviewService.js';
+import { SourcePathService } from '../../services/SourcePathService.js';
+
+/**
+ * Unit tests for PreviewService.
+ *
+ * Compares a fake scratch retrieve with a fake project on disk.
+ */
+suite('PreviewService', () => {
+    let projectRoot: string;
+    let scratchDir: string;
+    let retrieved: string[];
+    let service: PreviewService;
+
+    function writeFile(root: string, relativePath: string, content: string): void {
+        const fullPath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-project-'));
+        scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-scratch-'));
+        writeFile(projectRoot, 'sfdx-project.json', JSON.stringify({
+            packageDirectories: [{ path: 'force-app', default: true }],
+        }));
+        writeFile(projectRoot, 'force-app/main/default/classes/Same.cls', 'same');
+        writeFile(projectRoot, 'force-app/main/default/classes/Changed.cls', 'old');
+
+        writeFile(scratchDir, 'main/default/classes/Same.cls', 'same');
+        writeFile(scratchDir, 'main/default/classes/Changed.cls', 'new');
+        writeFile(scratchDir, 'main/default/classes/Brand.cls', 'brand new');
+        writeFile(scratchDir, 'unrelated.txt', 'ignored');
+        retrieved = ['Same.cls', 'Changed.cls', 'Brand.cls'].map(
+            file => path.join(scratchDir, 'main/default/classes', file)
+        );
+
+        service = new PreviewService(projectRoot, new SourcePathService(projectRoot));
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        fs.rmSync(scratchDir, { recursive: true, force: true });
+    });
+
+    test('should classify files as added, modified and unchanged', () => {
+        const result = service.compare(scratchDir, retrieved);
+        const byPath = new Map(result.map(f => [f.path, f.status]));
+
+        assert.strictEqual(byPath.get('force-app/main/default/classes/Same.cls'), 'unchanged');
+        assert.strictEqual(byPath.get('force-app/main/default/classes/Changed.cls'), 'modified');
+        assert.strictEqual(byPath.get('force-app/main/default/classes/Brand.cls'), 'added');
+    });
+
+    test('should only compare the files sf listed', () => {
+        const result = service.compare(scratchDir, retrieved);
+        assert.strictEqual(result.length, 3);
+    });
+
+    test('should return an empty list when nothing was retrieved', () => {
+        assert.deepStrictEqual(service.compare(scratchDir, []), []);
+    });
+
+    test('should place files of any metadata type', () => {
+        writeFile(projectRoot, 'force-app/main/default/objects/Account/indexes/Ext.index-meta.xml', 'old');
+        writeFile(scratchDir, 'main/default/objects/Account/indexes/Ext.index-meta.xml', 'new');
+        writeFile(scratchDir, 'main/default/namedCredentials/Api.namedCredential-meta.xml', 'api');
+
+        const result = service.compare(scratchDir, [
+            path.join(scratchDir, 'main/default/objects/Account/indexes/Ext.index-meta.xml'),
+            path.join(scratchDir, 'main/default/namedCredentials/Api.namedCredential-meta.xml'),
+        ], 'packages/billing');
+
+        assert.deepStrictEqual(result.map(f => `${f.status} ${f.path}`), [
+            'modified force-app/main/default/objects/Account/indexes/Ext.index-meta.xml',
+            'added packages/billing/main/default/namedCredentials/Api.namedCredential-meta.xml',
+        ]);
+    });
+
+    test('should fail on a listed file it cannot place', () => {
+        assert.throws(
+            () => service.compare(scratchDir, [...retrieved, path.join(scratchDir, 'main/default/classes/Gone.cls')]),
+            /1 retrieved files could not be placed in the project, so nothing was written: .*Gone\.cls/
+        );
+    });
+
+    test('should merge a retrieved label into the project labels file', () => {
+        const labels = (...names: string[]) => [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">',
+            ...names.map(name => `    <labels><fullName>${name}</fullName><value>${name}</value></labels>`),
+            '</CustomLabels>',
+            '',
+        ].join('\n');
+        writeFile(projectRoot, 'force-app/main/default/labels/CustomLabels.labels-meta.xml', labels('A', 'C'));
+        writeFile(scratchDir, 'main/default/labels/CustomLabels.labels-meta.xml', labels('B'));
+
+        const written = service.apply(service.compare(scratchDir, [
+            path.join(scratchDir, 'main/default/labels/CustomLabels.labels-meta.xml'),
+        ], 'packages/billing'));
+
+        assert.deepStrictEqual(written, [path.join(projectRoot, 'force-app/main/default/labels/CustomLabels.labels-meta.xml')]);
+        assert.strictEqual(fs.readFileSync(written[0], 'utf8'), labels('A', 'B', 'C'));
+    });
+
+    test('should place new components in the requested package directory', () => {
+        const result = service.compare(scratchDir, retrieved, 'packages/billing');
+        const paths = result.map(f => f.path);
+
+        assert.ok(paths.includes('packages/billing/main/default/classes/Brand.cls'));
+        // Existing components stay where they are
+        assert.ok(paths.includes('force-app/main/default/classes/Changed.cls'));
+    });
+
+    test('apply should copy added and modified files into the workspace', () => {
+        const written = service.apply(service.compare(scratchDir, retrieved, 'packages/billing'));
+
+        assert.strictEqual(written.length, 3);
+        assert.strictEqual(
+            fs.readFileSync(path.join(projectRoot, 'packages/billing/main/default/classes/Brand.cls'), 'utf8'),
+            'brand new'
+        );
+        assert.strictEqual(
+            fs.readFileSync(path.join(projectRoot, 'force-app/main/default/classes/Changed.cls'), 'utf8'),
+            'new'
+        );
+    });
+});
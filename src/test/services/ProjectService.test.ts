@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectService } from '../../services/ProjectService.js';
+
+/**
+ * Unit tests for ProjectService.
+ *
+ * Builds a fake multi-root workspace with two Salesforce projects and one
+ * unrelated folder.
+ */
+suite('ProjectService', () => {
+    let workspaceDir: string;
+    let service: ProjectService;
+
+    function addFolder(name: string, project?: object): { name: string; path: string } {
+        const folder = path.join(workspaceDir, name);
+        fs.mkdirSync(folder, { recursive: true });
+        if (project) {
+            fs.writeFileSync(path.join(folder, 'sfdx-project.json'), JSON.stringify(project));
+        }
+        return { name, path: folder };
+    }
+
+    setup(() => {
+        workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-workspace-'));
+        service = new ProjectService([
+            addFolder('docs'),
+            addFolder('packages', {
+                packageDirectories: [
+                    { path: 'core' },
+                    { path: 'billing', default: true },
+                ],
+            }),
+            addFolder('legacy', { packageDirectories: [{ path: 'force-app' }] }),
+        ]);
+    });
+
+    teardown(() => {
+        fs.rmSync(workspaceDir, { recursive: true, force: true });
+    });
+
+    test('findProjects should list only folders with an sfdx-project.json', () => {
+        const projects = service.findProjects();
+
+        assert.deepStrictEqual(projects.map(p => p.name), ['packages', 'legacy']);
+        assert.deepStrictEqual(projects[0].packageDirectories, ['core', 'billing']);
+        assert.strictEqual(projects[0].defaultPackageDirectory, 'billing');
+        assert.strictEqual(projects[1].defaultPackageDirectory, 'force-app');
+    });
+
+    test('resolveProject should default to the first project', () => {
+        assert.strictEqual(service.resolveProject().name, 'packages');
+    });
+
+    test('resolveProject should return the requested project', () => {
+        assert.strictEqual(service.resolveProject(path.join(workspaceDir, 'legacy')).name, 'legacy');
+    });
+
+    test('resolveProject should reject folders that are not detected projects', () => {
+        assert.throws(
+            () => service.resolveProject(path.join(workspaceDir, 'docs')),
+            /is not a Salesforce project in this workspace/
+        );
+        assert.throws(() => service.resolveProject(os.tmpdir()), /is not a Salesforce project/);
+    });
+
+    test('resolveProject should explain when no project is open', () => {
+        assert.throws(() => new ProjectService([]).resolveProject(), /No workspace folder is open/);
+        assert.throws(
+            () => new ProjectService([addFolder('plain')]).resolveProject(),
+            /not a Salesforce project/
+        );
+    });
+
+    test('resolvePackageDirectory should default to the project default', () => {
+        const project = service.resolveProject();
+
+        assert.strictEqual(service.resolvePackageDirectory(project), 'billing');
+        assert.strictEqual(service.resolvePackageDirectory(project, 'core'), 'core');
+    });
+
+    test('resolvePackageDirectory should reject undeclared directories', () => {
+        assert.throws(
+            () => service.resolvePackageDirectory(service.resolveProject(), '../outside'),
+            /is not a package directory of packages/
+        );
+    });
+});
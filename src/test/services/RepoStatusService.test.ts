@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { RepoStatusService } from '../../services/RepoStatusService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for RepoStatusService.
+ *
+ * Runs against a Salesforce project in a fresh git repository whose
+ * only commit is dated 2026-02-01.
+ */
+suite('RepoStatusService', () => {
+    let projectRoot: string;
+
+    const classes = 'force-app/main/default/classes';
+
+    const item = (componentName: string, date: string): MetadataChange => ({
+        id: `ApexClass:${componentName}`,
+        componentName,
+        type: 'ApexClass',
+        modifiedBy: 'jane@acme.com',
+        date,
+    });
+
+    function git(...args: string[]): string {
+        return execFileSync('git', args, {
+            cwd: projectRoot,
+            encoding: 'utf8',
+            env: { ...process.env, GIT_COMMITTER_DATE: '2026-02-01T10:00:00Z' },
+        });
+    }
+
+    function writeFile(relativePath: string, content: string): void {
+        const fullPath = path.join(projectRoot, relativePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-repo-status-'));
+        git('init', '--quiet', '--initial-branch=main');
+        git('config', 'user.name', 'Test User');
+        git('config', 'user.email', 'test@example.com');
+        writeFile('sfdx-project.json', JSON.stringify({ packageDirectories: [{ path: 'force-app', default: true }] }));
+        for (const name of ['Same', 'Edited', 'Stale']) {
+            writeFile(`${classes}/${name}.cls`, 'committed');
+            writeFile(`${classes}/${name}.cls-meta.xml`, '<ApexClass/>');
+        }
+        git('add', '.');
+        git('commit', '--quiet', '-m', 'initial');
+        writeFile(`${classes}/Edited.cls`, 'edited locally');
+        writeFile(`${classes}/Untracked.cls`, 'never committed');
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('should compare each component with its committed files', async () => {
+        const statuses = await new RepoStatusService(projectRoot).compute([
+            item('Same', '2026-01-15T10:00:00.000Z'),
+            item('Edited', '2026-01-15T10:00:00.000Z'),
+            item('Stale', '2026-03-01T10:00:00.000Z'),
+            item('Untracked', '2026-01-15T10:00:00.000Z'),
+            item('Missing', '2026-01-15T10:00:00.000Z'),
+        ]);
+
+        assert.deepStrictEqual(statuses, {
+            'ApexClass:Same': 'unchanged',
+            'ApexClass:Edited': 'modified',
+            'ApexClass:Stale': 'orgNewer',
+            'ApexClass:Untracked': 'notInRepo',
+            'ApexClass:Missing': 'notInRepo',
+        });
+    });
+
+    test('should return no statuses for no components', async () => {
+        assert.deepStrictEqual(await new RepoStatusService(projectRoot).compute([]), {});
+    });
+});
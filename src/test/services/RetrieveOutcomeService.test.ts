@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { RetrieveOutcomeService } from '../../services/RetrieveOutcomeService.js';
+import { SourcePathService } from '../../services/SourcePathService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for RetrieveOutcomeService.
+ *
+ * Only path parsing is needed, so the project root does not have to exist.
+ */
+suite('RetrieveOutcomeService', () => {
+    const projectRoot = path.resolve('/tmp/sfcs-outcome-project');
+    const service = new RetrieveOutcomeService(projectRoot, new SourcePathService(projectRoot));
+
+    function item(type: string, componentName: string): MetadataChange {
+        return {
+            id: `${type}:${componentName}`,
+            componentName,
+            type,
+            modifiedBy: 'jane@example.com',
+            date: '2026-02-10T10:00:00.000Z',
+        };
+    }
+
+    test('should mark components as retrieved, unchanged or failed', () => {
+        const items = [item('ApexClass', 'Changed'), item('ApexClass', 'Same'), item('ApexClass', 'Broken')];
+
+        const outcomes = service.resolve(items, {
+            success: false,
+            errors: ["Entity of type 'ApexClass' named 'Broken' cannot be found"],
+            retrievedItems: [
+                path.join(projectRoot, 'force-app/main/default/classes/Changed.cls'),
+                path.join(projectRoot, 'force-app/main/default/classes/Same.cls'),
+            ],
+        }, ['force-app/main/default/classes/Changed.cls']);
+
+        assert.deepStrictEqual(outcomes, [
+            { id: 'ApexClass:Changed', status: 'retrieved' },
+            { id: 'ApexClass:Same', status: 'unchanged' },
+            { id: 'ApexClass:Broken', status: 'failed', error: "Entity of type 'ApexClass' named 'Broken' cannot be found" },
+        ]);
+    });
+
+    test('should not match a name that is only part of a longer component name', () => {
+        const items = [item('CustomObject', 'Account'), item('CustomField', 'Account.Rating__c')];
+
+        const outcomes = service.resolve(items, {
+            success: false,
+            errors: ['CustomField Account.Rating__c: Not available for deploy'],
+            retrievedItems: [],
+        }, []);
+
+        assert.strictEqual(outcomes[0].status, 'retrieved');
+        assert.strictEqual(outcomes[1].status, 'failed');
+    });
+
+    test('should use the type to tell apart components that share a name', () => {
+        const items = [item('ApexClass', 'Shared'), item('ApexPage', 'Shared')];
+
+        const outcomes = service.resolve(items, {
+            success: false,
+            errors: ['ApexPage Shared: Retrieve failed'],
+            retrievedItems: [],
+        }, []);
+
+        assert.deepStrictEqual(outcomes.map(o => o.status), ['retrieved', 'failed']);
+    });
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SelectionSetService, SHARED_SELECTION_SETS_PATH } from '../../services/SelectionSetService.js';
+import type { SelectionSetState } from '../../services/SelectionSetService.js';
+import type { MetadataChange } from '../../types.js';
+
+/**
+ * Unit tests for SelectionSetService.
+ */
+suite('SelectionSetService', () => {
+    let projectRoot: string;
+    let values: Map<string, unknown>;
+    let workspaceState: SelectionSetState;
+    let service: SelectionSetService;
+
+    const item = (type: string, componentName: string): MetadataChange => ({
+        id: `${type}:${componentName}`,
+        componentName,
+        type,
+        modifiedBy: 'jane@example.com',
+        date: '2026-02-10T10:00:00.000Z',
+    });
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-sets-'));
+        values = new Map();
+        workspaceState = {
+            get: <T>(key: string) => values.get(key) as T | undefined,
+            update: async (key: string, value: unknown) => { values.set(key, value); },
+        };
+        service = new SelectionSetService(projectRoot, workspaceState);
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test('should save to workspace state without touching the project', async () => {
+        await service.save('US-123 Account redesign', 'workspace', [
+            { type: 'ApexClass', componentName: 'AccountService' },
+        ]);
+
+        const [set] = service.list();
+        assert.strictEqual(set.name, 'US-123 Account redesign');
+        assert.strictEqual(set.location, 'workspace');
+        assert.deepStrictEqual(set.components, [{ type: 'ApexClass', componentName: 'AccountService' }]);
+        assert.ok(!fs.existsSync(path.join(projectRoot, '.sfcommitstudio')));
+    });
+
+    test('should save shared sets to a file a teammate can read', async () => {
+        await service.save('US-123', 'shared', [{ type: 'Flow', componentName: 'Onboarding' }]);
+
+        const file = path.join(projectRoot, SHARED_SELECTION_SETS_PATH);
+        assert.ok(fs.existsSync(file));
+        const teammate = new SelectionSetService(projectRoot);
+        assert.deepStrictEqual(teammate.find('US-123', 'shared')?.components, [
+            { type: 'Flow', componentName: 'Onboarding' },
+        ]);
+    });
+
+    test('should replace a set of the same name in the same location only', async () => {
+        await service.save('US-123', 'workspace', [{ type: 'ApexClass', componentName: 'A' }]);
+        await service.save('US-123', 'shared', [{ type: 'ApexClass', componentName: 'B' }]);
+        await service.save(' US-123 ', 'workspace', [{ type: 'ApexClass', componentName: 'C' }]);
+
+        assert.deepStrictEqual(
+            service.list().map(set => `${set.location}:${set.components[0].componentName}`),
+            ['shared:B', 'workspace:C']
+        );
+    });
+
+    test('should drop duplicate components and reject an empty name', async () => {
+        const set = await service.save('Dupes', 'workspace', [
+            { type: 'ApexClass', componentName: 'A' },
+            { type: 'ApexClass', componentName: 'A' },
+        ]);
+        assert.strictEqual(set.components.length, 1);
+
+        await assert.rejects(() => service.save('  ', 'workspace', []), /needs a name/);
+    });
+
+    test('should keep sets of different projects apart', async () => {
+        await service.save('US-123', 'workspace', [{ type: 'ApexClass', componentName: 'A' }]);
+
+        const other = new SelectionSetService(path.join(projectRoot, 'other'), workspaceState);
+        assert.deepStrictEqual(other.list(), []);
+    });
+
+    test('should delete a set', async () => {
+        await service.save('US-123', 'shared', [{ type: 'ApexClass', componentName: 'A' }]);
+
+        assert.strictEqual(await service.delete('US-123', 'shared'), true);
+        assert.strictEqual(await service.delete('US-123', 'shared'), false);
+        assert.deepStrictEqual(service.list(), []);
+    });
+
+    test('should refuse workspace sets without workspace state', async () => {
+        const withoutState = new SelectionSetService(projectRoot);
+
+        await assert.rejects(
+            () => withoutState.save('US-123', 'workspace', []),
+            /Workspace storage is not available/
+        );
+    });
+
+    test('should report a corrupt shared file instead of overwriting it', async () => {
+        const file = path.join(projectRoot, SHARED_SELECTION_SETS_PATH);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, '{ not json');
+
+        assert.throws(() => service.list(), /could not be read/);
+        await assert.rejects(() => service.save('US-123', 'shared', []), /could not be read/);
+        assert.strictEqual(fs.readFileSync(file, 'utf8'), '{ not json');
+    });
+
+    test('match should select rows by type and name and list the missing components', async () => {
+        const set = await service.save('US-123', 'workspace', [
+            { type: 'ApexClass', componentName: 'A' },
+            { type: 'ApexClass', componentName: 'Gone' },
+            { type: 'Flow', componentName: 'A' },
+        ]);
+
+        const result = service.match(set, [item('ApexClass', 'A'), item('ApexClass', 'B'), item('Flow', 'A')]);
+
+        assert.deepStrictEqual(result.selectedIds, ['ApexClass:A', 'Flow:A']);
+        assert.deepStrictEqual(result.missing, [{ type: 'ApexClass', componentName: 'Gone' }]);
+    });
+});
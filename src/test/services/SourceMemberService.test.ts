@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { SourceMemberService } from '../../services/SourceMemberService.js';
+import type { MetadataChangePage } from '../../services/SourceMemberService.js';
+
+/**
+ * Unit tests for SourceMemberService.
+ *
+ * Uses an in-memory Tooling API that serves `SourceMember` records in pages.
+ */
+suite('SourceMemberService', () => {
+    const records = Array.from({ length: 5 }, (_, i) => ({
+        MemberName: `Class${i}`,
+        MemberType: 'ApexClass',
+        IsNameObsolete: i === 4,
+        LastModifiedDate: `2026-02-1${i}T10:00:00.000Z`,
+        LastModifiedBy: { Name: 'Jane', Username: 'jane@example.com' },
+        CreatedDate: '2026-01-05T09:00:00.000Z',
+        CreatedBy: { Name: 'Raj', Username: 'raj@example.com' },
+    }));
+
+    let queries: string[];
+    let queryMoreCalls: number;
+
+    function createConnection(pageSize: number) {
+        const page = (start: number) => ({
+            records: records.slice(start, start + pageSize),
+            totalSize: records.length,
+            done: start + pageSize >= records.length,
+            nextRecordsUrl: start + pageSize < records.length ? String(start + pageSize) : undefined,
+        });
+        return {
+            tooling: {
+                query: async <T>(soql: string) => {
+                    queries.push(soql);
+                    return page(0) as unknown as { records: T[]; totalSize: number; done: boolean };
+                },
+                queryMore: async <T>(locator: string) => {
+                    queryMoreCalls++;
+                    return page(Number(locator)) as unknown as { records: T[]; totalSize: number; done: boolean };
+                },
+            },
+        };
+    }
+
+    async function collect(
+        service: SourceMemberService,
+        limit: number,
+        types?: string[],
+        since?: string
+    ): Promise<MetadataChangePage[]> {
+        const pages: MetadataChangePage[] = [];
+        for await (const page of service.queryChanges({ limit, types, since })) {
+            pages.push(page);
+        }
+        return pages;
+    }
+
+    setup(() => {
+        queries = [];
+        queryMoreCalls = 0;
+    });
+
+    test('should page through every record when there is no limit', async () => {
+        const pages = await collect(new SourceMemberService(createConnection(2)), 0);
+
+        assert.deepStrictEqual(pages.map(p => p.items.length), [2, 2, 1]);
+        assert.ok(pages.every(p => p.total === 5));
+        assert.strictEqual(queryMoreCalls, 2);
+    });
+
+    test('should stop at the limit without fetching further pages', async () => {
+        const pages = await collect(new SourceMemberService(createConnection(2)), 3);
+
+        assert.deepStrictEqual(pages.map(p => p.items.length), [2, 1]);
+        assert.strictEqual(queryMoreCalls, 1);
+    });
+
+    test('should map records to changes and flag deleted members', async () => {
+        const [page] = await collect(new SourceMemberService(createConnection(5)), 0);
+
+        assert.deepStrictEqual(page.items[0], {
+            id: 'ApexClass:Class0',
+            componentName: 'Class0',
+            type: 'ApexClass',
+            modifiedBy: 'jane@example.com',
+            date: '2026-02-10T10:00:00.000Z',
+            changeKind: 'Modified',
+            createdBy: 'raj@example.com',
+            createdDate: '2026-01-05T09:00:00.000Z',
+        });
+        assert.strictEqual(page.items[4].changeKind, 'Deleted');
+    });
+
+    test('should escape type filters', async () => {
+        await collect(new SourceMemberService(createConnection(5)), 0, ["Apex'Class"]);
+
+        assert.ok(queries[0].includes("MemberType IN ('Apex\\'Class')"));
+        assert.ok(!/LIMIT/.test(queries[0]), 'The limit is applied client-side so totalSize stays accurate');
+    });
+
+    test('should only query changes made since the given date', async () => {
+        await collect(new SourceMemberService(createConnection(5)), 0, undefined, '2026-02-12T10:00:00.250Z');
+
+        assert.ok(queries[0].includes('WHERE LastModifiedDate >= 2026-02-12T10:00:00Z'));
+    });
+
+    test('should reject an invalid since date', async () => {
+        await assert.rejects(
+            () => collect(new SourceMemberService(createConnection(5)), 0, undefined, 'yesterday'),
+            /Invalid date/
+        );
+    });
+});
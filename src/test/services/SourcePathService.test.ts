@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourcePathService } from '../../services/SourcePathService.js';
+
+/**
+ * Unit tests for SourcePathService.
+ *
+ * Builds a throwaway source-format project on disk and verifies that
+ * components resolve to their files (and back).
+ */
+suite('SourcePathService', () => {
+    let projectRoot: string;
+    let service: SourcePathService;
+
+    const files = [
+        'force-app/main/default/classes/MyClass.cls',
+        'force-app/main/default/classes/MyClass.cls-meta.xml',
+        'force-app/main/default/lwc/myCmp/myCmp.js',
+        'force-app/main/default/lwc/myCmp/myCmp.js-meta.xml',
+        'force-app/main/default/objects/Account/Account.object-meta.xml',
+        'force-app/main/default/objects/Account/fields/Rating__c.field-meta.xml',
+        'force-app/main/default/objects/Account/sharingReasons/Partner__c.sharingReason-meta.xml',
+        'force-app/main/default/objects/Contact/Contact.object-meta.xml',
+        'force-app/main/default/email/Sales/Welcome.email-meta.xml',
+        'other-pkg/main/default/flows/MyFlow.flow-meta.xml',
+    ];
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sfcs-paths-'));
+        fs.writeFileSync(
+            path.join(projectRoot, 'sfdx-project.json'),
+            JSON.stringify({
+                packageDirectories: [{ path: 'force-app', default: true }, { path: 'other-pkg' }],
+                sourceApiVersion: '60.0',
+            })
+        );
+        for (const file of files) {
+            const fullPath = path.join(projectRoot, file);
+            fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+            fs.writeFileSync(fullPath, '');
+        }
+        service = new SourcePathService(projectRoot);
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    suite('findSourceFiles', () => {
+        test('should return source and meta files for a class', () => {
+            const result = service.findSourceFiles('ApexClass', 'MyClass').sort();
+            assert.deepStrictEqual(result, [
+                'force-app/main/default/classes/MyClass.cls',
+                'force-app/main/default/classes/MyClass.cls-meta.xml',
+            ]);
+        });
+
+        test('should return every file of a bundle', () => {
+            assert.strictEqual(service.findSourceFiles('LightningComponentBundle', 'myCmp').length, 2);
+        });
+
+        test('should resolve object children by qualified name', () => {
+            assert.deepStrictEqual(service.findSourceFiles('CustomField', 'Account.Rating__c'), [
+                'force-app/main/default/objects/Account/fields/Rating__c.field-meta.xml',
+            ]);
+        });
+
+        test('should search every package directory', () => {
+            assert.strictEqual(service.findSourceFiles('Flow', 'MyFlow').length, 1);
+        });
+
+        test('should return an empty list for unknown components', () => {
+            assert.deepStrictEqual(service.findSourceFiles('ApexClass', 'Missing'), []);
+        });
+    });
+
+    suite('findFilesToDelete', () => {
+        test('should return every file below a custom object folder', () => {
+            assert.deepStrictEqual(service.findFilesToDelete('CustomObject', 'Account').sort(), [
+                'force-app/main/default/objects/Account/Account.object-meta.xml',
+                'force-app/main/default/objects/Account/fields/Rating__c.field-meta.xml',
+                'force-app/main/default/objects/Account/sharingReasons/Partner__c.sharingReason-meta.xml',
+            ]);
+        });
+
+        test('should return only the source files of other components', () => {
+            assert.deepStrictEqual(service.findFilesToDelete('CustomField', 'Account.Rating__c'), [
+                'force-app/main/default/objects/Account/fields/Rating__c.field-meta.xml',
+            ]);
+        });
+    });
+
+    suite('keyForPath', () => {
+        test('should map a custom object definition', () => {
+            assert.strictEqual(
+                service.keyForPath('main/default/objects/Account/Account.object-meta.xml'),
+                'CustomObject:Account'
+            );
+        });
+
+        test('should include the folder for folder-based types', () => {
+            assert.strictEqual(
+                service.keyForPath('main/default/email/Sales/Welcome.email-meta.xml'),
+                'EmailTemplate:Sales/Welcome'
+            );
+        });
+
+        test('should return undefined for unrecognised paths', () => {
+            assert.strictEqual(service.keyForPath('README.md'), undefined);
+        });
+    });
+
+    suite('getSourceApiVersion', () => {
+        test('should read sourceApiVersion from sfdx-project.json', () => {
+            assert.strictEqual(service.getSourceApiVersion(), '60.0');
+        });
+
+        test('should return undefined when none is declared', () => {
+            fs.writeFileSync(path.join(projectRoot, 'sfdx-project.json'), JSON.stringify({ packageDirectories: [] }));
+            assert.strictEqual(service.getSourceApiVersion(), undefined);
+        });
+    });
+});
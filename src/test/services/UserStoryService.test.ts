@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { UserStoryService } from '../../services/UserStoryService.js';
+
+/**
+ * Unit tests for UserStoryService.
+ */
+suite('UserStoryService', () => {
+    const pattern = 'US-\\d{7}';
+
+    // ─── validate ──────────────────────────────────────────────────
+
+    suite('validate', () => {
+        test('should accept references that match the whole pattern', () => {
+            const service = new UserStoryService({ pattern, required: false });
+
+            assert.strictEqual(service.validate('US-0000275'), undefined);
+            assert.strictEqual(service.validate(' US-0000275 '), undefined);
+        });
+
+        test('should reject typos and partial matches', () => {
+            const service = new UserStoryService({ pattern, required: false });
+
+            assert.match(service.validate('US-00275') ?? '', /"US-00275" is not a valid User Story Ref/);
+            assert.ok(service.validate('xUS-0000275'), 'Text before the reference is not allowed');
+            assert.ok(service.validate('US-00002750'), 'Extra digits are not allowed');
+        });
+
+        test('should only require a reference when configured', () => {
+            assert.strictEqual(new UserStoryService({ pattern, required: false }).validate(''), undefined);
+            assert.match(new UserStoryService({ pattern, required: true }).validate('  ') ?? '', /required/);
+        });
+
+        test('should accept any reference without a pattern', () => {
+            assert.strictEqual(new UserStoryService({ pattern: '', required: false }).validate('anything'), undefined);
+        });
+
+        test('should report an invalid pattern', () => {
+            assert.throws(
+                () => new UserStoryService({ pattern: 'US-(', required: false }),
+                /story\.pattern setting is not a valid regular expression/
+            );
+        });
+    });
+
+    // ─── inferFromBranch ───────────────────────────────────────────
+
+    suite('inferFromBranch', () => {
+        const service = new UserStoryService({ pattern, required: false });
+
+        test('should find the reference in a feature branch name', () => {
+            assert.strictEqual(service.inferFromBranch('feature/US-0000275-account-fields'), 'US-0000275');
+            assert.strictEqual(service.inferFromBranch('US-0000001'), 'US-0000001');
+        });
+
+        test('should ignore matches inside longer words', () => {
+            assert.strictEqual(service.inferFromBranch('feature/US-00002750'), undefined);
+            assert.strictEqual(service.inferFromBranch('main'), undefined);
+        });
+
+        test('should infer an issue key without a pattern', () => {
+            const anyRef = new UserStoryService({ pattern: '', required: false });
+
+            assert.strictEqual(anyRef.inferFromBranch('feature/US-0000275-account-fields'), 'US-0000275');
+            assert.strictEqual(anyRef.inferFromBranch('bugfix/PROJ-42'), 'PROJ-42');
+            assert.strictEqual(anyRef.inferFromBranch('feature/account-fields'), undefined);
+        });
+    });
+});
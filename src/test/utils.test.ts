@@ -261,28 +261,68 @@ suite('Types and Utilities', () => {
         let window: any;
         let document: any;
         let hooks: any;
+        let postedMessages: any[];
     
         const htmlTemplate = `
             <!DOCTYPE html>
             <html lang="en">
             <body>
-                <div id="loading-overlay" class="hidden"><span></span></div>
+                <div id="loading-overlay" class="hidden"><span></span><button id="btn-cancel" class="hidden">Cancel</button></div>
                 <div id="error-banner" class="hidden"><span id="error-message"></span></div>
                 <div id="success-banner" class="hidden"><span id="success-message"></span></div>
+                <div id="missing-banner" class="hidden">
+                    <span id="missing-message"></span>
+                    <button id="btn-missing-close"></button>
+                    <ul id="missing-list"></ul>
+                </div>
                 
                 <select id="org-selector"></select>
+                <select id="project-selector"></select>
+                <select id="package-dir-selector"></select>
                 <input id="user-story-ref" type="text" />
+                <div id="story-ref-error" class="hidden"></div>
                 <textarea id="commit-message"></textarea>
+                <div id="message-preview" class="hidden"></div>
+                <input type="checkbox" id="opt-feature-branch" />
+                <input id="base-branch" type="text" />
+                <input type="checkbox" id="opt-scope-permissions" />
+                <select id="opt-split-by">
+                    <option value="">Single commit</option>
+                    <option value="author">Split commit by user</option>
+                    <option value="type">Split commit by type</option>
+                </select>
+                <select id="selection-set-selector"></select>
+                <button id="btn-load-set" disabled></button>
+                <button id="btn-delete-set" disabled></button>
+                <button id="btn-save-set" disabled></button>
+                <button id="btn-export-manifest" disabled></button>
+                <button id="btn-import-manifest"></button>
                 <button id="btn-commit" disabled></button>
+                <button id="btn-commit-push" disabled></button>
+                <button id="btn-preview" disabled></button>
                 <button id="btn-refresh"></button>
                 <button id="btn-retry"></button>
     
                 <button id="tab-all" class="active" aria-selected="true">All</button>
                 <button id="tab-selected" aria-selected="false">Selected</button>
+                <button id="tab-history" aria-selected="false">History</button>
     
                 <input id="filter-name" />
                 <select id="filter-type"></select>
                 <input id="filter-user" />
+                <input id="filter-created-by" />
+                <select id="filter-new">
+                    <option value="">New &amp; Edited</option>
+                    <option value="new">New</option>
+                    <option value="edited">Edited</option>
+                </select>
+                <select id="filter-repo-status">
+                    <option value="">All</option>
+                    <option value="notInRepo">Not in repo</option>
+                    <option value="unchanged">Unchanged</option>
+                    <option value="modified">Locally modified</option>
+                    <option value="orgNewer">Newer in org</option>
+                </select>
     
                 <table class="grid">
                     <thead>
@@ -291,15 +331,28 @@ suite('Types and Utilities', () => {
                             <th class="grid__header--sortable" data-sort="type">Type</th>
                             <th class="grid__header--sortable" data-sort="modifiedBy">User</th>
                             <th class="grid__header--sortable" data-sort="date">Date</th>
+                            <th class="grid__header--sortable" data-sort="createdBy">Created By</th>
+                            <th class="grid__header--sortable" data-sort="createdDate">Created Date</th>
+                            <th class="grid__header--sortable" data-sort="repoStatus">Repo Status</th>
                         </tr>
                     </thead>
                     <tbody id="grid-body"></tbody>
                 </table>
+
+                <section id="history-view" class="hidden">
+                    <input id="history-filter" />
+                    <button id="btn-undo-commit">Undo Last Commit</button>
+                    <ul id="history-list"></ul>
+                </section>
     
                 <div id="pagination-controls">
                     <span id="item-count"></span>
+                    <span id="load-status" class="hidden"></span>
+                    <span id="last-refreshed"></span>
                     <select id="page-size">
                         <option value="25">25</option>
+                        <option value="50">50</option>
+                        <option value="100">100</option>
                     </select>
                     <button id="btn-prev"></button>
                     <span id="page-numbers"></span>
@@ -307,6 +360,22 @@ suite('Types and Utilities', () => {
                 </div>
                 
                 <input type="checkbox" id="select-all" />
+
+                <section id="suggestions-panel" class="hidden">
+                    <button id="btn-add-all-suggestions"></button>
+                    <ul id="suggestions-list"></ul>
+                </section>
+                <section id="authors-panel" class="hidden">
+                    <div id="authors-summary"></div>
+                    <ul id="unmapped-authors"></ul>
+                </section>
+
+                <section id="preview-panel" class="hidden">
+                    <span id="preview-summary"></span>
+                    <button id="btn-preview-commit"></button>
+                    <button id="btn-preview-close"></button>
+                    <ul id="preview-files"></ul>
+                </section>
             </body>
             </html>
         `;
@@ -321,8 +390,9 @@ suite('Types and Utilities', () => {
             document = window.document;
     
             // Mock VS Code API
+            postedMessages = [];
             window.acquireVsCodeApi = () => ({
-                postMessage: () => {},
+                postMessage: (message: any) => postedMessages.push(message),
                 getState: () => ({}),
                 setState: () => {}
             });
@@ -339,6 +409,11 @@ suite('Types and Utilities', () => {
             
             hooks = window._testHooks;
         });
+
+        teardown(() => {
+            // Stops the script's timers so mocha can exit
+            window.close();
+        });
     
         test('createRow should return a TR with correct cells', () => {
             const item = {
@@ -346,13 +421,15 @@ suite('Types and Utilities', () => {
                 componentName: 'TestComponent',
                 type: 'ApexClass',
                 modifiedBy: 'UserA',
-                date: '2026-02-10T10:00:00.000Z'
+                date: '2026-02-10T10:00:00.000Z',
+                createdBy: 'UserB',
+                createdDate: '2025-11-03T09:00:00.000Z'
             };
             const tr = hooks.createRow(item, false);
     
             assert.strictEqual(tr.tagName, 'TR');
             assert.strictEqual(tr.dataset.id, '123');
-            assert.strictEqual(tr.childNodes.length, 6); // Checkbox, Name, Type, ModifiedBy, Date, ModifiedBy(Last)
+            assert.strictEqual(tr.childNodes.length, 8); // Checkbox, Name, Type, ModifiedBy, Date, CreatedBy, CreatedDate, RepoStatus
     
             // Checkbox
             const tdCheckbox = tr.childNodes[0];
@@ -375,6 +452,69 @@ suite('Types and Utilities', () => {
             // Date
             const tdDate = tr.childNodes[4];
             assert.ok(tdDate.textContent.includes('2026'));
+
+            // Created By and Created Date
+            assert.strictEqual(tr.childNodes[5].textContent, 'UserB');
+            assert.ok(tr.childNodes[6].textContent.includes('2025'));
+        });
+
+        test('repository status should be requested after a fetch and shown, filtered and sorted', () => {
+            hooks.handleMetadataChunk({
+                items: [
+                    { id: 'ApexClass:A', componentName: 'A', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' },
+                    { id: 'ApexClass:B', componentName: 'B', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-11T10:00:00.000Z' }
+                ],
+                loaded: 2,
+                total: 2
+            });
+            hooks.handleMetadataComplete({ loaded: 2, total: 2, truncated: false });
+            assert.ok(postedMessages.some(m => m.command === 'getRepoStatus'));
+
+            hooks.handleRepoStatus({ statuses: { 'ApexClass:A': 'orgNewer', 'ApexClass:B': 'notInRepo' } });
+            const cell = document.querySelector('tr[data-id="ApexClass:A"] .repo-status');
+            assert.strictEqual(cell.textContent, 'Newer in org');
+
+            const filter = document.getElementById('filter-repo-status');
+            filter.value = 'notInRepo';
+            filter.dispatchEvent(new window.Event('change'));
+            assert.deepStrictEqual(hooks.state.filteredMetadata.map((m: any) => m.id), ['ApexClass:B']);
+            filter.value = '';
+            filter.dispatchEvent(new window.Event('change'));
+
+            document.querySelector('th[data-sort="repoStatus"]').dispatchEvent(new window.Event('click'));
+            assert.deepStrictEqual(hooks.state.filteredMetadata.map((m: any) => m.id), ['ApexClass:A', 'ApexClass:B']);
+        });
+
+        test('new components should get a badge and be filterable and sortable by creator', () => {
+            hooks.handleMetadataChunk({
+                items: [
+                    { id: 'ApexClass:A', componentName: 'A', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z', createdBy: 'zoe@example.com' },
+                    { id: 'ApexClass:B', componentName: 'B', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-11T10:00:00.000Z', createdBy: 'amy@example.com' }
+                ],
+                loaded: 2,
+                total: 2
+            });
+            hooks.handleRepoStatus({ statuses: { 'ApexClass:A': 'notInRepo', 'ApexClass:B': 'orgNewer' } });
+
+            assert.ok(document.querySelector('tr[data-id="ApexClass:A"] .badge--new'));
+            assert.ok(!document.querySelector('tr[data-id="ApexClass:B"] .badge--new'));
+
+            const filterNew = document.getElementById('filter-new');
+            filterNew.value = 'edited';
+            filterNew.dispatchEvent(new window.Event('change'));
+            assert.deepStrictEqual(hooks.state.filteredMetadata.map((m: any) => m.id), ['ApexClass:B']);
+            filterNew.value = '';
+            filterNew.dispatchEvent(new window.Event('change'));
+
+            const filterCreatedBy = document.getElementById('filter-created-by');
+            filterCreatedBy.value = 'ZOE';
+            filterCreatedBy.dispatchEvent(new window.Event('input'));
+            assert.deepStrictEqual(hooks.state.filteredMetadata.map((m: any) => m.id), ['ApexClass:A']);
+            filterCreatedBy.value = '';
+            filterCreatedBy.dispatchEvent(new window.Event('input'));
+
+            document.querySelector('th[data-sort="createdBy"]').dispatchEvent(new window.Event('click'));
+            assert.deepStrictEqual(hooks.state.filteredMetadata.map((m: any) => m.id), ['ApexClass:B', 'ApexClass:A']);
         });
     
         test('createRow should escape HTML in componentName via textContent', () => {
@@ -394,6 +534,22 @@ suite('Types and Utilities', () => {
             assert.ok(tdName.innerHTML.includes('&lt;script&gt;'));
         });
     
+        test('createRow should mark deleted components', () => {
+            const item = {
+                id: 'ApexClass:OldClass',
+                componentName: 'OldClass',
+                type: 'ApexClass',
+                modifiedBy: 'UserA',
+                date: '2026-02-10T10:00:00.000Z',
+                changeKind: 'Deleted'
+            };
+            const tr = hooks.createRow(item, false);
+            const tdName = tr.childNodes[1];
+
+            assert.ok(tr.classList.contains('deleted'));
+            assert.ok(tdName.querySelector('.badge--deleted'), 'Should render a Deleted badge');
+        });
+    
         test('toggleSelection should update class and state', () => {
             // Setup initial state
             hooks.state.selectedIds = new Set();
@@ -423,6 +579,568 @@ suite('Types and Utilities', () => {
             assert.strictEqual(tr.querySelector('input').checked, false);
         });
     
+        test('handlePreviewResult should summarise and list changed files', () => {
+            hooks.handlePreviewResult({
+                added: ['force-app/main/default/classes/New.cls'],
+                modified: ['force-app/main/default/classes/Old.cls', 'force-app/main/default/classes/Old.cls-meta.xml'],
+                unchanged: ['force-app/main/default/flows/F.flow-meta.xml'],
+                removed: [],
+                errors: []
+            });
+
+            const panel = document.getElementById('preview-panel');
+            assert.ok(!panel.classList.contains('hidden'), 'Preview panel should be visible');
+            assert.ok(document.getElementById('preview-summary').textContent.includes('1 added, 2 modified, 1 unchanged'));
+            // Unchanged files are counted but not listed
+            assert.strictEqual(document.querySelectorAll('#preview-files .preview-file').length, 3);
+        });
+
+        test('handlePreviewResult should say when nothing would change', () => {
+            hooks.handlePreviewResult({
+                added: [],
+                modified: [],
+                unchanged: ['force-app/main/default/classes/Same.cls'],
+                removed: [],
+                errors: []
+            });
+
+            assert.ok(document.getElementById('preview-summary').textContent.startsWith('Nothing would change'));
+        });
+    
+        test('switchTab to history should hide the grid and show the history view', () => {
+            hooks.switchTab('history');
+
+            assert.ok(document.querySelector('.grid').classList.contains('hidden'));
+            assert.ok(!document.getElementById('history-view').classList.contains('hidden'));
+            assert.strictEqual(document.getElementById('tab-history').getAttribute('aria-selected'), 'true');
+        });
+
+        test('handleCommitHistory should render entries with component links', () => {
+            hooks.handleCommitHistory({
+                entries: [{
+                    hash: '0123456789abcdef0123456789abcdef01234567',
+                    branch: 'feature/US-1',
+                    userStoryRef: 'US-1',
+                    message: 'Add rating field',
+                    author: 'Jane',
+                    date: '2026-02-10T10:00:00.000Z',
+                    components: [
+                        { type: 'CustomField', componentName: 'Account.Rating__c', paths: ['force-app/main/default/objects/Account/fields/Rating__c.field-meta.xml'] },
+                        { type: 'ApexClass', componentName: 'Gone', paths: [] }
+                    ]
+                }]
+            });
+
+            const entries = document.querySelectorAll('#history-list .history-entry');
+            assert.strictEqual(entries.length, 1);
+            assert.strictEqual(entries[0].querySelector('.history-entry__hash').textContent, '0123456');
+
+            const links = entries[0].querySelectorAll('.history-component');
+            assert.strictEqual(links.length, 2);
+            assert.strictEqual(links[0].disabled, false);
+            assert.strictEqual(links[1].disabled, true, 'Components without files cannot be opened');
+        });
+
+        test('handleUndoResult should report the undo and reload history', () => {
+            hooks.handleUndoResult({ success: true, commit: 'abc1234', filesRestored: 2, filesRemoved: 1 });
+
+            const banner = document.getElementById('success-banner');
+            assert.ok(!banner.classList.contains('hidden'));
+            assert.ok(document.getElementById('success-message').textContent.includes('abc1234'));
+            assert.ok(postedMessages.some(m => m.command === 'getCommitHistory'));
+        });
+
+        test('handleUndoResult should point at edits that are still stashed', () => {
+            hooks.handleUndoResult({ success: true, commit: 'abc1234', filesRestored: 1, stashes: ['stash@{0}: On main: edits'] });
+
+            assert.ok(!document.getElementById('missing-banner').classList.contains('hidden'));
+            assert.ok(document.getElementById('missing-message').textContent.includes('git stash pop'));
+            assert.strictEqual(document.getElementById('missing-list').textContent, 'stash@{0}: On main: edits');
+        });
+
+        test('handleCommitResult should mark rows with their retrieve outcome and keep failures selected', () => {
+            hooks.handleMetadataChunk({
+                items: [
+                    { id: 'ApexClass:Good', componentName: 'Good', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' },
+                    { id: 'ApexClass:Bad', componentName: 'Bad', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' }
+                ],
+                loaded: 2,
+                total: 2
+            });
+
+            hooks.handleCommitResult({
+                success: true,
+                commit: 'abc1234',
+                filesCommitted: 2,
+                branch: 'main',
+                components: [
+                    { id: 'ApexClass:Good', status: 'retrieved' },
+                    { id: 'ApexClass:Bad', status: 'failed', error: 'Entity of type ApexClass named Bad cannot be found' }
+                ]
+            });
+            hooks.renderGrid();
+
+            const failedRow = document.querySelector('tr[data-id="ApexClass:Bad"]');
+            const badge = failedRow.querySelector('.badge--failed');
+            assert.ok(badge, 'Failed rows should get a Failed badge');
+            assert.ok(badge.title.includes('cannot be found'), 'The badge should carry the error text');
+            assert.ok(failedRow.classList.contains('selected'), 'Failed rows should stay selected');
+            assert.ok(document.querySelector('tr[data-id="ApexClass:Good"] .badge--retrieved'));
+        });
+
+        test('handleCommitResult should list staged files that were left out of the commit', () => {
+            hooks.handleCommitResult({
+                success: true,
+                commit: 'abc1234',
+                filesCommitted: 1,
+                branch: 'main',
+                leftStaged: ['docs/notes.md']
+            });
+
+            assert.ok(!document.getElementById('missing-banner').classList.contains('hidden'));
+            assert.ok(document.getElementById('missing-message').textContent.includes('still staged'));
+            assert.strictEqual(document.querySelector('#missing-list li').textContent, 'docs/notes.md');
+        });
+
+        test('Cancel button should send cancelOperation and a cancelled result should reset the UI', () => {
+            hooks.showLoading(true, 'Retrieving metadata...', true);
+            const btnCancel = document.getElementById('btn-cancel');
+            assert.ok(!btnCancel.classList.contains('hidden'), 'Cancel should be visible for cancellable operations');
+
+            btnCancel.click();
+            assert.ok(postedMessages.some(m => m.command === 'cancelOperation'));
+            assert.strictEqual(btnCancel.disabled, true);
+
+            hooks.handleCommitResult({ success: false, cancelled: true });
+            assert.ok(document.getElementById('loading-overlay').classList.contains('hidden'));
+            assert.ok(btnCancel.classList.contains('hidden'));
+            assert.ok(document.getElementById('success-message').textContent.includes('cancelled'));
+            assert.ok(document.getElementById('missing-banner').classList.contains('hidden'));
+        });
+
+        test('a blocked commit should show why it failed and mark the failed rows', () => {
+            hooks.handleMetadataChunk({
+                items: [{ id: 'ApexClass:Bad', componentName: 'Bad', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' }],
+                loaded: 1,
+                total: 1
+            });
+
+            hooks.handleCommitResult({
+                success: false,
+                error: '1 of 1 components failed to retrieve, so nothing was committed.',
+                components: [{ id: 'ApexClass:Bad', status: 'failed', error: 'Not found' }]
+            });
+
+            assert.ok(!document.getElementById('error-banner').classList.contains('hidden'));
+            assert.ok(document.getElementById('error-message').textContent.includes('nothing was committed'));
+            assert.ok(document.querySelector('tr[data-id="ApexClass:Bad"] .badge--failed'));
+        });
+
+        test('a failed commit should report the stash it left behind', () => {
+            hooks.handleCommitResult({
+                success: false,
+                error: 'Retrieve failed: INVALID_SESSION_ID',
+                stashMessage: 'SF Commit Studio: local changes before retrieving 1 components'
+            });
+
+            assert.ok(document.getElementById('error-message').textContent.includes('INVALID_SESSION_ID'));
+            assert.ok(document.getElementById('missing-message').textContent.includes('failed'));
+            const notes = Array.from(document.querySelectorAll('#missing-list li')).map((li: any) => li.textContent);
+            assert.strictEqual(notes.length, 1);
+            assert.ok(notes[0].includes('git stash pop'));
+        });
+
+        test('a cancelled commit should report the stash and branch it left behind', () => {
+            hooks.handleCommitResult({
+                success: false,
+                cancelled: true,
+                stashMessage: 'SF Commit Studio: local changes before retrieving 2 components',
+                branch: 'feature/US-1',
+                previousBranch: 'main'
+            });
+
+            assert.ok(!document.getElementById('missing-banner').classList.contains('hidden'));
+            const notes = Array.from(document.querySelectorAll('#missing-list li')).map((li: any) => li.textContent);
+            assert.strictEqual(notes.length, 2);
+            assert.ok(notes[0].includes('feature/US-1') && notes[0].includes('main'));
+            assert.ok(notes[1].includes('git stash pop'));
+        });
+
+        test('metadata chunks should render as they arrive and report truncation when complete', () => {
+            const makeItem = (n: number) => ({
+                id: `ApexClass:C${n}`,
+                componentName: `C${n}`,
+                type: 'ApexClass',
+                modifiedBy: 'UserA',
+                date: '2026-02-10T10:00:00.000Z'
+            });
+            const loadStatus = document.getElementById('load-status');
+
+            hooks.handleMetadataChunk({ items: [makeItem(1), makeItem(2)], loaded: 2, total: 5 });
+            assert.strictEqual(hooks.state.allMetadata.length, 2, 'The first chunk should be usable immediately');
+            assert.ok(loadStatus.textContent.includes('2 of 5'));
+
+            hooks.handleMetadataChunk({ items: [makeItem(3)], loaded: 3, total: 5 });
+            assert.strictEqual(hooks.state.allMetadata.length, 3, 'Later chunks should be appended');
+
+            hooks.handleMetadataComplete({ loaded: 3, total: 5, truncated: true });
+            assert.ok(!loadStatus.classList.contains('hidden'));
+            assert.ok(loadStatus.textContent.includes('truncated'));
+
+            hooks.handleMetadataChunk({ items: [makeItem(9)], loaded: 1, total: 1 });
+            hooks.handleMetadataComplete({ loaded: 1, total: 1, truncated: false });
+            assert.strictEqual(hooks.state.allMetadata.length, 1, 'A new fetch should replace the old results');
+            assert.ok(loadStatus.classList.contains('hidden'));
+        });
+
+        test('handleMetadataMerged should update rows in place, keep selections and mark changes', () => {
+            hooks.handleMetadataChunk({
+                items: [
+                    { id: 'ApexClass:A', componentName: 'A', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T10:00:00.000Z' },
+                    { id: 'ApexClass:B', componentName: 'B', type: 'ApexClass', modifiedBy: 'UserA', date: '2026-02-10T09:00:00.000Z' }
+                ],
+                loaded: 2,
+                total: 2
+            });
+            hooks.toggleSelection('ApexClass:B');
+
+            hooks.handleMetadataMerged({
+                items: [
+                    { id: 'ApexClass:B', componentName: 'B', type: 'ApexClass', modifiedBy: 'UserB', date: '2026-02-11T09:00:00.000Z' },
+                    { id: 'ApexClass:C', componentName: 'C', type: 'ApexClass', modifiedBy: 'UserB', date: '2026-02-11T10:00:00.000Z' }
+                ],
+                since: '2026-02-10T10:00:00.000Z'
+            });
+
+            assert.strictEqual(hooks.state.allMetadata.length, 3);
+            assert.strictEqual(hooks.state.allMetadata.find((m: any) => m.id === 'ApexClass:B').modifiedBy, 'UserB');
+            assert.ok(hooks.state.selectedIds.has('ApexClass:B'), 'Selections should survive an incremental refresh');
+
+            const rowB = document.querySelector('tr[data-id="ApexClass:B"]');
+            assert.ok(rowB.classList.contains('changed'));
+            assert.ok(rowB.querySelector('.badge--changed'));
+            assert.ok(!document.querySelector('tr[data-id="ApexClass:A"]').classList.contains('changed'));
+        });
+
+        test('handleMetadataComplete should show how long ago the org was queried', () => {
+            const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+
+            hooks.handleMetadataComplete({ loaded: 0, total: 0, truncated: false, fetchedAt: tenMinutesAgo });
+
+            assert.strictEqual(document.getElementById('last-refreshed').textContent, 'Last refreshed 10 minutes ago');
+        });
+
+        test('handleOrgList should request cached metadata only refreshing when stale', () => {
+            hooks.handleOrgList({ orgs: [{ alias: 'dev', username: 'dev@example.com' }] });
+
+            const fetch = postedMessages.find(m => m.command === 'fetchMetadata');
+            assert.ok(fetch, 'Opening the panel should request metadata');
+            assert.strictEqual(fetch.payload.targetOrg, 'dev');
+            assert.strictEqual(fetch.payload.onlyIfStale, true);
+        });
+
+        test('handleProjectList should preselect the first project and its default package directory', () => {
+            hooks.handleProjectList({
+                projects: [
+                    { name: 'packages', root: '/ws/packages', packageDirectories: ['core', 'billing'], defaultPackageDirectory: 'billing' },
+                    { name: 'legacy', root: '/ws/legacy', packageDirectories: ['force-app'], defaultPackageDirectory: 'force-app' }
+                ]
+            });
+
+            const projectSelector = document.getElementById('project-selector');
+            const packageDirSelector = document.getElementById('package-dir-selector');
+            assert.strictEqual(projectSelector.value, '/ws/packages');
+            assert.strictEqual(projectSelector.disabled, false);
+            assert.strictEqual(packageDirSelector.options.length, 2);
+            assert.strictEqual(packageDirSelector.value, 'billing');
+
+            projectSelector.value = '/ws/legacy';
+            projectSelector.dispatchEvent(new window.Event('change'));
+
+            assert.strictEqual(packageDirSelector.value, 'force-app');
+            assert.strictEqual(packageDirSelector.disabled, true, 'A single directory leaves nothing to pick');
+        });
+
+        test('handleConfig should apply a changed page size', () => {
+            hooks.handleConfig({ autoFetchOnOpen: true, defaultOrg: '', largeCommitThreshold: 50, pageSize: 50 });
+
+            assert.strictEqual(document.getElementById('page-size').value, '50');
+        });
+
+        test('handleOrgList should select the default org and skip the query when auto-fetch is off', () => {
+            hooks.handleConfig({ autoFetchOnOpen: false, defaultOrg: 'qa@example.com', largeCommitThreshold: 50, pageSize: 25 });
+            hooks.handleOrgList({
+                orgs: [
+                    { alias: 'dev', username: 'dev@example.com' },
+                    { alias: 'qa', username: 'qa@example.com' }
+                ]
+            });
+
+            assert.strictEqual(document.getElementById('org-selector').value, 'qa');
+            const fetch = postedMessages.find(m => m.command === 'fetchMetadata');
+            assert.strictEqual(fetch.payload.targetOrg, 'qa');
+            assert.strictEqual(fetch.payload.cachedOnly, true);
+            assert.strictEqual(fetch.payload.onlyIfStale, false);
+        });
+
+        test('commit should ask for confirmation above the configured threshold', () => {
+            hooks.handleConfig({ autoFetchOnOpen: true, defaultOrg: '', largeCommitThreshold: 1, pageSize: 25 });
+            hooks.handleOrgList({ orgs: [{ alias: 'dev', username: 'dev@example.com' }] });
+            document.getElementById('commit-message').value = 'Two classes';
+            hooks.toggleSelection('ApexClass:A');
+            hooks.toggleSelection('ApexClass:B');
+
+            document.getElementById('btn-commit').click();
+
+            const commands = postedMessages.map(m => m.command);
+            assert.ok(commands.includes('confirmLargeCommit'));
+            assert.ok(!commands.includes('commitChanges'));
+        });
+
+        test('typing a message should request a preview of the rendered message', async () => {
+            const commitMessage = document.getElementById('commit-message');
+            commitMessage.value = 'add validation';
+            document.getElementById('user-story-ref').value = 'US-7';
+            commitMessage.dispatchEvent(new window.Event('input'));
+
+            await new Promise(resolve => setTimeout(resolve, 350));
+
+            const request = postedMessages.find(m => m.command === 'previewCommitMessage');
+            assert.ok(request, 'The preview should be requested after typing stops');
+            assert.strictEqual(request.payload.message, 'add validation');
+            assert.strictEqual(request.payload.userStoryRef, 'US-7');
+        });
+
+        test('handleCommitMessagePreview should show the message and block commits it rejects', () => {
+            document.getElementById('commit-message').value = 'Update layout';
+            hooks.toggleSelection('ApexClass:A');
+            const preview = document.getElementById('message-preview');
+
+            hooks.handleCommitMessagePreview({ message: 'feat(US-7): Update layout' });
+            assert.ok(!preview.classList.contains('hidden'));
+            assert.ok(preview.textContent.includes('feat(US-7): Update layout'));
+            assert.strictEqual(document.getElementById('btn-commit').disabled, false);
+
+            hooks.handleCommitMessagePreview({ message: 'Update layout', error: 'does not follow Conventional Commits' });
+            assert.ok(preview.textContent.includes('does not follow Conventional Commits'));
+            assert.strictEqual(document.getElementById('btn-commit').disabled, true);
+        });
+
+        test('an invalid User Story Ref should show an inline error and block the commit', () => {
+            hooks.handleConfig({
+                autoFetchOnOpen: true, defaultOrg: '', largeCommitThreshold: 50, pageSize: 25,
+                storyPattern: 'US-\\d{7}', storyRequired: false
+            });
+            document.getElementById('commit-message').value = 'Update layout';
+            hooks.toggleSelection('ApexClass:A');
+            const storyRef = document.getElementById('user-story-ref');
+            const storyRefError = document.getElementById('story-ref-error');
+
+            storyRef.value = 'US-12';
+            storyRef.dispatchEvent(new window.Event('input'));
+            assert.ok(!storyRefError.classList.contains('hidden'));
+            assert.ok(storyRefError.textContent.includes('"US-12" is not a valid User Story Ref'));
+            assert.strictEqual(document.getElementById('btn-commit').disabled, true);
+
+            storyRef.value = 'US-0000275';
+            storyRef.dispatchEvent(new window.Event('input'));
+            assert.ok(storyRefError.classList.contains('hidden'));
+            assert.strictEqual(document.getElementById('btn-commit').disabled, false);
+        });
+
+        test('handleBranchStory should fill an empty User Story Ref only', () => {
+            const storyRef = document.getElementById('user-story-ref');
+
+            hooks.handleBranchStory({ branch: 'feature/US-0000275-fields', userStoryRef: 'US-0000275' });
+            assert.strictEqual(storyRef.value, 'US-0000275');
+
+            storyRef.value = 'US-0000001';
+            hooks.handleBranchStory({ branch: 'feature/US-0000275-fields', userStoryRef: 'US-0000275' });
+            assert.strictEqual(storyRef.value, 'US-0000001', 'A typed reference is never replaced');
+        });
+
+        test('handleSelectionSets should list the sets and pick the one just saved', () => {
+            const sets = [
+                { name: 'US-1', location: 'shared', components: [{ type: 'ApexClass', componentName: 'A' }], savedAt: '' },
+                { name: 'US-2', location: 'workspace', components: [], savedAt: '' }
+            ];
+
+            hooks.handleSelectionSets({ sets, saved: sets[1] });
+
+            const selector = document.getElementById('selection-set-selector');
+            assert.strictEqual(selector.options.length, 2);
+            assert.strictEqual(selector.options[0].textContent, 'US-1 (1, shared)');
+            assert.strictEqual(selector.value, '1');
+            assert.strictEqual(document.getElementById('btn-load-set').disabled, false);
+
+            document.getElementById('btn-load-set').click();
+            const load = postedMessages.find(m => m.command === 'loadSelectionSet');
+            assert.deepStrictEqual(
+                { name: load.payload.name, location: load.payload.location },
+                { name: 'US-2', location: 'workspace' }
+            );
+        });
+
+        test('handleSelectionSetLoaded should replace the selection and list missing components', () => {
+            hooks.toggleSelection('ApexClass:Old');
+
+            hooks.handleSelectionSetLoaded({
+                name: 'US-1',
+                selectedIds: ['ApexClass:A', 'Flow:B'],
+                missing: [{ type: 'ApexClass', componentName: 'Gone' }]
+            });
+
+            assert.strictEqual(document.getElementById('tab-selected').textContent, 'Selected Metadata (2)');
+            assert.ok(!document.getElementById('missing-banner').classList.contains('hidden'));
+            const missing = document.querySelectorAll('#missing-list li');
+            assert.strictEqual(missing.length, 1);
+            assert.strictEqual(missing[0].textContent, 'ApexClass: Gone');
+        });
+
+        test('handleManifestImported should select the listed rows and report unmatched members', () => {
+            hooks.handleManifestImported({
+                file: 'package.xml',
+                selectedIds: ['ApexClass:A'],
+                missing: []
+            });
+
+            assert.strictEqual(document.getElementById('tab-selected').textContent, 'Selected Metadata (1)');
+            assert.strictEqual(document.getElementById('btn-export-manifest').disabled, false);
+            assert.ok(document.getElementById('missing-banner').classList.contains('hidden'));
+
+            hooks.handleManifestImported({
+                file: 'package.xml',
+                selectedIds: [],
+                missing: [{ type: 'Layout', componentName: '*' }]
+            });
+            assert.ok(document.getElementById('missing-message').textContent.includes('of package.xml'));
+            assert.strictEqual(document.getElementById('btn-export-manifest').disabled, true);
+        });
+
+        test('handleLocalChanges should list the files with local changes and what was done', () => {
+            hooks.handleLocalChanges({
+                decision: 'stash',
+                paths: ['force-app/main/default/classes/Foo.cls', 'force-app/main/default/classes/Foo.cls-meta.xml'],
+                stashMessage: 'SF Commit Studio: local changes before retrieving 1 components'
+            });
+
+            assert.ok(!document.getElementById('missing-banner').classList.contains('hidden'));
+            assert.ok(document.getElementById('missing-message').textContent.includes('git stash pop'));
+            const files = document.querySelectorAll('#missing-list li');
+            assert.strictEqual(files.length, 2);
+            assert.strictEqual(files[0].textContent, 'force-app/main/default/classes/Foo.cls');
+
+            hooks.handleLocalChanges({ decision: 'abort', paths: ['force-app/main/default/classes/Foo.cls'] });
+            assert.ok(document.getElementById('missing-message').textContent.startsWith('Commit cancelled: 1 files'));
+        });
+
+        test('handleSuggestions should list suggested additions that can be added in one click', () => {
+            hooks.toggleSelection('CustomField:Account.Rating__c');
+
+            hooks.handleSuggestions({
+                items: [
+                    { id: 'CustomObject:Account', type: 'CustomObject', componentName: 'Account', reason: 'Parent object of CustomField Account.Rating__c' },
+                    { id: 'ApexClass:AccountTest', type: 'ApexClass', componentName: 'AccountTest', reason: 'Test class for Account' }
+                ]
+            });
+
+            const panel = document.getElementById('suggestions-panel');
+            assert.ok(!panel.classList.contains('hidden'));
+            const items = document.querySelectorAll('#suggestions-list li');
+            assert.strictEqual(items.length, 2);
+
+            items[0].querySelector('button').click();
+            assert.strictEqual(document.getElementById('tab-selected').textContent, 'Selected Metadata (2)');
+
+            document.getElementById('btn-add-all-suggestions').click();
+            assert.strictEqual(document.getElementById('tab-selected').textContent, 'Selected Metadata (3)');
+        });
+
+        test('selecting components should request suggestions', async () => {
+            hooks.toggleSelection('ApexClass:A');
+
+            await new Promise(resolve => setTimeout(resolve, 350));
+
+            const request = postedMessages.find(m => m.command === 'getSuggestions');
+            assert.ok(request, 'Suggestions should be requested after the selection settles');
+            assert.deepStrictEqual(Array.from(request.payload.selectedIds), ['ApexClass:A']);
+        });
+
+        test('handleAuthors should show the credited authors and offer to map unmapped users', () => {
+            hooks.toggleSelection('ApexClass:A');
+
+            hooks.handleAuthors({
+                mode: 'author',
+                author: { name: 'Jane Doe', email: 'jane@example.com' },
+                coAuthors: [],
+                unmapped: ['admin@acme.com.uat']
+            });
+
+            assert.ok(!document.getElementById('authors-panel').classList.contains('hidden'));
+            assert.ok(document.getElementById('authors-summary').textContent.includes('Jane Doe <jane@example.com>'));
+            const unmapped = document.querySelectorAll('#unmapped-authors li');
+            assert.strictEqual(unmapped.length, 1);
+
+            unmapped[0].querySelector('button').click();
+            const request = postedMessages.find(m => m.command === 'mapAuthor');
+            assert.strictEqual(request.payload.username, 'admin@acme.com.uat');
+            assert.deepStrictEqual(Array.from(request.payload.selectedIds), ['ApexClass:A']);
+
+            hooks.handleAuthors({ mode: 'committer', coAuthors: [], unmapped: [] });
+            assert.ok(document.getElementById('authors-panel').classList.contains('hidden'));
+        });
+
+        test('commit should send the split option and the result should list every commit', () => {
+            const split = document.getElementById('opt-split-by');
+            split.value = 'author';
+            split.dispatchEvent(new window.Event('change'));
+            document.getElementById('commit-message').value = 'Sandbox sweep';
+            hooks.toggleSelection('ApexClass:A');
+
+            document.getElementById('btn-commit').click();
+
+            const commit = postedMessages.find(m => m.command === 'commitChanges');
+            assert.strictEqual(commit.payload.splitBy, 'author');
+
+            hooks.handleCommitResult({
+                success: true,
+                commit: 'bbbbbbbbbb',
+                filesCommitted: 3,
+                branch: 'main',
+                commits: [
+                    { commit: 'aaaaaaaaaa', label: 'jane@acme.com', filesCommitted: 1 },
+                    { commit: 'bbbbbbbbbb', label: 'raj@acme.com', filesCommitted: 2 }
+                ]
+            });
+
+            const lines = Array.from(document.querySelectorAll('#missing-list li')).map((li: any) => li.textContent);
+            assert.deepStrictEqual(lines, ['aaaaaaa jane@acme.com (1 files)', 'bbbbbbb raj@acme.com (2 files)']);
+            assert.ok(document.getElementById('success-message').textContent.includes('in 2 commits'));
+        });
+
+        test('a failed split commit should list the commits that were kept', () => {
+            hooks.handleCommitResult({
+                success: false,
+                commits: [{ commit: 'aaaaaaaaaa', label: 'ApexClass', filesCommitted: 1 }]
+            });
+
+            assert.ok(document.getElementById('missing-message').textContent.includes('were kept'));
+            assert.strictEqual(document.querySelectorAll('#missing-list li').length, 1);
+        });
+
+        test('commit should send the scoped permissions option', () => {
+            const scope = document.getElementById('opt-scope-permissions');
+            scope.checked = true;
+            scope.dispatchEvent(new window.Event('change'));
+            document.getElementById('commit-message').value = 'Field security';
+            hooks.toggleSelection('Profile:Admin');
+
+            document.getElementById('btn-commit').click();
+
+            const commit = postedMessages.find(m => m.command === 'commitChanges');
+            assert.strictEqual(commit.payload.scopePermissions, true);
+        });
+
         test('CSS.escape polyfill/usage', () => {
             // Just verify it exists
             assert.ok(window.CSS.escape);
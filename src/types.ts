@@ -7,12 +7,25 @@
 
 // ─── Core Data Types ───────────────────────────────────────────────
 
+/**
+ * How a component changed in the Org.
+ * - `Modified`: the component exists and was created or edited
+ * - `Deleted`: the component was removed from the Org
+ */
+export type MetadataChangeKind = 'Modified' | 'Deleted';
+
 /**
  * Represents a single metadata change in a Salesforce Org.
  */
 export interface MetadataChange {
+    /** How the component changed. Treated as 'Modified' when omitted. */
+    changeKind?: MetadataChangeKind;
     /** The name of the metadata component (e.g., 'Account' or 'MyClass'). */
     componentName: string;
+    /** The Salesforce username of the person whose change first tracked the component. */
+    createdBy?: string;
+    /** The ISO 8601 date string of when the component was first tracked. */
+    createdDate?: string;
     /** The ISO 8601 date string of the last modification. */
     date: string;
     /** Unique identifier for the item (usually type:name). */
@@ -35,6 +48,18 @@ export interface FetchMetadataMessage {
         targetOrg?: string;
         /** Optional list of metadata types to filter by during fetch. */
         types?: string[];
+        /** Fetch only changes since the last completed fetch of this Org, if there was one. */
+        incremental?: boolean;
+        /**
+         * Like `incremental`, but a saved fetch younger than the staleness
+         * threshold is returned as is, without querying the Org.
+         */
+        onlyIfStale?: boolean;
+        /**
+         * Only send the saved fetch of this Org, never query it. Completes
+         * with no rows when nothing is saved.
+         */
+        cachedOnly?: boolean;
     };
     /** Unique ID to track this specific request/response cycle. */
     requestId: string;
@@ -51,63 +76,450 @@ export interface GetOrgListMessage {
 }
 
 /**
- * Request to commit a set of selected metadata changes.
+ * Request to send the settings the Webview needs (answered with `config`).
  */
-export interface CommitChangesMessage {
-    command: 'commitChanges';
+export interface GetConfigMessage {
+    command: 'getConfig';
+    payload?: Record<string, never>;
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to render the commit message the current input would produce
+ * (answered with `commitMessagePreview`).
+ */
+export interface PreviewCommitMessageMessage {
+    command: 'previewCommitMessage';
     payload: {
-        /** IDs of the metadata items to include in the commit. */
-        selectedIds: string[];
-        /** The commit message entered by the user. */
+        /** The message typed by the user. */
         message: string;
-        /** Optional reference to a User Story or Ticket (e.g., 'US-123'). */
+        /** Optional reference to a User Story or Ticket. */
         userStoryRef?: string;
         /** The alias or username of the source Org. */
         targetOrg?: string;
+        /** IDs of the selected metadata items. */
+        selectedIds: string[];
+        /** Root of the Salesforce project, used for the Git user name. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to read the User Story Ref from the current branch name
+ * (answered with `branchStory`).
+ */
+export interface GetBranchStoryMessage {
+    command: 'getBranchStory';
+    payload?: {
+        /** Root of the Salesforce project whose branch is read. */
+        projectRoot?: string;
     };
     /** Unique ID to track this specific request/response cycle. */
     requestId: string;
 }
 
+/**
+ * Request to list the Salesforce projects among the open workspace folders.
+ */
+export interface GetProjectListMessage {
+    command: 'getProjectList';
+    payload?: Record<string, never>;
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to list the saved selection sets of a project (answered with `selectionSets`).
+ */
+export interface GetSelectionSetsMessage {
+    command: 'getSelectionSets';
+    payload?: {
+        /** Root of the Salesforce project the sets belong to. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to save the selection as a named set. The Extension Host asks for
+ * the name and location, then answers with `selectionSets`.
+ */
+export interface SaveSelectionSetMessage {
+    command: 'saveSelectionSet';
+    payload: {
+        /** IDs of the selected metadata items. */
+        selectedIds: string[];
+        /** Name offered in the input box, e.g. the User Story Ref. */
+        suggestedName?: string;
+        /** Root of the Salesforce project the set belongs to. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to match a saved set against the fetched metadata
+ * (answered with `selectionSetLoaded`).
+ */
+export interface LoadSelectionSetMessage {
+    command: 'loadSelectionSet';
+    payload: {
+        /** Name of the set. */
+        name: string;
+        /** Where the set is stored. */
+        location: SelectionSetLocation;
+        /** Root of the Salesforce project the set belongs to. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to delete a saved set after confirmation (answered with `selectionSets`).
+ */
+export interface DeleteSelectionSetMessage {
+    command: 'deleteSelectionSet';
+    payload: {
+        /** Name of the set. */
+        name: string;
+        /** Where the set is stored. */
+        location: SelectionSetLocation;
+        /** Root of the Salesforce project the set belongs to. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request for components the selection likely needs to deploy
+ * (answered with `suggestions`).
+ */
+export interface GetSuggestionsMessage {
+    command: 'getSuggestions';
+    payload: {
+        /** IDs of the selected metadata items. */
+        selectedIds: string[];
+        /** Root of the Salesforce project FlexiPages are read from. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request for the git authors of the Salesforce users who modified the
+ * selected components (answered with `authors`).
+ */
+export interface GetAuthorsMessage {
+    command: 'getAuthors';
+    payload: {
+        /** IDs of the selected metadata items. */
+        selectedIds: string[];
+        /** Root of the Salesforce project whose author mapping is used. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request for the repository status of every fetched component
+ * (answered with `repoStatus`).
+ */
+export interface GetRepoStatusMessage {
+    command: 'getRepoStatus';
+    payload: {
+        /** Root of the Salesforce project to compare with. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to map a Salesforce user to a git author. The Extension Host asks
+ * for the name and email, saves them and answers with `authors`.
+ */
+export interface MapAuthorMessage {
+    command: 'mapAuthor';
+    payload: {
+        /** The `modifiedBy` value to map. */
+        username: string;
+        /** IDs of the selected metadata items, to send the updated authors for. */
+        selectedIds: string[];
+        /** Root of the Salesforce project whose author mapping is updated. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to write a `package.xml` for the selection. The Extension Host asks
+ * where to save it, then answers with `manifestExported`.
+ */
+export interface ExportManifestMessage {
+    command: 'exportManifest';
+    payload: {
+        /** IDs of the selected metadata items. */
+        selectedIds: string[];
+        /** Root of the Salesforce project whose API version is used. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to pick a manifest and select the rows it lists
+ * (answered with `manifestImported`).
+ */
+export interface ImportManifestMessage {
+    command: 'importManifest';
+    payload?: {
+        /** Root of the Salesforce project the file picker opens in. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Parameters of a commit, shared by `commitChanges` and `confirmLargeCommit`.
+ */
+export interface CommitRequest {
+    /** IDs of the metadata items to include in the commit. */
+    selectedIds: string[];
+    /** The commit message entered by the user. */
+    message: string;
+    /** Optional reference to a User Story or Ticket (e.g., 'US-123'). */
+    userStoryRef?: string;
+    /** The alias or username of the source Org. */
+    targetOrg?: string;
+    /** Root of the Salesforce project to commit to. Defaults to the first project in the workspace. */
+    projectRoot?: string;
+    /** Package directory new components are retrieved into. Defaults to the project's default directory. */
+    packageDirectory?: string;
+    /**
+     * When true, create or check out the feature branch derived from
+     * `userStoryRef` (see the `sfCommitStudio.branch.pattern` setting) before staging.
+     */
+    useFeatureBranch?: boolean;
+    /** Branch to create the feature branch from. Defaults to the current branch. */
+    baseBranch?: string;
+    /** When true, push the branch to the configured remote after a successful commit. */
+    push?: boolean;
+    /**
+     * When true, selected Profiles and PermissionSets only get their entries
+     * for the other selected components, instead of being replaced entirely.
+     */
+    scopePermissions?: boolean;
+    /** Make one commit per Salesforce user or per metadata type instead of a single commit. */
+    splitBy?: CommitSplit;
+}
+
+/**
+ * Request to commit a set of selected metadata changes.
+ */
+export interface CommitChangesMessage {
+    command: 'commitChanges';
+    payload: CommitRequest;
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
 /**
  * Request to show a confirmation dialog for a large number of items.
  */
 export interface ConfirmLargeCommitMessage {
     command: 'confirmLargeCommit';
-    payload: {
+    payload: CommitRequest & {
         /** Number of items being committed. */
         itemCount: number;
-        /** IDs of the metadata items. */
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to preview what committing the selection would change in the workspace.
+ * The selection is retrieved into a scratch directory; nothing is written to the project.
+ */
+export interface PreviewChangesMessage {
+    command: 'previewChanges';
+    payload: {
+        /** IDs of the metadata items to preview. */
         selectedIds: string[];
-        /** The commit message. */
-        message: string;
-        /** Optional User Story reference. */
-        userStoryRef?: string;
         /** The alias or username of the source Org. */
         targetOrg?: string;
+        /** Root of the Salesforce project to compare with. */
+        projectRoot?: string;
+        /** Package directory new components would be retrieved into. */
+        packageDirectory?: string;
+        /** Preview Profiles and PermissionSets scoped to the other selected components. */
+        scopePermissions?: boolean;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to open VS Code's diff editor for one file of the current preview.
+ */
+export interface OpenPreviewDiffMessage {
+    command: 'openPreviewDiff';
+    payload: {
+        /** Project-relative path of the file, as listed in the preview result. */
+        path: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to list past commits made through the Studio.
+ */
+export interface GetCommitHistoryMessage {
+    command: 'getCommitHistory';
+    payload: {
+        /** Maximum number of commits to return. */
+        limit?: number;
+        /** Root of the Salesforce project whose repository is read. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to open a file as it was at a given commit.
+ */
+export interface OpenFileAtRevisionMessage {
+    command: 'openFileAtRevision';
+    payload: {
+        /** The commit hash. */
+        hash: string;
+        /** Path relative to the project root, as listed in the commit history. */
+        path: string;
+        /** Root of the Salesforce project whose repository holds the commit. */
+        projectRoot?: string;
+    };
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
+/**
+ * Request to undo the last commit if it is an unpushed Studio commit.
+ */
+export interface UndoLastCommitMessage {
+    command: 'undoLastCommit';
+    payload?: {
+        /** Root of the Salesforce project whose last commit is undone. */
+        projectRoot?: string;
     };
     /** Unique ID to track this specific request/response cycle. */
     requestId: string;
 }
 
+/**
+ * Request to cancel the running retrieve or commit. Ignored when nothing is running.
+ */
+export interface CancelOperationMessage {
+    command: 'cancelOperation';
+    payload?: Record<string, never>;
+    /** Unique ID to track this specific request/response cycle. */
+    requestId: string;
+}
+
 /**
  * Union type for all messages sent from the Webview to the Extension Host.
  */
 export type WebviewMessage =
     | FetchMetadataMessage
     | GetOrgListMessage
+    | GetConfigMessage
+    | PreviewCommitMessageMessage
+    | GetBranchStoryMessage
+    | GetProjectListMessage
+    | GetSelectionSetsMessage
+    | SaveSelectionSetMessage
+    | LoadSelectionSetMessage
+    | DeleteSelectionSetMessage
+    | GetSuggestionsMessage
+    | GetAuthorsMessage
+    | MapAuthorMessage
+    | GetRepoStatusMessage
+    | ExportManifestMessage
+    | ImportManifestMessage
     | CommitChangesMessage
-    | ConfirmLargeCommitMessage;
+    | ConfirmLargeCommitMessage
+    | PreviewChangesMessage
+    | OpenPreviewDiffMessage
+    | GetCommitHistoryMessage
+    | OpenFileAtRevisionMessage
+    | UndoLastCommitMessage
+    | CancelOperationMessage;
 
 // ─── Extension Host → Webview Messages ─────────────────────────────
 
 /**
- * Notification that metadata has been successfully loaded.
+ * One batch of metadata changes, streamed while a fetch pages through the Org.
+ * The first chunk of a fetch replaces any previously loaded metadata.
+ */
+export interface MetadataChunkMessage {
+    command: 'metadataChunk';
+    payload: {
+        /** The changes in this batch. */
+        items: MetadataChange[];
+        /** Number of changes sent so far in this fetch, including this batch. */
+        loaded: number;
+        /** Number of matching changes in the Org. */
+        total: number;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Result of an incremental fetch: the components that are new or changed
+ * since the last fetch. The Webview merges them into its rows by `id`.
+ */
+export interface MetadataMergedMessage {
+    command: 'metadataMerged';
+    payload: {
+        /** New or changed components, with their current values. */
+        items: MetadataChange[];
+        /** The date the Org was queried from. */
+        since: string;
+        /** When the Org was queried (ISO 8601). */
+        fetchedAt?: string;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Notification that a fetch has sent all of its chunks.
  */
-export interface MetadataLoadedMessage {
-    command: 'metadataLoaded';
-    /** The list of metadata changes retrieved. */
-    payload: MetadataChange[];
+export interface MetadataCompleteMessage {
+    command: 'metadataComplete';
+    payload: {
+        /** Number of changes sent in this fetch. */
+        loaded: number;
+        /** Number of matching changes in the Org. */
+        total: number;
+        /** Whether the `fetch.limit` setting cut the results short. */
+        truncated: boolean;
+        /** When the Org was queried (ISO 8601); older than now when served from the cache. */
+        fetchedAt?: string;
+    };
     /** The original request ID. */
     requestId?: string;
 }
@@ -125,6 +537,191 @@ export interface OrgListMessage {
     requestId?: string;
 }
 
+/**
+ * The settings the Webview applies, sent on request and again whenever
+ * the `sfCommitStudio` configuration changes.
+ */
+export interface ConfigMessage {
+    command: 'config';
+    payload: WebviewConfig;
+    /** The original request ID, absent when sent because the configuration changed. */
+    requestId?: string;
+}
+
+/**
+ * The commit message the current input would produce, without trailers.
+ */
+export interface CommitMessagePreviewMessage {
+    command: 'commitMessagePreview';
+    payload: {
+        /** The rendered message. */
+        message: string;
+        /** Why the message would be rejected, if it would be. */
+        error?: string;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * The current branch and the User Story Ref found in its name.
+ */
+export interface BranchStoryMessage {
+    command: 'branchStory';
+    payload: {
+        /** The checked-out branch. */
+        branch: string;
+        /** The reference in the branch name; absent if none matched or inference is off. */
+        userStoryRef?: string;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Response containing the Salesforce projects found in the workspace.
+ */
+export interface ProjectListMessage {
+    command: 'projectList';
+    payload: {
+        /** The projects, in workspace folder order. */
+        projects: ProjectInfo[];
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * The saved selection sets of a project, sent on request and after a set is saved or deleted.
+ */
+export interface SelectionSetsMessage {
+    command: 'selectionSets';
+    payload: {
+        /** The sets of both locations, sorted by name. */
+        sets: SelectionSet[];
+        /** The set that was just saved, if any. */
+        saved?: SelectionSet;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * A saved set matched against the fetched metadata.
+ */
+export interface SelectionSetLoadedMessage {
+    command: 'selectionSetLoaded';
+    payload: {
+        /** Name of the set. */
+        name: string;
+        /** IDs of the rows to select. */
+        selectedIds: string[];
+        /** Components of the set that the current fetch does not contain. */
+        missing: ComponentRef[];
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Fetched components the selection likely needs, shown as "Suggested additions".
+ */
+export interface SuggestionsMessage {
+    command: 'suggestions';
+    payload: {
+        /** The suggested components; empty when nothing is missing. */
+        items: DependencySuggestion[];
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * How the next commit would be attributed for the current selection.
+ */
+export interface AuthorsMessage {
+    command: 'authors';
+    payload: CommitAttribution & {
+        /** The `sfCommitStudio.commit.authorMode` setting. */
+        mode: AuthorMode;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * How each fetched component relates to the project's git repository.
+ */
+export interface RepoStatusMessage {
+    command: 'repoStatus';
+    payload: {
+        /** Statuses keyed by `MetadataChange.id`. */
+        statuses: Record<string, RepoStatus>;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Result of exporting the selection as a `package.xml`.
+ */
+export interface ManifestExportedMessage {
+    command: 'manifestExported';
+    payload: {
+        /** Absolute path of the written manifest. */
+        file: string;
+        /** Number of components in the manifest. */
+        componentCount: number;
+        /** Number of selected deleted components, which a deploy manifest cannot list. */
+        skippedDeleted: number;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * An imported manifest matched against the fetched metadata.
+ */
+export interface ManifestImportedMessage {
+    command: 'manifestImported';
+    payload: {
+        /** File name of the manifest. */
+        file: string;
+        /** IDs of the rows to select. */
+        selectedIds: string[];
+        /** Members of the manifest that the current fetch does not contain. */
+        missing: ComponentRef[];
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * How the user chose to handle uncommitted local changes to files a commit would retrieve into.
+ * - `abort`: nothing was retrieved or committed
+ * - `stash`: the changes were stashed (`git stash push`) before retrieving
+ * - `overwrite`: the retrieve replaced the changes
+ */
+export type LocalChangesDecision = 'abort' | 'stash' | 'overwrite';
+
+/**
+ * Sent during a commit when files of the selected components had
+ * uncommitted local changes, with what the user decided to do about them.
+ */
+export interface LocalChangesMessage {
+    command: 'localChanges';
+    payload: {
+        /** The user's choice. */
+        decision: LocalChangesDecision;
+        /** Project-relative paths of the files with local changes. */
+        paths: string[];
+        /** Message of the stash entry, when the changes were stashed. */
+        stashMessage?: string;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
 /**
  * Notification of the result of a commit operation.
  */
@@ -133,12 +730,92 @@ export interface CommitResultMessage {
     payload: {
         /** Whether the commit was successful. */
         success: boolean;
+        /** Set when the user cancelled before anything was staged or committed. */
+        cancelled?: boolean;
+        /** Why the commit failed; unset on success and on a cancel. */
+        error?: string;
+        /** On a cancel or failure, the message of the stash holding local edits stashed before the retrieve. */
+        stashMessage?: string;
+        /** On a cancel or failure, the branch checked out before switching to the feature branch in `branch`. */
+        previousBranch?: string;
         /** The resulting Git commit hash. */
         commit?: string;
         /** The number of files actually committed. */
         filesCommitted?: number;
+        /** The number of source files removed for deleted components. */
+        filesDeleted?: number;
         /** The Git branch where the commit was made. */
         branch?: string;
+        /** Whether the branch was pushed (only set when a push was requested). */
+        pushed?: boolean;
+        /** The remote the branch was pushed to. */
+        remote?: string;
+        /** Project-relative path of the generated pull request description, if any. */
+        pullRequestFile?: string;
+        /** Retrieve outcome of each selected component that exists in the Org. */
+        components?: ComponentOutcome[];
+        /** Files that were already staged for other work and were left out of the commit (they stay staged). */
+        leftStaged?: string[];
+        /** Every commit created by a split commit, in order; `commit` is the last one. */
+        commits?: SplitCommit[];
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Summary of a commit preview: how each file in the workspace would be affected.
+ * All paths are relative to the project root.
+ */
+export interface PreviewResultMessage {
+    command: 'previewResult';
+    payload: {
+        /** Files the retrieve would create. */
+        added: string[];
+        /** Files the retrieve would change. */
+        modified: string[];
+        /** Files the retrieve would leave identical. */
+        unchanged: string[];
+        /** Files that would be removed for deleted components. */
+        removed: string[];
+        /** Per-component retrieve errors, if any. */
+        errors: string[];
+        /** Set when the user cancelled the preview; all lists are then empty. */
+        cancelled?: boolean;
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Response containing past Studio commits, newest first.
+ */
+export interface CommitHistoryMessage {
+    command: 'commitHistory';
+    payload: {
+        /** The Studio commits found in the current branch's history. */
+        entries: CommitHistoryEntry[];
+    };
+    /** The original request ID. */
+    requestId?: string;
+}
+
+/**
+ * Result of an undo request. `success` is false when the user declined the confirmation.
+ */
+export interface UndoResultMessage {
+    command: 'undoResult';
+    payload: {
+        /** Whether the commit was undone. */
+        success: boolean;
+        /** Hash of the undone commit. */
+        commit?: string;
+        /** Number of files restored to their previous contents. */
+        filesRestored?: number;
+        /** Number of files removed because the commit had added them. */
+        filesRemoved?: number;
+        /** Stash entries still holding local edits stashed before a retrieve. */
+        stashes?: string[];
     };
     /** The original request ID. */
     requestId?: string;
@@ -193,9 +870,26 @@ export interface ConfirmationRequestMessage {
  * Union type for all messages sent from the Extension Host to the Webview.
  */
 export type HostMessage =
-    | MetadataLoadedMessage
+    | MetadataChunkMessage
+    | MetadataCompleteMessage
+    | MetadataMergedMessage
     | OrgListMessage
+    | ConfigMessage
+    | CommitMessagePreviewMessage
+    | BranchStoryMessage
+    | ProjectListMessage
+    | SelectionSetsMessage
+    | SelectionSetLoadedMessage
+    | SuggestionsMessage
+    | AuthorsMessage
+    | RepoStatusMessage
+    | ManifestExportedMessage
+    | ManifestImportedMessage
+    | LocalChangesMessage
     | CommitResultMessage
+    | PreviewResultMessage
+    | CommitHistoryMessage
+    | UndoResultMessage
     | ProgressMessage
     | ErrorMessage
     | ConfirmationRequestMessage;
@@ -212,6 +906,216 @@ export interface OrgInfo {
     username: string;
 }
 
+/**
+ * A workspace folder containing an `sfdx-project.json`.
+ */
+export interface ProjectInfo {
+    /** Name of the workspace folder. */
+    name: string;
+    /** Absolute path of the folder. */
+    root: string;
+    /** Package directories declared in `sfdx-project.json`, relative to `root`. */
+    packageDirectories: string[];
+    /** The directory marked `"default": true` (or the first one). */
+    defaultPackageDirectory?: string;
+}
+
+/**
+ * A metadata component identified by type and name, independent of any fetch.
+ */
+export interface ComponentRef {
+    /** The Salesforce metadata type (e.g., 'ApexClass'). */
+    type: string;
+    /** The name of the component. */
+    componentName: string;
+}
+
+/**
+ * Where a selection set is stored.
+ * - `workspace`: VS Code workspace state, private to this machine
+ * - `shared`: `.sfcommitstudio/selection-sets.json`, which can be committed and shared
+ */
+export type SelectionSetLocation = 'workspace' | 'shared';
+
+/**
+ * A named selection of components, e.g. the work of one User Story.
+ */
+export interface SelectionSet {
+    /** Name of the set, unique per location. */
+    name: string;
+    /** Where the set is stored. */
+    location: SelectionSetLocation;
+    /** The selected components. */
+    components: ComponentRef[];
+    /** When the set was last saved (ISO 8601). */
+    savedAt: string;
+}
+
+/**
+ * A fetched component that a selected component likely needs to deploy.
+ */
+export interface DependencySuggestion {
+    /** The `MetadataChange.id` of the suggested component. */
+    id: string;
+    /** The Salesforce metadata type. */
+    type: string;
+    /** The name of the component. */
+    componentName: string;
+    /** Why it is suggested, e.g. 'Parent object of CustomField Account.Rating__c'. */
+    reason: string;
+}
+
+/**
+ * How a fetched component relates to the project's git repository.
+ * - `notInRepo`: none of its source files are tracked
+ * - `unchanged`: tracked, not edited locally, and not changed in the Org since
+ *   the last commit touching its files
+ * - `modified`: a source file has uncommitted local changes
+ * - `orgNewer`: changed in the Org after the last commit touching its files
+ */
+export type RepoStatus = 'notInRepo' | 'unchanged' | 'modified' | 'orgNewer';
+
+/**
+ * How a split commit groups the selection.
+ * - `author`: one commit per `modifiedBy` user
+ * - `type`: one commit per metadata type
+ */
+export type CommitSplit = 'author' | 'type';
+
+/**
+ * One commit created by a split commit.
+ */
+export interface SplitCommit {
+    /** The commit hash. */
+    commit: string;
+    /** What the commit's components have in common, e.g. `jane@acme.com` or `ApexClass`. */
+    label: string;
+    /** Number of files in the commit. */
+    filesCommitted: number;
+}
+
+/**
+ * A git author, as written in `Name <email>` form.
+ */
+export interface GitAuthor {
+    /** The author name. */
+    name: string;
+    /** The author email. */
+    email: string;
+}
+
+/**
+ * How commits are attributed to the Salesforce users who made the changes.
+ * - `committer`: commits are authored by the git user running VS Code
+ * - `author`: the user who modified most of the components is the commit author;
+ *   the other users are added as `Co-authored-by` trailers
+ * - `coAuthors`: every user is added as a `Co-authored-by` trailer
+ */
+export type AuthorMode = 'committer' | 'author' | 'coAuthors';
+
+/**
+ * The git authors credited for a selection.
+ */
+export interface CommitAttribution {
+    /** The commit author; unset to keep the git user. */
+    author?: GitAuthor;
+    /** Authors added as `Co-authored-by` trailers. */
+    coAuthors: GitAuthor[];
+    /** `modifiedBy` values with no entry in the author mapping. */
+    unmapped: string[];
+}
+
+/**
+ * A commit made through the Studio, rebuilt from `git log` and the
+ * `Studio-*` trailers written into its message.
+ */
+export interface CommitHistoryEntry {
+    /** Full commit hash. */
+    hash: string;
+    /** Branch the commit was made on. */
+    branch: string;
+    /** The User Story reference, if one was given. */
+    userStoryRef?: string;
+    /** First line of the commit message. */
+    message: string;
+    /** Git author name. */
+    author: string;
+    /** Author date (ISO 8601). */
+    date: string;
+    /** The metadata components in the commit and the files that changed for each. */
+    components: { type: string; componentName: string; paths: string[] }[];
+}
+
+/**
+ * Extension settings (`sfCommitStudio.*`) used by the Extension Host.
+ */
+export interface StudioSettings {
+    /** How commits are attributed to the Salesforce users who made the changes. */
+    authorMode: AuthorMode;
+    /** Whether the panel loads metadata for the selected Org as soon as it opens. */
+    autoFetchOnOpen: boolean;
+    /** Whether to commit nothing when any selected component fails to retrieve. */
+    blockOnRetrieveFailure: boolean;
+    /** Feature branch name pattern; `{story}` is replaced with the User Story Ref. */
+    branchPattern: string;
+    /** Minutes after which a saved fetch is refreshed when the panel opens; 0 always refreshes. */
+    cacheStaleAfterMinutes: number;
+    /** Whether commit messages must follow Conventional Commits. */
+    conventionalCommits: boolean;
+    /** Alias or username selected when the panel opens; empty for the first Org listed. */
+    defaultOrg: string;
+    /** Whether the User Story Ref is filled in from the current branch name. */
+    inferStoryFromBranch: boolean;
+    /** Maximum number of changes to load from the Org; 0 loads all of them. */
+    fetchLimit: number;
+    /** Commits of more components than this ask for confirmation first. */
+    largeCommitThreshold: number;
+    /** Whether the commit message body lists the committed components. */
+    listComponentsInBody: boolean;
+    /** Template for the commit message's first line; empty uses `storyPrefixFormat`. */
+    messageTemplate: string;
+    /** Number of grid rows per page when the panel opens. */
+    pageSize: number;
+    /** Remote that "Commit & Push" pushes to. */
+    pushRemote: string;
+    /** Prefix added to commit messages with a User Story Ref; `{story}` is replaced with the ref. */
+    storyPrefixFormat: string;
+    /** Regular expression a User Story Ref must match in full; empty accepts any. */
+    storyPattern: string;
+    /** Whether commits require a User Story Ref. */
+    storyRequired: boolean;
+    /** Whether "Commit & Push" writes a pull request description file. */
+    writePullRequestDescription: boolean;
+}
+
+/**
+ * The part of `StudioSettings` that drives the Webview.
+ */
+export type WebviewConfig = Pick<
+    StudioSettings,
+    'autoFetchOnOpen' | 'defaultOrg' | 'largeCommitThreshold' | 'pageSize' | 'storyPattern' | 'storyRequired'
+>;
+
+/**
+ * What happened to a component during the commit's retrieve.
+ * - `retrieved`: files were retrieved and differ from what is committed
+ * - `unchanged`: files were retrieved but match what is already committed
+ * - `failed`: the retrieve reported an error for the component
+ */
+export type ComponentRetrieveStatus = 'retrieved' | 'unchanged' | 'failed';
+
+/**
+ * The retrieve outcome of a single selected component.
+ */
+export interface ComponentOutcome {
+    /** The `MetadataChange.id` of the component. */
+    id: string;
+    /** What happened to the component. */
+    status: ComponentRetrieveStatus;
+    /** The retrieve error(s) reported for the component, if it failed. */
+    error?: string;
+}
+
 /**
  * Result of a metadata retrieve operation from Salesforce.
  */